@@ -2,47 +2,76 @@ import * as THREE from "three";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
 import { Flight } from "./flights/Flight.ts";
 import { Curves } from "./curves/Curves.ts";
+import { Airports } from "./airports/Airports.ts";
 import { PlanesShader } from "./planes/PlanesShader.ts";
+import { PlanePicker } from "./planes/PlanePicker.ts";
 import { FlightUtils } from "./flights/FlightUtils.ts";
+import { FlightBuilder } from "./flights/FlightBuilder.ts";
+import { FlightBuildClient } from "./workers/FlightBuildClient.ts";
 import { Stars } from "./space/Stars.ts";
 import { Earth } from "./space/Earth.ts";
 import { Controls } from "./managers/Controls.ts";
 import { EarthControlsManager } from "./managers/EarthControlsManager.ts";
 import { FlightControlsManager } from "./managers/FlightControlsManager.ts";
+import { FlightFilterManager } from "./managers/FlightFilterManager.ts";
 import { FlightPathManager } from "./managers/FlightPathManager.ts";
 import { PlaneControlsManager } from "./managers/PlaneControlsManager.ts";
+import { RouteColorManager } from "./managers/RouteColorManager.ts";
+import { ChaseCameraManager } from "./managers/ChaseCameraManager.ts";
 import {
-  flights as dataFlights,
+  loadBundledDataset,
+  type Airport,
   type Flight as FlightData,
 } from "./common/Data.ts";
+import {
+  summarizeReport,
+  type OpenFlightsReport,
+} from "./data/OpenFlights.ts";
+import { parseDatasetFile } from "./data/DatasetLoader.ts";
 import { planes as planeDefinitions } from "./planes/Planes.ts";
 import {
-  getCurrentUtcTimeHours,
   hoursToTimeString,
   parseHexColor,
   updateLighting as utilsUpdateLighting,
   updateSunPosition as utilsUpdateSunPosition,
   setInitialCameraPosition as utilsSetInitialCameraPosition,
+  vector3ToLatLng,
 } from "./common/Utils.ts";
 import { UIManager } from "./managers/UIManager.ts";
+import { SimulationClock } from "./common/SimulationClock.ts";
+import { SlotAllocator } from "./common/SlotAllocator.ts";
+import { LoadingProgress } from "./common/LoadingProgress.ts";
 import type {
   PlaneEntry,
   FlightConfig,
   SvgAtlasInfo,
   PerfStats,
   GuiParams,
+  AltitudeProfileName,
+  FlightBuildProgress,
+  FlightBuildResult,
+  FlightTooltipInfo,
+  GradientColorConfig,
+  LoadingStageId,
+  LoadingStageOptions,
+  LoadingState,
+  TooltipLocation,
 } from "./common/Types.js";
 
-const DATA_FLIGHT_COUNT: number = Array.isArray(dataFlights)
-  ? dataFlights.length
-  : 0;
-const MAX_FLIGHTS: number = DATA_FLIGHT_COUNT > 0 ? DATA_FLIGHT_COUNT : 30000;
+const RANDOM_FLIGHT_COUNT: number = 30000;
+const DEFAULT_FLIGHT_COUNT: number = 5000;
 const EARTH_RADIUS: number = 3000;
 const MIN_CURVE_ALTITUDE: number = 20;
 const TAKEOFF_LANDING_OFFSET: number = 18;
 const MIN_CRUISE_ALTITUDE: number = 30;
 const MAX_CRUISE_ALTITUDE: number = 220;
+const ALTITUDE_PROFILE: AltitudeProfileName = "Arc";
+// Planes and paths behind the globe fade out over this many world units
+const HORIZON_FADE: number = 120;
+// With constant ground speed on, Fly Speed is the cycle rate of a 10,000 km route
+const GROUND_SPEED_REFERENCE_LENGTH: number = (EARTH_RADIUS * 10000) / 6371;
 const DEFAULT_PLANE_COLOR: number = 0xff6666;
+const DEFAULT_ROUTE_COLOR: number = 0x4488ff;
 const FALLBACK_PLANE_COUNT: number = 8;
 const PLANE_ATLAS_COLUMNS: number = 4;
 const PLANE_ATLAS_ROWS: number = 2;
@@ -50,24 +79,57 @@ const PLANE_TEXTURE_SIZE: number = 512;
 const TARGET_AMBIENT_COLOR = new THREE.Color(0xffffff);
 const DEFAULT_DAY_BRIGHTNESS_PERCENT = 70;
 const DEFAULT_NIGHT_BRIGHTNESS_PERCENT = 40;
+// Re-pick under a still cursor at this interval (ms) so the tooltip follows
+// planes that fly in or out; pointer moves pick on the next frame
+const HOVER_PICK_REFRESH_MS = 250;
+// Pointer travel (px) below which a press and release count as a click
+const CLICK_MAX_TRAVEL = 5;
+// How often to check whether removed flights left enough holes to compact
+const SLOT_COMPACTION_INTERVAL_MS = 2000;
+// Startup work shown on the loading screen; weights are rough relative costs
+const LOADING_STAGES: LoadingStageOptions[] = [
+  { id: "earthTexture", label: "Loading Earth texture", weight: 3 },
+  { id: "planeAtlas", label: "Rasterizing plane icons", weight: 1 },
+  { id: "dataset", label: "Parsing dataset", weight: 1 },
+  { id: "routes", label: "Generating routes", weight: 2 },
+  { id: "curves", label: "Building curves", weight: 2 },
+];
 
 export class App {
   private readonly scene: THREE.Scene;
   private readonly camera: THREE.PerspectiveCamera;
   private readonly renderer: THREE.WebGLRenderer;
   private readonly uiManager: UIManager;
+  private readonly planePicker: PlanePicker;
 
   private flights: Flight[] = [];
+  // Curve/pane slot of every flight; flightsBySlot[slot] maps back
+  private flightSlots = new SlotAllocator(0);
+  private flightsBySlot: Array<Flight | undefined> = [];
+  private lastSlotCompactionTime = 0;
+  private dataAirports: Map<string, Airport> = new Map();
+  private dataFlights: FlightData[] = [];
+  private maxFlights: number = App.resolveMaxFlights(this.dataFlights);
   private mergedCurves: Curves | null = null;
   private mergedPanes: PlanesShader | null = null;
+  private airports: Airports | null = null;
+  private airportsDirty = true; // Flights changed since the markers were built
   private stars: Stars | null = null;
   private earth: Earth | null = null;
   private initialCameraPositioned: boolean = false;
-  private earthTextureLoaded = false;
-  private minTimeElapsed = false;
   private readonly clock = new THREE.Clock();
+  private readonly simulationClock = new SimulationClock({
+    followRealTime: true,
+  });
   private preGeneratedConfigs: FlightConfig[] = [];
-  private minLoadingTimeoutId: number | null = null;
+  // Route and curve generation runs in a worker; only the newest build lands
+  private readonly flightBuildClient = new FlightBuildClient();
+  private flightBuildId = 0;
+  private datasetBuildPending = false;
+  private readonly loadingProgress = new LoadingProgress(
+    LOADING_STAGES,
+    (state) => this.handleLoadingChange(state),
+  );
 
   private readonly planeEntries: PlaneEntry[];
   private readonly planeSvgCount: number;
@@ -83,11 +145,21 @@ export class App {
   private readonly params: GuiParams;
   private flightPathManager!: FlightPathManager;
   private flightControlsManager!: FlightControlsManager;
+  private flightFilterManager: FlightFilterManager | null = null;
+  private routeColorManager: RouteColorManager | null = null;
   private planeControlsManager!: PlaneControlsManager;
   private ambientLight: THREE.AmbientLight | null = null;
   private directionalLight: THREE.DirectionalLight | null = null;
   private controls!: OrbitControls;
+  private chaseCamera: ChaseCameraManager | null = null;
   private enableProfiling: boolean = false;
+  private hoverPointer: { x: number; y: number } | null = null;
+  private hoverPickPending = false;
+  private lastHoverPickTime = 0;
+  private pointerDownPosition: { x: number; y: number } | null = null;
+  private hoveredCurves: number[] = [];
+  private selectedCurves: number[] = [];
+  private hoveringFlight = false;
   private perfStats: PerfStats = {
     flightUpdates: 0,
     mergedUpdates: 0,
@@ -110,6 +182,78 @@ export class App {
     if (event.key === "p" || event.key === "P") {
       this.enableProfiling = !this.enableProfiling;
     }
+    if (event.key === "Escape") {
+      this.chaseCamera?.stop();
+      this.clearSelection();
+    }
+    if (
+      (event.key === "c" || event.key === "C") &&
+      !this.isTypingTarget(event)
+    ) {
+      if (this.chaseCamera?.isFollowing()) {
+        const mode = this.chaseCamera.toggleMode();
+        this.uiManager.showNotification(`Camera: ${mode}`);
+      }
+    }
+  };
+
+  private readonly handlePointerDown = (event: PointerEvent): void => {
+    this.pointerDownPosition =
+      event.button === 0 ? { x: event.clientX, y: event.clientY } : null;
+  };
+
+  // A click (not a drag) on a plane starts following it; a click on an
+  // airport or route keeps its routes highlighted until empty space is clicked
+  private readonly handlePointerUp = (event: PointerEvent): void => {
+    const start = this.pointerDownPosition;
+    this.pointerDownPosition = null;
+    if (!start || event.button !== 0) return;
+    if (
+      Math.hypot(event.clientX - start.x, event.clientY - start.y) >
+      CLICK_MAX_TRAVEL
+    ) {
+      return;
+    }
+
+    const { clientX, clientY } = event;
+    const index = this.planePicker.pick(
+      this.mergedPanes,
+      this.camera,
+      clientX,
+      clientY,
+    );
+    let airportIndex = -1;
+    if (index >= 0 && this.chaseCamera?.follow(index)) {
+      this.uiManager.showNotification(
+        `Following flight #${index + 1} — C switches Chase/Orbit, Esc returns`,
+      );
+      this.selectedCurves = [index];
+    } else {
+      airportIndex = this.pickAirportAt(clientX, clientY);
+      const airport = this.airports?.getAirport(airportIndex) ?? null;
+      if (airport) {
+        this.selectedCurves = airport.curveIndices;
+      } else {
+        const curveIndex = this.pickCurveAt(clientX, clientY);
+        this.selectedCurves = curveIndex >= 0 ? [curveIndex] : [];
+      }
+    }
+    this.airports?.setSelectedAirport(airportIndex);
+    this.applyCurveHighlight();
+  };
+
+  private readonly handlePointerMove = (event: PointerEvent): void => {
+    // No tooltips while orbiting the globe
+    if (event.buttons !== 0) {
+      this.clearHover();
+      return;
+    }
+    this.hoverPointer = { x: event.clientX, y: event.clientY };
+    this.hoverPickPending = true;
+  };
+
+  private readonly handlePointerLeave = (): void => {
+    this.clearHover();
   };
 
   private readonly animate = (): void => {
@@ -118,13 +262,18 @@ export class App {
     this.uiManager.beginStats();
 
     const delta = this.clock.getDelta();
+    const simulationTime = this.simulationClock.tick(delta);
     let t0: number | undefined;
     let t1: number | undefined;
 
     if (this.enableProfiling) t0 = performance.now();
 
     if (this.mergedPanes) {
-      this.mergedPanes.update(delta);
+      this.mergedPanes.update(simulationTime);
+    }
+
+    if (this.mergedCurves) {
+      this.mergedCurves.update(delta);
     }
 
     if (this.stars) {
@@ -133,28 +282,51 @@ export class App {
 
     this.updateSunPosition();
     this.uiManager.updateCoordinateDisplay(this.camera, this.earth);
+    this.uiManager.updateTimeline({
+      time: simulationTime,
+      playing: this.simulationClock.isPlaying(),
+      rate: this.simulationClock.getRate(),
+    });
 
     if (this.enableProfiling) {
       t1 = performance.now();
       this.perfStats.flightUpdates += (t1 ?? 0) - (t0 ?? 0);
     }
 
+    if (
+      performance.now() - this.lastSlotCompactionTime >
+        SLOT_COMPACTION_INTERVAL_MS &&
+      this.flightSlots.needsCompaction()
+    ) {
+      this.lastSlotCompactionTime = performance.now();
+      this.compactFlightSlots();
+    }
+
+    // Upload the slots changed since the last frame in one batch
     if (this.enableProfiling) t0 = performance.now();
     if (this.mergedCurves) {
       this.mergedCurves.applyUpdates();
     }
+    if (this.mergedPanes) {
+      this.mergedPanes.applyUpdates();
+    }
     if (this.enableProfiling) {
       t1 = performance.now();
       this.perfStats.mergedUpdates += (t1 ?? 0) - (t0 ?? 0);
     }
 
     if (this.enableProfiling) t0 = performance.now();
-    this.controls.update();
+    this.chaseCamera?.update(delta);
+    if (!this.chaseCamera?.isControllingCamera()) {
+      this.controls.update();
+    }
     if (this.enableProfiling) {
       t1 = performance.now();
       this.perfStats.controlsUpdate += (t1 ?? 0) - (t0 ?? 0);
     }
 
+    this.syncAirports();
+
     if (this.enableProfiling) t0 = performance.now();
     this.renderer.render(this.scene, this.camera);
     if (this.enableProfiling) {
@@ -163,6 +335,8 @@ export class App {
       this.perfStats.total += 1;
     }
 
+    this.updateHoverPick();
+
     this.uiManager.endStats();
   };
 
@@ -178,30 +352,46 @@ export class App {
     this.renderer.setSize(window.innerWidth, window.innerHeight);
     this.renderer.setClearColor(0x000000);
     document.querySelector("#app")!.appendChild(this.renderer.domElement);
+    this.planePicker = new PlanePicker(this.renderer, {
+      occluderRadius: EARTH_RADIUS,
+    });
 
     this.uiManager = new UIManager();
 
     this.planeEntries = this.createPlaneEntries();
     this.planeSvgCount = this.planeEntries.length;
 
+    this.parseBundledDataset();
+
     const initialPlaneColor = parseHexColor(
       this.planeEntries[0]?.color,
       DEFAULT_PLANE_COLOR,
     );
 
     this.params = {
-      numFlights: Math.min(5000, MAX_FLIGHTS),
+      numFlights: Math.min(DEFAULT_FLIGHT_COUNT, this.maxFlights),
       elevationOffset: 15,
       segmentCount: 100,
       planeSize: 100,
       planeColor: initialPlaneColor,
       animationSpeed: 0.1,
+      groundSpeed: false,
       tiltMode: "Tangent",
       paneStyle: "SVG",
       dashSize: 40,
       gapSize: 40,
+      dashFlowSpeed: 60,
+      lineWidth: 1.5,
+      pathMode: "Full",
+      colorBy: "Departure",
+      colorField: "airline",
+      colorPalette: "Viridis",
+      routeColor: DEFAULT_ROUTE_COLOR,
+      planesFollowColors: false,
       hidePath: false,
       hidePlane: false,
+      trailLength: 300,
+      trailOpacity: 0.6,
       randomSpeed: false,
       returnFlight: true,
     } as GuiParams;
@@ -212,8 +402,7 @@ export class App {
     this.setupLighting();
     this.setupEarthControls();
     this.setupGlobalControls();
-    this.preGenerateFlightConfigs();
-    this.initializeFlights();
+    this.loadFlights();
     this.updateLighting();
     this.updateSunPosition();
     this.prepareUi();
@@ -243,10 +432,11 @@ export class App {
     this.stars = new Stars(5000, 10000, 20000);
     this.stars.addToScene(this.scene);
 
-    this.earth = new Earth(EARTH_RADIUS, () => {
-      this.earthTextureLoaded = true;
-      this.checkReadyToStart();
-    });
+    this.earth = new Earth(
+      EARTH_RADIUS,
+      () => this.loadingProgress.complete("earthTexture"),
+      (error) => this.reportLoadingError("earthTexture", error),
+    );
     this.earth.addToScene(this.scene);
   }
 
@@ -270,7 +460,7 @@ export class App {
       getGuiControls: () => this.guiControls,
       updateLighting: () => this.updateLighting(),
       getEarth: () => this.earth,
-      getCurrentUtcTimeHours,
+      simulationClock: this.simulationClock,
       hoursToTimeString,
     });
   }
@@ -281,10 +471,11 @@ export class App {
     }
 
     const managerDependencies = {
-      maxFlights: MAX_FLIGHTS,
+      getMaxFlights: () => this.maxFlights,
       getFlights: () => this.flights,
       getPreGeneratedConfigs: () => this.preGeneratedConfigs,
-      getFlightCount: () => this.flights.length,
+      getDataFlights: () => this.dataFlights,
+      getSlotRangeEnd: () => this.flightSlots.getRangeEnd(),
       getMergedCurves: () => this.mergedCurves,
       getMergedPanes: () => this.mergedPanes,
       ensurePlaneDefaults: (config?: Partial<FlightConfig>) =>
@@ -293,13 +484,14 @@ export class App {
         this.assignRandomPlane(config),
       resolvePaneColor: (config?: Partial<FlightConfig>) =>
         this.resolvePaneColor(config),
-      createFlightFromConfig: (config: FlightConfig, index: number) =>
-        this.createFlightFromConfig(config, index),
+      addFlight: (config: FlightConfig) => this.addFlight(config),
+      removeFlight: (flight: Flight) => this.removeFlight(flight),
       loadSvgTexture: () => this.loadSvgTexture(),
-      initializeFlights: () => this.initializeFlights(),
+      initializeFlights: () => this.rebuildFlights(),
       fallbackPlaneColor: DEFAULT_PLANE_COLOR,
       parsePlaneColor: (value: any, fallback: number) =>
         parseHexColor(value, fallback),
+      onFilterChange: () => this.handleFilterChange(),
     };
 
     const resetSunPosition = (): void => {
@@ -315,15 +507,25 @@ export class App {
         managerDependencies,
         earthControlsManager: this.earthControlsManager,
         resetSunPosition,
+        openDatasetPicker: () =>
+          this.uiManager.openDatasetPicker((file) =>
+            this.loadDatasetFile(file),
+          ),
+        exportGeoJSON: () => this.exportGeoJSON(),
       },
       {
         planeSize: this.params.planeSize,
         planeSizeRange: { min: 5, max: 500 },
         planeColor: this.params.planeColor,
         animationSpeed: this.params.animationSpeed,
+        groundSpeed: this.params.groundSpeed,
         speedRange: { min: 0.01, max: 0.5, step: 0.01 },
         elevationOffset: this.params.elevationOffset,
         elevationRange: { min: 0, max: 200, step: 5 },
+        trailLength: this.params.trailLength,
+        trailLengthRange: { min: 0, max: 2000, step: 10 },
+        trailOpacity: this.params.trailOpacity,
+        trailOpacityRange: { min: 0, max: 1, step: 0.05 },
         paneStyle: this.params.paneStyle,
         paneStyleOptions: ["Pane", "SVG"],
         hidePlane: this.params.hidePlane,
@@ -331,9 +533,20 @@ export class App {
         dashRange: { min: 0, max: 2000, step: 1 },
         gapSize: this.params.gapSize,
         gapRange: { min: 0, max: 2000, step: 1 },
+        dashFlowSpeed: this.params.dashFlowSpeed,
+        dashFlowRange: { min: 0, max: 500, step: 5 },
+        lineWidth: this.params.lineWidth,
+        lineWidthRange: { min: 0.5, max: 8, step: 0.5 },
+        pathMode: this.params.pathMode,
+        pathModeOptions: ["Full", "Flown"],
+        colorBy: this.params.colorBy,
+        colorField: this.params.colorField,
+        colorPalette: this.params.colorPalette,
+        routeColor: this.params.routeColor,
+        planesFollowColors: this.params.planesFollowColors,
         hidePath: this.params.hidePath,
         numFlights: this.params.numFlights,
-        flightCountRange: { min: 1, max: MAX_FLIGHTS, step: 1 },
+        flightCountRange: { min: 1, max: this.maxFlights, step: 1 },
         returnFlight: this.params.returnFlight,
       },
     );
@@ -350,6 +563,8 @@ export class App {
     this.flightPathManager = flightPathManager;
     this.planeControlsManager = planeControlsManager;
     this.flightControlsManager = flightControlsManager;
+    this.flightFilterManager = this.controlsManager.getFlightFilterManager();
+    this.routeColorManager = this.controlsManager.getRouteColorManager();
 
     this.guiControls = this.controlsManager.getControls();
     this.earthControlsManager?.initializeFromGui(this.guiControls);
@@ -390,26 +605,485 @@ export class App {
     this.controls.minDistance = 3200;
     this.controls.maxDistance = 20000;
     this.controls.maxPolarAngle = Math.PI;
+
+    // Clicking a plane hands the camera to the chase camera until Escape
+    this.chaseCamera = new ChaseCameraManager({
+      camera: this.camera,
+      controls: this.controls,
+      getMergedPanes: () => this.mergedPanes,
+    });
   }
 
   private setupEventListeners(): void {
     window.addEventListener("resize", this.handleResize);
     window.addEventListener("keydown", this.handleKeyDown);
+    this.renderer.domElement.addEventListener(
+      "pointermove",
+      this.handlePointerMove,
+    );
+    this.renderer.domElement.addEventListener(
+      "pointerleave",
+      this.handlePointerLeave,
+    );
+    this.renderer.domElement.addEventListener(
+      "pointerdown",
+      this.handlePointerDown,
+    );
+    this.renderer.domElement.addEventListener(
+      "pointerup",
+      this.handlePointerUp,
+    );
+    this.uiManager.enableDatasetDrop(this.renderer.domElement, (file) =>
+      this.loadDatasetFile(file),
+    );
   }
 
-  private prepareUi(): void {
-    this.earthTextureLoaded = false;
-    this.minTimeElapsed = false;
+  /**
+   * Pick the plane under the cursor with the GPU ID buffer and show its
+   * tooltip, then highlight the route under the cursor. Runs after
+   * rendering, at most once per frame.
+   */
+  private updateHoverPick(): void {
+    if (!this.hoverPointer) return;
+
+    const now = performance.now();
+    const moved = this.hoverPickPending;
+    if (!moved && now - this.lastHoverPickTime < HOVER_PICK_REFRESH_MS) {
+      return;
+    }
+    this.hoverPickPending = false;
+    this.lastHoverPickTime = now;
+
+    const { x, y } = this.hoverPointer;
+    const index = this.planePicker.pick(this.mergedPanes, this.camera, x, y);
+    const flight = index >= 0 ? this.flightsBySlot[index] : undefined;
+    if (flight) {
+      this.uiManager.showFlightTooltip(
+        x,
+        y,
+        this.getFlightTooltipInfo(flight, index),
+      );
+      this.hoveredCurves = [index];
+    } else if (moved || this.hoveringFlight) {
+      // Airports and routes do not move, so only re-test them when the
+      // pointer does (or a hovered plane has flown away)
+      const airport =
+        this.airports?.getAirport(this.pickAirportAt(x, y)) ?? null;
+      if (airport) {
+        this.uiManager.showAirportTooltip(x, y, airport);
+        this.hoveredCurves = airport.curveIndices;
+      } else {
+        this.uiManager.hideTooltip();
+        const curveIndex = this.pickCurveAt(x, y);
+        this.hoveredCurves = curveIndex >= 0 ? [curveIndex] : [];
+      }
+    }
+    this.hoveringFlight = !!flight;
+    this.applyCurveHighlight();
+  }
 
+  /**
+   * Find the route drawn under a viewport point (-1 when none)
+   */
+  private pickCurveAt(clientX: number, clientY: number): number {
+    if (!this.mergedCurves) return -1;
+    const rect = this.renderer.domElement.getBoundingClientRect();
+    return this.mergedCurves.pickCurve(
+      this.camera,
+      clientX - rect.left,
+      clientY - rect.top,
+      rect.width,
+      rect.height,
+      { occluderRadius: EARTH_RADIUS },
+    );
+  }
+
+  /**
+   * Find the airport marker under a viewport point (-1 when none)
+   */
+  private pickAirportAt(clientX: number, clientY: number): number {
+    if (!this.airports) return -1;
+    const rect = this.renderer.domElement.getBoundingClientRect();
+    return this.airports.pick(
+      this.camera,
+      clientX - rect.left,
+      clientY - rect.top,
+      rect.width,
+      rect.height,
+    );
+  }
+
+  /**
+   * Rebuild the airport markers when flights were added or removed, and
+   * keep them at a constant pixel size
+   */
+  private syncAirports(): void {
+    if (this.airportsDirty) {
+      this.airportsDirty = false;
+      if (!this.airports) {
+        this.airports = new Airports(this.scene, { radius: EARTH_RADIUS });
+      }
+      // Rebuilding drops the selected marker, so drop its routes too
+      if (this.airports.getSelectedAirport() >= 0) {
+        this.clearSelection();
+      }
+      this.airports.setRoutes(
+        Array.from({ length: this.flightSlots.getRangeEnd() }, (_, slot) => {
+          const flight = this.flightsBySlot[slot];
+          return flight && !flight.isFilteredOut()
+            ? flight.getFlightData()
+            : null;
+        }),
+      );
+    }
+
+    this.airports?.update(this.camera, this.renderer.domElement.clientHeight);
+  }
+
+  // Clicked routes stay highlighted; otherwise the hovered ones are
+  private applyCurveHighlight(): void {
+    this.mergedCurves?.setHighlightedCurves(
+      this.selectedCurves.length > 0 ? this.selectedCurves : this.hoveredCurves,
+    );
+  }
+
+  private clearSelection(): void {
+    this.selectedCurves = [];
+    this.airports?.setSelectedAirport(-1);
+    this.applyCurveHighlight();
+  }
+
+  private isTypingTarget(event: KeyboardEvent): boolean {
+    const target = event.target as HTMLElement | null;
+    return (
+      !!target &&
+      (target.tagName === "INPUT" ||
+        target.tagName === "SELECT" ||
+        target.tagName === "TEXTAREA")
+    );
+  }
+
+  private clearHover(): void {
+    this.hoverPointer = null;
+    this.hoverPickPending = false;
+    this.uiManager.hideTooltip();
+    this.hoveredCurves = [];
+    this.hoveringFlight = false;
+    this.applyCurveHighlight();
+  }
+
+  private getFlightTooltipInfo(
+    flight: Flight,
+    index: number,
+  ): FlightTooltipInfo {
+    const flightData = flight.getFlightData();
+    const controlPoints = flight.getControlPoints();
+
+    // Prefer the airport records; random flights only have their curve
+    const resolveEndpoint = (
+      location: any,
+      point: THREE.Vector3 | undefined,
+    ): TooltipLocation | null => {
+      if (
+        location &&
+        Number.isFinite(location.lat) &&
+        Number.isFinite(location.lng)
+      ) {
+        return location;
+      }
+      return point ? { ...vector3ToLatLng(point, EARTH_RADIUS) } : null;
+    };
+
+    return {
+      index,
+      departure: resolveEndpoint(flightData?.departure, controlPoints[0]),
+      arrival: resolveEndpoint(
+        flightData?.arrival,
+        controlPoints[controlPoints.length - 1],
+      ),
+      flightData,
+    };
+  }
+
+  /**
+   * Parse the bundled routes; without them the app shows random flights
+   */
+  private parseBundledDataset(): void {
+    try {
+      const dataset = loadBundledDataset();
+      this.dataAirports = dataset.airports;
+      this.dataFlights = dataset.flights;
+      this.maxFlights = App.resolveMaxFlights(this.dataFlights);
+      this.logDatasetReport("OpenFlights import", dataset.report);
+      this.loadingProgress.complete("dataset");
+    } catch (error) {
+      this.reportLoadingError("dataset", error);
+    }
+  }
+
+  private logDatasetReport(label: string, report: OpenFlightsReport): void {
+    if (report.skipped.length > 0) {
+      console.warn(`${label}: ${summarizeReport(report)}`);
+    }
+  }
+
+  private static resolveMaxFlights(flights: FlightData[]): number {
+    return flights.length > 0 ? flights.length : RANDOM_FLIGHT_COUNT;
+  }
+
+  /**
+   * Parse a user-supplied route file and swap it in as the active dataset
+   */
+  private async loadDatasetFile(file: File): Promise<void> {
+    try {
+      const text = await file.text();
+      const { flights, report } = parseDatasetFile(
+        file.name,
+        text,
+        this.dataAirports,
+      );
+
+      this.logDatasetReport(file.name, report);
+      if (!flights.length) {
+        throw new Error(`No usable routes found in ${file.name}`);
+      }
+
+      // Build failures are reported on their own; a newer load wins
+      if (await this.setDataset(flights)) {
+        this.uiManager.showNotification(
+          `Loaded ${flights.length} routes from ${file.name}`,
+        );
+      }
+    } catch (error) {
+      console.error("Failed to load dataset:", error);
+      this.uiManager.showNotification(
+        error instanceof Error ? error.message : `Failed to load ${file.name}`,
+        "error",
+      );
+    }
+  }
+
+  /**
+   * Replace the active dataset, resizing the merged renderers to fit it
+   * @returns Resolves once its flights are built (see loadFlights)
+   */
+  private setDataset(flights: FlightData[]): Promise<boolean> {
+    this.dataFlights = flights;
+    this.maxFlights = App.resolveMaxFlights(flights);
+    this.params.numFlights = Math.min(DEFAULT_FLIGHT_COUNT, this.maxFlights);
+
+    this.controlsManager.setFlightCountRange({ min: 1, max: this.maxFlights });
+    this.controlsManager.syncFlightCount(this.params.numFlights);
+
+    return this.loadFlights();
+  }
+
+  /**
+   * Generate the dataset's routes and the first flights' curve buffers in
+   * the flight build worker, then create the flights from them
+   * @returns Whether this build created the flights: false when it failed
+   *   (the error has been reported) or a newer build replaced it
+   */
+  private async loadFlights(): Promise<boolean> {
+    const buildId = ++this.flightBuildId;
+    // Color scales span the dataset, or the random routes generated below
+    this.routeColorManager?.invalidate();
+
+    if (!this.dataFlights.length) {
+      // Random routes are cheap; only their curves go to the worker
+      if (!this.generateRoutes(null)) return false;
+      this.loadingProgress.complete("routes");
+      this.datasetBuildPending = false;
+      return this.rebuildFlights();
+    }
+
+    this.datasetBuildPending = true;
+    let result: FlightBuildResult | null = null;
+    try {
+      result = await this.flightBuildClient.build(
+        FlightBuilder.createRouteRequest(
+          this.dataFlights,
+          {
+            radius: EARTH_RADIUS,
+            takeoffOffset: TAKEOFF_LANDING_OFFSET,
+            minCurveAltitude: MIN_CURVE_ALTITUDE,
+            minCruiseAltitude: MIN_CRUISE_ALTITUDE,
+            maxCruiseAltitude: MAX_CRUISE_ALTITUDE,
+            altitudeProfile: ALTITUDE_PROFILE,
+          },
+          this.params.numFlights,
+          this.params.segmentCount,
+          (entry: FlightData) => this.resolveCurveColor({ flightData: entry }),
+        ),
+        (progress) => this.reportFlightBuildProgress(buildId, progress),
+      );
+    } catch (error) {
+      console.warn("Flight build failed, building on the main thread:", error);
+    }
+    if (buildId !== this.flightBuildId) return false;
+
+    this.datasetBuildPending = false;
+    if (!this.generateRoutes(result)) return false;
+    // Curve i belongs to config i only if every route produced a config
+    return this.createFlights(
+      result && result.routeCount === this.preGeneratedConfigs.length
+        ? result
+        : null,
+    );
+  }
+
+  /**
+   * Recreate the flights from the current configs, with their curve
+   * buffers built in the flight build worker
+   * @returns Whether this build created the flights (see loadFlights)
+   */
+  private async rebuildFlights(): Promise<boolean> {
+    // A dataset build in flight creates the flights with current settings
+    if (this.datasetBuildPending) return false;
+
+    const buildId = ++this.flightBuildId;
+    // Normalized the way initializeFlights will, so the curve colors match
+    const configs = this.preGeneratedConfigs
+      .slice(0, this.params.numFlights)
+      .map((config) => ({
+        ...this.ensurePlaneDefaults(config),
+        curveColor: this.resolveCurveColor(config),
+      }));
+    let result: FlightBuildResult | null = null;
+    try {
+      result = await this.flightBuildClient.build(
+        FlightBuilder.createCurveRequest(configs, this.params.segmentCount),
+        (progress) => this.reportFlightBuildProgress(buildId, progress),
+      );
+    } catch (error) {
+      console.warn("Flight build failed, building on the main thread:", error);
+    }
+    if (buildId !== this.flightBuildId) return false;
+
+    return this.createFlights(result);
+  }
+
+  /**
+   * Create the route configs, from the worker's routes or else on the
+   * main thread
+   * @returns False when generation failed; the error has been reported
+   */
+  private generateRoutes(result: FlightBuildResult | null): boolean {
+    try {
+      this.preGenerateFlightConfigs(result);
+      return true;
+    } catch (error) {
+      this.reportLoadingError("routes", error);
+      return false;
+    }
+  }
+
+  /**
+   * Create the flights, from the worker's curve buffers or else on the
+   * main thread
+   * @returns False when creation failed; the error has been reported
+   */
+  private createFlights(result: FlightBuildResult | null): boolean {
+    try {
+      this.initializeFlights(result);
+    } catch (error) {
+      this.reportLoadingError("curves", error);
+      return false;
+    }
+    this.handleFlightsLoaded();
+    return true;
+  }
+
+  private reportFlightBuildProgress(
+    buildId: number,
+    progress: FlightBuildProgress,
+  ): void {
+    if (buildId !== this.flightBuildId) return;
+
+    // Flights are created after the last curve, so "curves" completes in
+    // handleFlightsLoaded
+    this.loadingProgress.update(
+      progress.stage,
+      progress.total > 0 ? progress.completed / progress.total : 1,
+    );
+  }
+
+  private handleFlightsLoaded(): void {
+    this.loadingProgress.complete("routes");
+    this.loadingProgress.complete("curves");
+  }
+
+  private handleLoadingChange(state: LoadingState): void {
+    this.uiManager.setLoadingState(state, () =>
+      this.setInitialCameraPosition(),
+    );
+    if (state.complete) {
+      this.setInitialCameraPosition();
+    }
+  }
+
+  /**
+   * Show a failed startup stage on the loading screen, or as a
+   * notification once the app is running
+   */
+  private reportLoadingError(stage: LoadingStageId, error: unknown): void {
+    const shownOnLoadingScreen = this.loadingProgress.fail(stage, error);
+    if (!shownOnLoadingScreen && this.initialCameraPositioned) {
+      this.uiManager.showNotification(
+        LoadingProgress.describeError(error),
+        "error",
+      );
+    }
+  }
+
+  /**
+   * Download the active flights as a GeoJSON FeatureCollection
+   */
+  private exportGeoJSON(): void {
+    const collection = FlightUtils.flightsToGeoJSON(this.flights);
+    this.uiManager.downloadFile(
+      "flights.geojson",
+      JSON.stringify(collection, null, 2),
+      "application/geo+json",
+    );
+    this.uiManager.showNotification(
+      `Exported ${collection.features.length} routes to flights.geojson`,
+    );
+  }
+
+  private prepareUi(): void {
     this.uiManager.createLoadingScreen();
     this.uiManager.createFooter();
+    this.createTimeline();
     this.uiManager.hideDuringLoading();
     this.uiManager.updateCoordinateDisplay(this.camera, this.earth);
+    this.handleLoadingChange(this.loadingProgress.getState());
+
+    // The atlas is only needed up front when planes start as SVG icons
+    if (this.params.paneStyle === "SVG") {
+      this.loadSvgTexture().catch(() => {});
+    } else {
+      this.loadingProgress.complete("planeAtlas");
+    }
+  }
 
-    this.minLoadingTimeoutId = window.setTimeout(() => {
-      this.minTimeElapsed = true;
-      this.checkReadyToStart();
-    }, 2000);
+  private createTimeline(): void {
+    // Route changes through the Earth Controls so the GUI stays in sync
+    const updateClock = (
+      change: (manager: EarthControlsManager) => void,
+    ): void => {
+      if (!this.earthControlsManager) return;
+      change(this.earthControlsManager);
+      this.controlsManager?.syncTimeControls();
+    };
+
+    this.uiManager.createTimeline({
+      onPlayingChange: (playing) =>
+        updateClock((manager) => manager.setPlaying(playing)),
+      onRateChange: (rate) =>
+        updateClock((manager) => manager.setTimeRate(rate)),
+      onSeek: (time) => updateClock((manager) => manager.seek(time)),
+    });
   }
 
   private ensurePlaneDefaults(
@@ -434,7 +1108,10 @@ export class App {
     );
   }
 
-  private createDataFlightConfig(entry: FlightData): FlightConfig | null {
+  private createDataFlightConfig(
+    entry: FlightData,
+    controlPoints?: THREE.Vector3[],
+  ): FlightConfig | null {
     return FlightUtils.createDataFlightConfig(
       entry,
       this.params,
@@ -446,33 +1123,42 @@ export class App {
       this.planeEntries,
       DEFAULT_PLANE_COLOR,
       parseHexColor,
+      ALTITUDE_PROFILE,
+      controlPoints,
     );
   }
 
-  private preGenerateFlightConfigs(): void {
+  /**
+   * @param result - Worker build whose routes hold the dataset's control points
+   */
+  private preGenerateFlightConfigs(
+    result: FlightBuildResult | null = null,
+  ): void {
     this.preGeneratedConfigs = FlightUtils.preGenerateFlightConfigs(
-      dataFlights,
-      MAX_FLIGHTS,
+      this.dataFlights,
+      this.maxFlights,
       this.params,
       EARTH_RADIUS,
       MIN_CURVE_ALTITUDE,
       this.planeEntries,
       DEFAULT_PLANE_COLOR,
       parseHexColor,
-      (entry: FlightData) => this.createDataFlightConfig(entry),
+      (entry: FlightData, index: number) =>
+        this.createDataFlightConfig(
+          entry,
+          result ? FlightBuilder.getControlPoints(result, index) : undefined,
+        ),
       (config: Partial<FlightConfig>) => this.assignRandomPlane(config),
     );
   }
 
-  private checkReadyToStart(): void {
-    if (this.earthTextureLoaded && this.minTimeElapsed) {
-      this.setInitialCameraPosition();
-    }
-  }
-
   private resolvePaneColor(
     config: Partial<FlightConfig> = {},
   ): number {
+    // Mapped tints are not stored, so they follow later mapping changes
+    if (this.params.planesFollowColors && this.routeColorManager) {
+      return this.routeColorManager.resolvePlaneTint(config);
+    }
     if (typeof config.paneColor === "number") {
       return config.paneColor;
     }
@@ -482,6 +1168,14 @@ export class App {
     return color;
   }
 
+  private resolveCurveColor(
+    config: Partial<FlightConfig> = {},
+  ): number | GradientColorConfig {
+    return this.routeColorManager
+      ? this.routeColorManager.resolveCurveColor(config)
+      : config.curveColor;
+  }
+
   private updateLighting(): void {
     if (
       !this.guiControls ||
@@ -550,6 +1244,8 @@ export class App {
         const heightSize = Math.round(rasterSize * aspect);
 
         const rasterizedImages: HTMLImageElement[] = [];
+        // One step per icon plus the atlas texture upload
+        const steps = this.planeEntries.length + 1;
 
         for (const plane of this.planeEntries) {
           const svgPath =
@@ -591,6 +1287,10 @@ export class App {
             },
           );
           rasterizedImages.push(image);
+          this.loadingProgress.update(
+            "planeAtlas",
+            rasterizedImages.length / steps,
+          );
         }
 
         const atlasCanvas = document.createElement("canvas");
@@ -631,17 +1331,15 @@ export class App {
                 this.renderer.capabilities?.getMaxAnisotropy?.() || 1;
               texture.needsUpdate = true;
               this.svgTexture = texture;
+              this.loadingProgress.complete("planeAtlas");
               resolve({ texture: this.svgTexture, info: this.svgAtlasInfo! });
             },
             undefined,
-            (error) => {
-              console.error("Failed to load SVG atlas texture:", error);
-              reject(error);
-            },
+            (error) => reject(error),
           );
         });
       } catch (error) {
-        console.error("Failed to prepare SVG texture atlas:", error);
+        this.reportLoadingError("planeAtlas", error);
         this.svgTexturePromise = null;
         throw error;
       }
@@ -677,16 +1375,90 @@ export class App {
     }
   }
 
-  private createFlightFromConfig(
-    config: FlightConfig,
-    flightIndex: number,
-  ): Flight {
+  /**
+   * Create a flight in the lowest free slot and register it
+   * @returns The flight, or null when every slot is in use
+   */
+  private addFlight(config: FlightConfig): Flight | null {
+    const slot = this.flightSlots.allocate();
+    if (slot < 0) {
+      console.warn(`All ${this.flightSlots.getCapacity()} flight slots in use`);
+      return null;
+    }
+
+    const flight = this.createFlightFromConfig(config, slot);
+    this.flights.push(flight);
+    this.flightsBySlot[slot] = flight;
+    this.airportsDirty = true;
+    return flight;
+  }
+
+  /**
+   * Hide a flight and return its slot to the free-list. Holes left behind
+   * are closed by compactFlightSlots.
+   */
+  private removeFlight(flight: Flight): void {
+    const listIndex = this.flights.lastIndexOf(flight);
+    if (listIndex < 0) return;
+
+    this.flights.splice(listIndex, 1);
+    const slot = flight.getSlot();
+    flight.remove();
+    if (this.flightsBySlot[slot] === flight) {
+      this.flightsBySlot[slot] = undefined;
+    }
+    this.flightSlots.release(slot);
+    this.flightsBySlot.length = this.flightSlots.getRangeEnd();
+
+    if (this.chaseCamera?.getFollowedIndex() === slot) {
+      this.chaseCamera.stop();
+    }
+    this.hoveredCurves = this.hoveredCurves.filter((index) => index !== slot);
+    this.selectedCurves = this.selectedCurves.filter((index) => index !== slot);
+    this.airportsDirty = true;
+  }
+
+  /**
+   * Move the flights in the highest slots into the holes left by removed
+   * flights, so the curve draw range and pane instance count shrink back
+   * to the number of live flights
+   */
+  private compactFlightSlots(): void {
+    const moves = this.flightSlots.compact();
+    if (moves.length === 0) return;
+
+    const remap = new Map<number, number>();
+    moves.forEach(({ from, to }) => {
+      const flight = this.flightsBySlot[from];
+      flight?.moveToSlot(to);
+      this.flightsBySlot[to] = flight;
+      this.flightsBySlot[from] = undefined;
+      remap.set(from, to);
+    });
+    this.flightsBySlot.length = this.flightSlots.getRangeEnd();
+
+    const followed = this.chaseCamera?.getFollowedIndex() ?? -1;
+    if (remap.has(followed)) {
+      this.chaseCamera?.follow(remap.get(followed) as number);
+    }
+    const remapSlots = (slots: number[]) =>
+      slots.map((slot) => remap.get(slot) ?? slot);
+    this.hoveredCurves = remapSlots(this.hoveredCurves);
+    this.selectedCurves = remapSlots(this.selectedCurves);
+    this.applyCurveHighlight();
+    this.airportsDirty = true;
+
+    this.flightPathManager.applyVisibility();
+    this.planeControlsManager.setHidePlane(this.params.hidePlane);
+  }
+
+  private createFlightFromConfig(config: FlightConfig, slot: number): Flight {
     const flightConfig = {
       ...config,
       mergedCurves: this.mergedCurves,
-      curveIndex: flightIndex,
+      curveIndex: slot,
       mergedPanes: this.mergedPanes,
-      paneIndex: flightIndex,
+      paneIndex: slot,
     };
 
     const flight = new Flight(this.scene, flightConfig);
@@ -716,9 +1488,19 @@ export class App {
     return flight;
   }
 
-  private initializeFlights(): void {
+  /**
+   * @param result - Worker build holding curve buffers for the first flights
+   */
+  private initializeFlights(result: FlightBuildResult | null = null): void {
+    // Pane and curve indices are about to be reassigned
+    this.chaseCamera?.reset();
+    this.hoveredCurves = [];
+    this.selectedCurves = [];
+    this.airportsDirty = true;
     this.flights.forEach((flight) => flight.remove());
     this.flights = [];
+    this.flightSlots = new SlotAllocator(this.maxFlights);
+    this.flightsBySlot = [];
 
     if (this.mergedCurves) {
       this.mergedCurves.remove();
@@ -728,18 +1510,32 @@ export class App {
     }
 
     this.mergedCurves = new Curves(this.scene, {
-      maxCurves: MAX_FLIGHTS,
+      maxCurves: this.maxFlights,
       segmentsPerCurve: this.params.segmentCount,
       dashSize: this.params.dashSize,
       gapSize: this.params.gapSize,
+      dashFlowSpeed: this.params.dashFlowSpeed,
+      lineWidth: this.params.lineWidth,
+      progressiveReveal: this.params.pathMode === "Flown",
+      horizonRadius: EARTH_RADIUS,
+      horizonFade: HORIZON_FADE,
     });
 
     this.mergedPanes = new PlanesShader(this.scene, {
-      maxPanes: MAX_FLIGHTS,
+      maxPanes: this.maxFlights,
       baseSize: this.params.planeSize,
       returnMode: this.params.returnFlight,
       baseElevation: this.params.elevationOffset,
+      groundSpeed: this.params.groundSpeed,
+      groundSpeedReferenceLength: GROUND_SPEED_REFERENCE_LENGTH,
+      simulationTime: this.simulationClock.getTime(),
+      horizonRadius: EARTH_RADIUS,
+      horizonFade: HORIZON_FADE,
+      trailLength: this.params.trailLength,
+      trailOpacity: this.params.trailOpacity,
     });
+    // Curve and pane slots are allocated together, so indices match
+    this.mergedCurves.setAnimationSource(this.mergedPanes);
 
     this.flightPathManager.applyDashPattern();
     this.applyPaneTexture();
@@ -776,7 +1572,7 @@ export class App {
           baseConfig.controlPoints,
         ),
         segmentCount: this.params.segmentCount,
-        curveColor: baseConfig.curveColor,
+        curveColor: this.resolveCurveColor(baseConfig),
         paneSize: this.params.planeSize,
         paneColor: this.resolvePaneColor(baseConfig),
         animationSpeed: this.planeControlsManager.resolveAnimationSpeed(
@@ -789,14 +1585,33 @@ export class App {
         paneTextureIndex: baseConfig.paneTextureIndex,
         returnFlight: this.params.returnFlight,
       };
+      flightConfig.curveVertices = result
+        ? FlightBuilder.getCurveVertices(result, i, flightConfig)
+        : null;
 
-      const flight = this.createFlightFromConfig(flightConfig, i);
-      this.flights.push(flight);
+      if (!this.addFlight(flightConfig)) {
+        break;
+      }
     }
 
     this.flightPathManager.applyVisibility();
     this.planeControlsManager.setHidePlane(this.params.hidePlane);
     this.flightControlsManager.setReturnFlight(this.params.returnFlight);
+    this.flightFilterManager?.applyFilter();
+  }
+
+  /**
+   * Flights were hidden or shown by the filter: drop state that may point at
+   * hidden flights and recount the airports
+   */
+  private handleFilterChange(): void {
+    const followed = this.chaseCamera?.getFollowedIndex() ?? -1;
+    if (followed >= 0 && this.flightsBySlot[followed]?.isFilteredOut()) {
+      this.chaseCamera?.stop();
+    }
+    this.hoveredCurves = [];
+    this.clearSelection();
+    this.airportsDirty = true;
   }
 
 }
@@ -0,0 +1,327 @@
+import * as THREE from "three";
+import vertexShader from "../shaders/airports.vert?raw";
+import fragmentShader from "../shaders/airports.frag?raw";
+import { latLngToVector3 } from "../common/Utils.ts";
+import type { Flight as FlightData } from "../common/Data.ts";
+import type {
+  AirportEndpoint,
+  AirportMarker,
+  AirportsOptions,
+} from "../common/Types.js";
+
+// Height of the markers above the globe surface (world units)
+const SURFACE_OFFSET = 1.5;
+const DISK_SEGMENTS = 24;
+// Extra pixels around a marker that still count as a hit
+const PICK_TOLERANCE = 3;
+
+/**
+ * Airports - Instanced airport markers on the globe
+ * Collects the unique endpoints of the routes and draws one disk per airport,
+ * sized by its degree (the number of routes touching it), in a single draw
+ * call. Sizes are in pixels; call update() each frame to keep them so.
+ */
+export class Airports {
+  private readonly scene: THREE.Scene;
+  private readonly radius: number;
+  private readonly minSize: number;
+  private readonly maxSize: number;
+  private readonly baseColor: THREE.Color;
+  private readonly highlightColor: THREE.Color;
+
+  private geometry: THREE.CircleGeometry | null = null;
+  private material: THREE.ShaderMaterial | null = null;
+  private mesh: THREE.InstancedMesh | null = null;
+
+  // Per-instance data
+  private markers: AirportMarker[] = [];
+  private positions: Float32Array = new Float32Array(0);
+  private sizes: Float32Array = new Float32Array(0);
+  private colors: Float32Array = new Float32Array(0);
+
+  private selectedIndex: number = -1;
+  private visible: boolean = true;
+
+  constructor(scene: THREE.Scene, options: AirportsOptions = {}) {
+    this.scene = scene;
+    this.radius = options.radius || 3000;
+    this.minSize = options.minSize || 2.5;
+    this.maxSize = Math.max(this.minSize, options.maxSize || 9);
+    this.baseColor = new THREE.Color(options.color ?? 0xffc857);
+    this.highlightColor = new THREE.Color(options.highlightColor ?? 0xffffff);
+  }
+
+  /**
+   * Build the markers from the routes being displayed
+   * @param routes - Route endpoints indexed by curve index (null to skip)
+   */
+  public setRoutes(
+    routes: Array<Pick<FlightData, "departure" | "arrival"> | null>,
+  ): void {
+    this.markers = this.collectMarkers(routes);
+    this.selectedIndex = -1;
+    this.rebuildMesh();
+  }
+
+  /**
+   * Keep markers at a constant pixel size for the current camera
+   * @param camera - Rendering camera
+   * @param viewportHeight - Canvas height in pixels
+   */
+  public update(camera: THREE.PerspectiveCamera, viewportHeight: number): void {
+    if (!this.material || viewportHeight <= 0) return;
+
+    const distance = Math.max(camera.position.length() - this.radius, 1);
+    const halfFov = THREE.MathUtils.degToRad(camera.getEffectiveFOV() / 2);
+    this.material.uniforms.worldUnitsPerPixel.value =
+      (2 * distance * Math.tan(halfFov)) / viewportHeight;
+  }
+
+  /**
+   * Find the airport marker under a point on screen
+   * @param camera - Camera used for rendering (matrices must be current)
+   * @param x - Pointer x in pixels from the left of the canvas
+   * @param y - Pointer y in pixels from the top of the canvas
+   * @param width - Canvas width in pixels
+   * @param height - Canvas height in pixels
+   * @returns Airport index, or -1 when no marker is under the point
+   */
+  public pick(
+    camera: THREE.Camera,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+  ): number {
+    if (!this.mesh || !this.visible || width <= 0 || height <= 0) return -1;
+
+    const cameraPosition = new THREE.Vector3().setFromMatrixPosition(
+      camera.matrixWorld,
+    );
+    const point = new THREE.Vector3();
+    const toCamera = new THREE.Vector3();
+    let bestIndex = -1;
+    let bestDistanceSq = Infinity;
+
+    for (let i = 0; i < this.markers.length; i++) {
+      point.fromArray(this.positions, i * 3);
+
+      // Markers on the far side of the globe face away from the camera
+      if (toCamera.subVectors(cameraPosition, point).dot(point) <= 0) continue;
+
+      point.project(camera);
+      if (point.z > 1) continue;
+      const dx = (point.x + 1) * 0.5 * width - x;
+      const dy = (1 - point.y) * 0.5 * height - y;
+      const distanceSq = dx * dx + dy * dy;
+      const reach = this.sizes[i] + PICK_TOLERANCE;
+      if (distanceSq <= reach * reach && distanceSq < bestDistanceSq) {
+        bestDistanceSq = distanceSq;
+        bestIndex = i;
+      }
+    }
+
+    return bestIndex;
+  }
+
+  /**
+   * Get the marker at an index
+   */
+  public getAirport(index: number): AirportMarker | null {
+    return this.markers[index] ?? null;
+  }
+
+  /**
+   * Get the number of airport markers
+   */
+  public getCount(): number {
+    return this.markers.length;
+  }
+
+  /**
+   * Draw one marker in the highlight color
+   * @param index - Airport index, or -1 for none
+   */
+  public setSelectedAirport(index: number): void {
+    const next = index >= 0 && index < this.markers.length ? index : -1;
+    if (next === this.selectedIndex) return;
+
+    const previous = this.selectedIndex;
+    this.selectedIndex = next;
+    if (previous >= 0) {
+      this.writeColor(previous, this.baseColor);
+    }
+    if (next >= 0) {
+      this.writeColor(next, this.highlightColor);
+    }
+    if (this.geometry?.attributes.airportColor) {
+      this.geometry.attributes.airportColor.needsUpdate = true;
+    }
+  }
+
+  public getSelectedAirport(): number {
+    return this.selectedIndex;
+  }
+
+  public setVisible(visible: boolean): void {
+    this.visible = !!visible;
+    if (this.mesh) {
+      this.mesh.visible = this.visible;
+    }
+  }
+
+  /**
+   * Remove from scene and cleanup
+   */
+  public remove(): void {
+    this.disposeMesh();
+    this.markers = [];
+    this.selectedIndex = -1;
+  }
+
+  /**
+   * Check if the airport markers exist
+   */
+  public exists(): boolean {
+    return this.mesh !== null;
+  }
+
+  private collectMarkers(
+    routes: Array<Pick<FlightData, "departure" | "arrival"> | null>,
+  ): AirportMarker[] {
+    const markersByKey = new Map<string, AirportMarker>();
+
+    routes.forEach((route, curveIndex) => {
+      if (!route) return;
+
+      const touched = new Set<AirportMarker>();
+      [route.departure, route.arrival].forEach((endpoint) => {
+        const marker = this.resolveMarker(markersByKey, endpoint);
+        // A route counts once per airport, even if it starts and ends there
+        if (!marker || touched.has(marker)) return;
+        touched.add(marker);
+        marker.degree += 1;
+        marker.curveIndices.push(curveIndex);
+      });
+    });
+
+    return [...markersByKey.values()];
+  }
+
+  private resolveMarker(
+    markersByKey: Map<string, AirportMarker>,
+    endpoint: AirportEndpoint | null | undefined,
+  ): AirportMarker | null {
+    if (
+      !endpoint ||
+      !Number.isFinite(endpoint.lat) ||
+      !Number.isFinite(endpoint.lng)
+    ) {
+      return null;
+    }
+
+    const iata =
+      typeof endpoint.iata === "string" && endpoint.iata.trim()
+        ? endpoint.iata.trim().toUpperCase()
+        : null;
+    const key = iata ?? `${endpoint.lat.toFixed(4)},${endpoint.lng.toFixed(4)}`;
+
+    let marker = markersByKey.get(key);
+    if (!marker) {
+      marker = {
+        key,
+        lat: endpoint.lat,
+        lng: endpoint.lng,
+        iata,
+        name: endpoint.name ?? null,
+        city: endpoint.city ?? null,
+        country: endpoint.country ?? null,
+        degree: 0,
+        curveIndices: [],
+      };
+      markersByKey.set(key, marker);
+    }
+    return marker;
+  }
+
+  private rebuildMesh(): void {
+    this.disposeMesh();
+
+    const count = this.markers.length;
+    if (count === 0) return;
+
+    this.positions = new Float32Array(count * 3);
+    this.sizes = new Float32Array(count);
+    this.colors = new Float32Array(count * 3);
+
+    // Size by the square root of degree so hubs stand out without
+    // swallowing their neighbours
+    const maxDegree = this.markers.reduce(
+      (max, marker) => Math.max(max, marker.degree),
+      1,
+    );
+    this.markers.forEach((marker, i) => {
+      latLngToVector3(
+        marker.lat,
+        marker.lng,
+        this.radius + SURFACE_OFFSET,
+      ).toArray(this.positions, i * 3);
+      const weight =
+        maxDegree > 1 ? Math.sqrt((marker.degree - 1) / (maxDegree - 1)) : 0;
+      this.sizes[i] = THREE.MathUtils.lerp(this.minSize, this.maxSize, weight);
+      this.writeColor(i, this.baseColor);
+    });
+
+    this.geometry = new THREE.CircleGeometry(1, DISK_SEGMENTS);
+    this.geometry.setAttribute(
+      "airportPosition",
+      new THREE.InstancedBufferAttribute(this.positions, 3),
+    );
+    this.geometry.setAttribute(
+      "airportSize",
+      new THREE.InstancedBufferAttribute(this.sizes, 1),
+    );
+    this.geometry.setAttribute(
+      "airportColor",
+      new THREE.InstancedBufferAttribute(this.colors, 3),
+    );
+
+    this.material = new THREE.ShaderMaterial({
+      uniforms: {
+        worldUnitsPerPixel: { value: 1.0 },
+        opacity: { value: 0.9 },
+      },
+      vertexShader,
+      fragmentShader,
+      transparent: true,
+      depthWrite: false,
+    });
+
+    this.mesh = new THREE.InstancedMesh(this.geometry, this.material, count);
+    // Instances are placed in the shader, so the mesh bounds are meaningless
+    this.mesh.frustumCulled = false;
+    this.mesh.visible = this.visible;
+    this.scene.add(this.mesh);
+  }
+
+  private writeColor(index: number, color: THREE.Color): void {
+    this.colors[index * 3] = color.r;
+    this.colors[index * 3 + 1] = color.g;
+    this.colors[index * 3 + 2] = color.b;
+  }
+
+  private disposeMesh(): void {
+    if (this.mesh) {
+      this.scene.remove(this.mesh);
+      this.mesh = null;
+    }
+    if (this.geometry) {
+      this.geometry.dispose();
+      this.geometry = null;
+    }
+    if (this.material) {
+      this.material.dispose();
+      this.material = null;
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import airportsDat from "../data/airports.dat?raw";
+import routesDat from "../data/routes.dat?raw";
+import { loadOpenFlightsDataset } from "../data/OpenFlights.ts";
+import type { OpenFlightsDataset } from "../data/OpenFlights.ts";
+
+/**
+ * A point on the globe in degrees
+ */
+export interface Geolocation {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * An airport from airports.dat
+ */
+export interface Airport extends Geolocation {
+  id: number | null;
+  name: string;
+  city: string | null;
+  country: string | null;
+  iata: string;
+  icao: string | null;
+  altitude: number | null;
+  timezone: string | null;
+}
+
+/**
+ * A route between two airports, as consumed by FlightUtils.createDataFlightConfig
+ */
+export interface Flight {
+  departure: Geolocation & Partial<Airport>;
+  arrival: Geolocation & Partial<Airport>;
+  airline?: string | null;
+  airlines?: string[];
+  codeshare?: boolean;
+  stops?: number;
+  equipment?: string[];
+  /** Route width relative to the Line Width setting */
+  width?: number;
+  [key: string]: any;
+}
+
+// Bundled OpenFlights sample; replace src/data/*.dat with a full export for more routes
+let bundledDataset: OpenFlightsDataset | null = null;
+
+/**
+ * Parse the bundled dataset; the result is kept for later calls
+ * @throws When the bundled files cannot be parsed
+ */
+export function loadBundledDataset(): OpenFlightsDataset {
+  if (!bundledDataset) {
+    bundledDataset = loadOpenFlightsDataset(airportsDat, routesDat);
+  }
+  return bundledDataset;
+}
@@ -0,0 +1,130 @@
+import type { UpdateRangeTarget } from "./Types.js";
+
+// Past this many separate runs, one span over all of them is cheaper than
+// a bufferSubData call per run
+const MAX_UPDATE_RANGES = 32;
+
+/**
+ * DirtyRanges - Collects the slots of a per-slot GPU buffer changed since
+ * the last upload. Marks are cheap and batch across a frame; flush() turns
+ * them into update ranges so only the changed slots are re-uploaded
+ * instead of a buffer sized for every flight.
+ */
+export class DirtyRanges {
+  private readonly slotCount: number;
+  private readonly dirty: Uint8Array;
+  private min = Infinity;
+  private max = -1;
+  private all = false;
+
+  constructor(slotCount: number) {
+    this.slotCount = Math.max(0, Math.floor(slotCount));
+    this.dirty = new Uint8Array(this.slotCount);
+  }
+
+  /**
+   * Mark one slot as changed
+   */
+  public mark(slot: number): void {
+    if (this.all || slot < 0 || slot >= this.slotCount) return;
+
+    this.dirty[slot] = 1;
+    if (slot < this.min) this.min = slot;
+    if (slot > this.max) this.max = slot;
+  }
+
+  /**
+   * Mark the whole buffer as changed; the next flush uploads all of it
+   */
+  public markAll(): void {
+    this.all = true;
+  }
+
+  public isDirty(): boolean {
+    return this.all || this.max >= 0;
+  }
+
+  /**
+   * Forget every mark without uploading
+   */
+  public clear(): void {
+    if (this.max >= 0) {
+      this.dirty.fill(0, this.min, this.max + 1);
+    }
+    this.min = Infinity;
+    this.max = -1;
+    this.all = false;
+  }
+
+  /**
+   * Queue the marked slots on a target and flag it for upload
+   * @param target - Attribute or data texture backed by the per-slot array,
+   *   or several sharing the same array (e.g. one per renderer)
+   * @param elementsPerSlot - Array elements each slot owns
+   * @param slotsPerRow - Slots per texture row; three.js only merges texture
+   *   ranges within a row, so runs are split at row boundaries
+   */
+  public flush(
+    target: UpdateRangeTarget | UpdateRangeTarget[] | null | undefined,
+    elementsPerSlot: number,
+    slotsPerRow = Infinity,
+  ): void {
+    if (!this.isDirty()) return;
+    const targets = (Array.isArray(target) ? target : [target]).filter(
+      (entry): entry is UpdateRangeTarget => Boolean(entry),
+    );
+    if (targets.length === 0) {
+      this.clear();
+      return;
+    }
+
+    if (this.all) {
+      // No ranges means three.js uploads the whole array
+      targets.forEach((entry) => {
+        entry.clearUpdateRanges();
+        entry.needsUpdate = true;
+      });
+      this.clear();
+      return;
+    }
+
+    const runs: number[] = [];
+    let runStart = -1;
+    for (let slot = this.min; slot <= this.max + 1; slot++) {
+      const isDirty = slot <= this.max && this.dirty[slot] === 1;
+      if (isDirty && runStart < 0) {
+        runStart = slot;
+      } else if (!isDirty && runStart >= 0) {
+        runs.push(runStart, slot);
+        runStart = -1;
+      }
+    }
+    if (runs.length / 2 > MAX_UPDATE_RANGES) {
+      runs.length = 0;
+      runs.push(this.min, this.max + 1);
+    }
+
+    for (let i = 0; i < runs.length; i += 2) {
+      let start = runs[i];
+      const end = runs[i + 1];
+      while (start < end) {
+        const rowEnd = Number.isFinite(slotsPerRow)
+          ? (Math.floor(start / slotsPerRow) + 1) * slotsPerRow
+          : end;
+        const stop = Math.min(end, rowEnd);
+        targets.forEach((entry) =>
+          entry.addUpdateRange(
+            start * elementsPerSlot,
+            (stop - start) * elementsPerSlot,
+          ),
+        );
+        start = stop;
+      }
+    }
+
+    targets.forEach((entry) => {
+      entry.needsUpdate = true;
+    });
+    this.clear();
+  }
+}
@@ -0,0 +1,132 @@
+import type {
+  LoadingStage,
+  LoadingStageId,
+  LoadingStageOptions,
+  LoadingState,
+} from "./Types.js";
+
+/**
+ * LoadingProgress - Aggregates the startup stages (textures, dataset,
+ * route and curve generation) into one weighted progress value.
+ * Every change is reported through onChange. Once all stages are done, or
+ * one has failed, later updates are ignored so the loading screen stays
+ * on its final state.
+ */
+export class LoadingProgress {
+  private readonly stages: LoadingStage[];
+  private readonly onChange: (state: LoadingState) => void;
+
+  constructor(
+    stages: LoadingStageOptions[],
+    onChange: (state: LoadingState) => void,
+  ) {
+    this.stages = stages.map((stage) => ({
+      ...stage,
+      progress: 0,
+      status: "pending",
+      error: null,
+    }));
+    this.onChange = onChange;
+  }
+
+  /**
+   * Report partial progress of a stage
+   * @param id - Stage
+   * @param fraction - Share of the stage done, 0 to 1
+   */
+  public update(id: LoadingStageId, fraction: number): void {
+    const stage = this.getPendingStage(id);
+    if (!stage) return;
+
+    const progress = Math.min(Math.max(fraction, 0), 1);
+    if (progress === stage.progress) return;
+    stage.progress = progress;
+    this.notify();
+  }
+
+  /**
+   * Mark a stage as done
+   */
+  public complete(id: LoadingStageId): void {
+    const stage = this.getPendingStage(id);
+    if (!stage) return;
+
+    stage.progress = 1;
+    stage.status = "done";
+    this.notify();
+  }
+
+  /**
+   * Mark a stage as failed
+   * @param id - Stage
+   * @param error - Thrown value or event; its message is shown to the user
+   * @returns False when loading was already over, so the caller should
+   *   surface the error some other way
+   */
+  public fail(id: LoadingStageId, error: unknown): boolean {
+    const stage = this.getPendingStage(id);
+    if (!stage) return false;
+
+    stage.status = "failed";
+    stage.error = LoadingProgress.describeError(error);
+    this.notify();
+    return true;
+  }
+
+  /**
+   * Loading is over: every stage is done or one has failed
+   */
+  public isFinished(): boolean {
+    const state = this.getState();
+    return state.complete || state.failed;
+  }
+
+  public getState(): LoadingState {
+    const totalWeight = this.stages.reduce(
+      (sum, stage) => sum + stage.weight,
+      0,
+    );
+    const doneWeight = this.stages.reduce(
+      (sum, stage) => sum + stage.weight * stage.progress,
+      0,
+    );
+    const failedStage = this.stages.find((stage) => stage.status === "failed");
+    const pendingStage = this.stages.find(
+      (stage) => stage.status === "pending",
+    );
+
+    return {
+      progress: totalWeight > 0 ? doneWeight / totalWeight : 1,
+      stage: failedStage ?? pendingStage ?? null,
+      complete: !failedStage && !pendingStage,
+      failed: Boolean(failedStage),
+    };
+  }
+
+  /**
+   * Readable message for a thrown value, rejected promise or error event
+   */
+  static describeError(error: unknown): string {
+    if (error instanceof Error) {
+      return error.message;
+    }
+    if (typeof error === "string" && error.length > 0) {
+      return error;
+    }
+    if (error && typeof error === "object" && "type" in error) {
+      return `Request failed (${String(error.type)})`;
+    }
+    return "Unknown error";
+  }
+
+  private getPendingStage(id: LoadingStageId): LoadingStage | null {
+    if (this.isFinished()) return null;
+
+    const stage = this.stages.find((entry) => entry.id === id);
+    return stage && stage.status === "pending" ? stage : null;
+  }
+
+  private notify(): void {
+    this.onChange(this.getState());
+  }
+}
@@ -0,0 +1,156 @@
+import type { SimulationClockOptions } from "./Types.js";
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+/**
+ * Rate multipliers offered by the time controls
+ */
+export const TIME_RATE_PRESETS: number[] = [1, 10, 60, 600, 3600, 10000];
+
+/**
+ * SimulationClock - Single source of simulated UTC time.
+ * Drives both the sun position and the plane animation, so scrubbing time
+ * moves the day/night terminator and the aircraft together.
+ * Time is kept as epoch milliseconds in double precision.
+ */
+export class SimulationClock {
+  static readonly MIN_RATE = 1;
+  static readonly MAX_RATE = 10000;
+
+  private time: number;
+  private rate: number;
+  private playing: boolean;
+  private followingRealTime: boolean;
+
+  constructor(options: SimulationClockOptions = {}) {
+    this.time = options.startTime ?? Date.now();
+    this.rate = SimulationClock.clampRate(options.rate ?? 1);
+    this.playing = options.playing !== false;
+    this.followingRealTime = false;
+
+    if (options.followRealTime) {
+      this.followRealTime();
+    }
+  }
+
+  /**
+   * Clamp a rate multiplier to the supported range
+   */
+  static clampRate(rate: number): number {
+    if (!Number.isFinite(rate)) {
+      return SimulationClock.MIN_RATE;
+    }
+    return Math.min(
+      Math.max(rate, SimulationClock.MIN_RATE),
+      SimulationClock.MAX_RATE,
+    );
+  }
+
+  /**
+   * Advance the clock - called once per frame
+   * @param deltaTime - Real seconds since the previous frame
+   * @returns Simulated time in epoch milliseconds
+   */
+  public tick(deltaTime: number): number {
+    if (this.followingRealTime) {
+      this.time = Date.now();
+    } else if (this.playing && deltaTime > 0) {
+      this.time += deltaTime * this.rate * 1000;
+    }
+    return this.time;
+  }
+
+  public play(): void {
+    this.playing = true;
+  }
+
+  public pause(): void {
+    this.playing = false;
+    this.followingRealTime = false;
+  }
+
+  public isPlaying(): boolean {
+    return this.playing;
+  }
+
+  /**
+   * Set how many simulated seconds pass per real second (1x to 10000x)
+   */
+  public setRate(rate: number): void {
+    this.rate = SimulationClock.clampRate(rate);
+    if (this.rate !== 1) {
+      this.followingRealTime = false;
+    }
+  }
+
+  public getRate(): number {
+    return this.rate;
+  }
+
+  /**
+   * Jump to a moment in time; stops following real time
+   * @param time - Epoch milliseconds or Date
+   */
+  public seek(time: number | Date): void {
+    const value = time instanceof Date ? time.getTime() : time;
+    if (!Number.isFinite(value)) {
+      console.warn("SimulationClock.seek ignored invalid time", time);
+      return;
+    }
+    this.time = value;
+    this.followingRealTime = false;
+  }
+
+  /**
+   * Jump to a UTC time of day on the current simulated date
+   * @param hours - Decimal UTC hours (0-24)
+   */
+  public setUtcHours(hours: number): void {
+    const startOfDay = this.time - this.getTimeOfDay();
+    this.seek(startOfDay + hours * MS_PER_HOUR);
+  }
+
+  /**
+   * Lock the clock to the wall clock: now, playing at 1x
+   */
+  public followRealTime(): void {
+    this.time = Date.now();
+    this.rate = 1;
+    this.playing = true;
+    this.followingRealTime = true;
+  }
+
+  /**
+   * Keep running from the current time without tracking the wall clock
+   */
+  public stopFollowingRealTime(): void {
+    this.followingRealTime = false;
+  }
+
+  public isFollowingRealTime(): boolean {
+    return this.followingRealTime;
+  }
+
+  /**
+   * Get simulated time in epoch milliseconds
+   */
+  public getTime(): number {
+    return this.time;
+  }
+
+  public getDate(): Date {
+    return new Date(this.time);
+  }
+
+  /**
+   * Get simulated UTC time of day in decimal hours (0-24)
+   */
+  public getUtcHours(): number {
+    return this.getTimeOfDay() / MS_PER_HOUR;
+  }
+
+  private getTimeOfDay(): number {
+    return ((this.time % MS_PER_DAY) + MS_PER_DAY) % MS_PER_DAY;
+  }
+}
@@ -0,0 +1,175 @@
+import type { SlotMove } from "./Types.js";
+
+/**
+ * SlotAllocator - Hands out indices into fixed-size GPU buffers.
+ * Freed slots go on a free-list and are reused lowest first, so live slots
+ * stay packed toward the start of the buffers. Draw ranges only need to
+ * cover [0, rangeEnd); compact() moves the last live slots into the holes
+ * below them so the range can shrink.
+ */
+export class SlotAllocator {
+  private readonly capacity: number;
+  private readonly used: Uint8Array;
+  // Min-heap of freed slots. Entries that were reused or fell beyond
+  // rangeEnd are stale and skipped when popped.
+  private freeSlots: number[] = [];
+  private rangeEnd = 0;
+  private usedCount = 0;
+
+  constructor(capacity: number) {
+    this.capacity = Math.max(0, Math.floor(capacity));
+    this.used = new Uint8Array(this.capacity);
+  }
+
+  /**
+   * Take the lowest free slot
+   * @returns Slot index, or -1 when every slot is in use
+   */
+  public allocate(): number {
+    let slot = this.popFreeSlot();
+    if (slot < 0) {
+      if (this.rangeEnd >= this.capacity) return -1;
+      slot = this.rangeEnd;
+      this.rangeEnd += 1;
+    }
+
+    this.used[slot] = 1;
+    this.usedCount += 1;
+    return slot;
+  }
+
+  /**
+   * Return a slot to the free-list
+   * @returns false when the slot was not allocated
+   */
+  public release(slot: number): boolean {
+    if (!this.isAllocated(slot)) return false;
+
+    this.used[slot] = 0;
+    this.usedCount -= 1;
+    if (slot === this.rangeEnd - 1) {
+      this.trimRangeEnd();
+    } else {
+      this.pushFreeSlot(slot);
+    }
+    return true;
+  }
+
+  public isAllocated(slot: number): boolean {
+    return slot >= 0 && slot < this.capacity && this.used[slot] === 1;
+  }
+
+  public getCapacity(): number {
+    return this.capacity;
+  }
+
+  public getUsedCount(): number {
+    return this.usedCount;
+  }
+
+  /**
+   * One past the highest allocated slot; draw ranges must cover this far
+   */
+  public getRangeEnd(): number {
+    return this.rangeEnd;
+  }
+
+  /**
+   * Free slots inside the draw range
+   */
+  public getHoleCount(): number {
+    return this.rangeEnd - this.usedCount;
+  }
+
+  /**
+   * Check if enough of the draw range is holes to be worth compacting
+   * @param maxHoleFraction - Fraction of the range allowed to be holes
+   * @param minHoles - Never compact for fewer holes than this
+   */
+  public needsCompaction(maxHoleFraction = 0.25, minHoles = 64): boolean {
+    const holes = this.getHoleCount();
+    return holes >= minHoles && holes > this.rangeEnd * maxHoleFraction;
+  }
+
+  /**
+   * Move the highest live slots into the lowest holes until the range has
+   * no holes left. Callers must move their per-slot data the same way.
+   * @returns Moves in the order they were made
+   */
+  public compact(): SlotMove[] {
+    const moves: SlotMove[] = [];
+
+    while (this.getHoleCount() > 0) {
+      const to = this.popFreeSlot();
+      if (to < 0) break;
+
+      // trimRangeEnd keeps the last slot of the range allocated
+      const from = this.rangeEnd - 1;
+      this.used[to] = 1;
+      this.used[from] = 0;
+      this.trimRangeEnd();
+      moves.push({ from, to });
+    }
+
+    return moves;
+  }
+
+  /**
+   * Free every slot
+   */
+  public reset(): void {
+    this.used.fill(0);
+    this.freeSlots = [];
+    this.rangeEnd = 0;
+    this.usedCount = 0;
+  }
+
+  private trimRangeEnd(): void {
+    while (this.rangeEnd > 0 && this.used[this.rangeEnd - 1] === 0) {
+      this.rangeEnd -= 1;
+    }
+  }
+
+  private popFreeSlot(): number {
+    const heap = this.freeSlots;
+    while (heap.length > 0) {
+      const slot = heap[0];
+      const last = heap.pop() as number;
+      if (heap.length > 0) {
+        heap[0] = last;
+        this.siftDown(0);
+      }
+      if (slot < this.rangeEnd && this.used[slot] === 0) {
+        return slot;
+      }
+    }
+    return -1;
+  }
+
+  private pushFreeSlot(slot: number): void {
+    const heap = this.freeSlots;
+    heap.push(slot);
+    let index = heap.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (heap[parent] <= heap[index]) break;
+      [heap[parent], heap[index]] = [heap[index], heap[parent]];
+      index = parent;
+    }
+  }
+
+  private siftDown(index: number): void {
+    const heap = this.freeSlots;
+    const length = heap.length;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < length && heap[left] < heap[smallest]) smallest = left;
+      if (right < length && heap[right] < heap[smallest]) smallest = right;
+      if (smallest === index) return;
+      [heap[smallest], heap[index]] = [heap[index], heap[smallest]];
+      index = smallest;
+    }
+  }
+}
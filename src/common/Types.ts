@@ -1,26 +1,35 @@
 import * as THREE from "three";
 import { GUIController } from "dat.gui";
+import type { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
+import type { SimulationClock } from "./SimulationClock.ts";
+import type { Flight as DatasetFlight } from "./Data.ts";
+import type { Flight } from "../flights/Flight.ts";
+import type { Curves } from "../curves/Curves.ts";
+import type { PlanesShader } from "../planes/PlanesShader.ts";
 
 // =============================================================================
 // FLIGHT DATA AND FLIGHT TYPES
 // =============================================================================
 
-export interface FlightData {
-  departure?: {
-    coordinates: [number, number];
-    [key: string]: any;
-  };
-  arrival?: {
-    coordinates: [number, number];
-    [key: string]: any;
-  };
-  [key: string]: any;
+/** A dataset route (see Flight in Data.ts) */
+export type FlightData = DatasetFlight;
+
+/**
+ * When a flight is in the air, in UTC epoch milliseconds.
+ * Daily schedules (times of day without a date) repeat every repeatPeriod ms.
+ */
+export interface FlightSchedule {
+  departureTime: number;
+  arrivalTime: number;
+  repeatPeriod: number;
 }
 
 export interface FlightConfig {
   controlPoints: THREE.Vector3[];
   segmentCount: number;
   curveColor?: any;
+  /** Route width relative to the Line Width setting (default 1) */
+  curveWidth?: number;
   paneCount?: number;
   paneSize: number;
   paneColor?: number;
@@ -32,6 +41,8 @@ export interface FlightConfig {
   paneTextureIndex?: number;
   planeInfo?: any;
   _randomSpeed?: number;
+  /** Curve buffers generated off the main thread, used once on creation */
+  curveVertices?: CurveVertexData | null;
 }
 
 export interface FlightParams {
@@ -53,7 +64,7 @@ export interface FlightParams {
 
 export interface FlightControlsManagerOptions {
   params: FlightParams;
-  maxFlights: number;
+  getMaxFlights: () => number;
   getFlights: () => any[];
   getPreGeneratedConfigs: () => FlightConfig[];
   getMergedCurves: () => any;
@@ -61,26 +72,163 @@ export interface FlightControlsManagerOptions {
   ensurePlaneDefaults: (config?: Partial<FlightConfig>) => FlightConfig;
   assignRandomPlane: (config?: Partial<FlightConfig>) => FlightConfig;
   resolvePaneColor: (config?: Partial<FlightConfig>) => number;
+  /** Curve color of a config under the Color By setting */
+  resolveCurveColor: (
+    config?: Partial<FlightConfig>,
+  ) => number | GradientColorConfig;
   resolveAnimationSpeed: (config?: Partial<FlightConfig>) => number;
-  createFlightFromConfig: (config: FlightConfig, index: number) => any;
+  /** Create a flight in a free slot (null when every slot is in use) */
+  addFlight: (config: FlightConfig) => any | null;
+  /** Remove a flight and free its slot */
+  removeFlight: (flight: any) => void;
   updatePathVisibility: () => void;
   updatePlaneVisibility: () => void;
+  updateFilter?: () => void;
   syncFlightCount?: (value: number) => void;
   syncReturnFlight?: (value: boolean) => void;
 }
 
+export type FilterBoundsTarget = "Departure" | "Arrival" | "Either" | "Both";
+
+/**
+ * Criteria a flight must meet to stay visible. Empty strings and zero
+ * limits mean "any".
+ */
+export interface FlightFilterQuery {
+  /** Comma-separated country names, matched case-insensitively */
+  departureCountry: string;
+  arrivalCountry: string;
+  /** Comma-separated airline codes, matched against airline and airlines */
+  airline: string;
+  /** Great-circle route length limits in kilometres (0 for no limit) */
+  minDistance: number;
+  maxDistance: number;
+  /** "south, west, north, east" in degrees; west > east crosses 180° */
+  bounds: string;
+  boundsTarget: FilterBoundsTarget;
+}
+
+export interface FilterBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+/**
+ * What a filter predicate sees of a flight
+ */
+export interface FilterRoute {
+  departure: { lat: number; lng: number; country?: string | null } | null;
+  arrival: { lat: number; lng: number; country?: string | null } | null;
+  airlines: string[];
+}
+
+export interface FlightFilterManagerOptions {
+  getFlights: () => any[];
+  /** Called after the filter showed or hid at least one flight */
+  onFilterChange?: (matchCount: number) => void;
+  /** boundsError explains why the bounds text is ignored (null when valid) */
+  syncFilter?: (
+    query: FlightFilterQuery,
+    matchCount: number,
+    boundsError: string | null,
+  ) => void;
+}
+
+/**
+ * What routes are colored by: one color, a gradient from the departure
+ * (the original look), route length, the value of a flightData field as a
+ * category, or a numeric flightData field through a palette
+ */
+export type RouteColorMode =
+  | "Solid"
+  | "Departure"
+  | "Distance"
+  | "Category"
+  | "Numeric";
+
+export type ColorPaletteName =
+  | "Viridis"
+  | "Magma"
+  | "Plasma"
+  | "Inferno"
+  | "Turbo";
+
+export interface RouteColorMapping {
+  mode: RouteColorMode;
+  /** flightData field for Category and Numeric; dots reach nested fields */
+  field: string;
+  /** Colormap for Distance and Numeric */
+  palette: ColorPaletteName;
+  /** Route color in Solid mode */
+  solidColor: number;
+}
+
+/**
+ * What a color mapping sees of a route; a FlightConfig fits
+ */
+export interface RouteColorInput {
+  flightData?: DatasetFlight | null;
+  controlPoints?: THREE.Vector3[];
+  /** The route's own color, kept in Departure mode when it has no departure */
+  curveColor?: number | THREE.Color | GradientColorConfig;
+}
+
+export interface RouteColorParams {
+  colorBy: string;
+  colorField: string;
+  colorPalette: string;
+  routeColor: number;
+  /** Tint planes with their route color instead of the Plane Color */
+  planesFollowColors: boolean;
+}
+
+export interface RouteColorManagerOptions {
+  params: RouteColorParams;
+  getFlights: () => Flight[];
+  getPreGeneratedConfigs: () => FlightConfig[];
+  /** Dataset entries; when set, scales are fitted to all of them */
+  getDataFlights: () => DatasetFlight[];
+  getMergedCurves: () => Curves | null;
+  /** Plane color of a config, mapped or not depending on planesFollowColors */
+  resolvePaneColor: (config?: Partial<FlightConfig>) => number;
+  parseColor?: (value: unknown, fallback: number) => number;
+  syncColorBy?: (value: string) => void;
+  syncColorField?: (value: string) => void;
+  syncColorPalette?: (value: string) => void;
+  syncRouteColor?: (value: number) => void;
+  syncPlanesFollowColors?: (value: boolean) => void;
+}
+
+/**
+ * A live slot relocated by SlotAllocator.compact()
+ */
+export interface SlotMove {
+  from: number;
+  to: number;
+}
+
 export interface FlightPathParams {
   dashSize: number;
   gapSize: number;
+  dashFlowSpeed: number;
+  lineWidth: number;
+  /** "Full" draws whole routes, "Flown" only the part behind each plane */
+  pathMode: string;
   hidePath: boolean;
 }
 
 export interface FlightPathManagerOptions {
   params: FlightPathParams;
   getMergedCurves: () => any;
-  getFlightCount: () => number;
+  /** One past the highest slot in use; curves are drawn up to here */
+  getSlotRangeEnd: () => number;
   syncDashSize?: (value: number) => void;
   syncGapSize?: (value: number) => void;
+  syncDashFlowSpeed?: (value: number) => void;
+  syncLineWidth?: (value: number) => void;
+  syncPathMode?: (value: string) => void;
   syncHidePath?: (value: boolean) => void;
 }
 
@@ -92,21 +240,25 @@ export interface MergedCurvesRenderer {
   setCurve(
     index: number,
     controlPoints: THREE.Vector3[],
-    color: number,
+    color: number | GradientColorConfig,
     flightData?: FlightData | null,
+    vertices?: CurveVertexData | null,
   ): void;
   setCurveColor(
     index: number,
-    color: number,
+    color: number | GradientColorConfig,
     flightData?: FlightData | null,
   ): void;
   hideCurve(index: number): void;
+  moveCurve?(from: number, to: number): void;
+  setCurveWidth?(index: number, width: number): void;
 }
 
 export interface MergedPanesRenderer {
   setPaneColor(index: number, color: number): void;
   setPaneSize(index: number, size: number): void;
   hidePane(index: number): void;
+  movePane?(from: number, to: number): void;
   setScale?(index: number, scale: number): void;
   setElevationOffset?(index: number, offset: number): void;
   updatePaneOnCurve?(
@@ -122,6 +274,7 @@ export interface MergedPanesRenderer {
   setAnimationSpeed?(index: number, speed: number): void;
   setTiltMode?(index: number, mode: string): void;
   setTextureIndex?(index: number, textureIndex: number): void;
+  setFlightSchedule?(index: number, schedule: FlightSchedule | null): void;
 }
 
 export interface PlanesShaderOptions {
@@ -129,6 +282,22 @@ export interface PlanesShaderOptions {
   baseSize?: number;
   returnMode?: boolean;
   baseElevation?: number;
+  /** Control points stored per pane; longer paths are resampled (default 16) */
+  maxControlPoints?: number;
+  /** Scale speeds by curve length so all planes share one ground speed */
+  groundSpeed?: boolean;
+  /** Curve length (world units) that cycles at exactly the requested speed */
+  groundSpeedReferenceLength?: number;
+  /** Initial simulation time in epoch milliseconds (default now) */
+  simulationTime?: number;
+  /** Earth radius for horizon culling; 0 disables it (default 0) */
+  horizonRadius?: number;
+  /** Fade width near the limb in world units; 0 is a hard cut (default 0) */
+  horizonFade?: number;
+  /** Trail behind each plane in world units; 0 hides trails (default 0) */
+  trailLength?: number;
+  /** Trail opacity right behind the plane, 0 to 1 (default 0.6) */
+  trailOpacity?: number;
 }
 
 export interface AtlasInfo {
@@ -149,13 +318,48 @@ export interface InternalAtlasInfo {
   scaleY: number;
 }
 
+/**
+ * Buffer attribute or data texture that can upload part of its array
+ */
+export interface UpdateRangeTarget {
+  needsUpdate: boolean;
+  /** @param start - First array element; @param count - Number of elements */
+  addUpdateRange(start: number, count: number): void;
+  clearUpdateRanges(): void;
+}
+
+export type PlaneAnimationAttribute = "animationParams" | "scheduleParams";
+
+/**
+ * Live plane animation state, shared so other renderers can follow each
+ * plane on the GPU. The uniforms are the planes' own uniform objects and the
+ * arrays are the planes' per-slot attribute arrays (4 floats per slot).
+ */
+export interface PlaneAnimationState {
+  time: { value: number };
+  returnMode: { value: number };
+  animationParams: Float32Array;
+  scheduleParams: Float32Array;
+}
+
+export interface PlaneAnimationSource {
+  getAnimationState(): PlaneAnimationState;
+  /** Upload the attribute's changed slots to target too, from now on */
+  addAnimationTarget(
+    name: PlaneAnimationAttribute,
+    target: UpdateRangeTarget,
+  ): void;
+  removeAnimationTarget(target: UpdateRangeTarget): void;
+}
+
 // =============================================================================
 // FLIGHT OPTIONS AND CONFIGURATION
 // =============================================================================
 
 export interface CurveOptions {
   segmentCount: number;
-  color: number;
+  color: number | GradientColorConfig;
+  width: number;
 }
 
 export interface PaneOptions {
@@ -175,7 +379,8 @@ export interface FlightOptions {
   paneIndex?: number;
   controlPoints?: THREE.Vector3[];
   segmentCount?: number;
-  curveColor?: number;
+  curveColor?: number | GradientColorConfig;
+  curveWidth?: number;
   paneCount?: number;
   paneSize?: number;
   paneColor?: number;
@@ -185,6 +390,7 @@ export interface FlightOptions {
   tiltMode?: TiltMode;
   returnFlight?: boolean;
   flightData?: FlightData | null;
+  curveVertices?: CurveVertexData | null;
 }
 
 export interface AnimationSpeedOptions {
@@ -214,6 +420,31 @@ export interface RandomCurveOptions {
   bounds?: Bounds;
 }
 
+/**
+ * Altitude along a route as a fraction of cruise altitude, for route
+ * progress t in [0, 1]. Named profiles:
+ * - "Arc": sine arc peaking mid-route
+ * - "Parabolic": 4t(1 - t)
+ * - "Cruise": smooth climb, level cruise, smooth descent
+ */
+export type AltitudeProfileName = "Arc" | "Parabolic" | "Cruise";
+
+export type AltitudeProfile = AltitudeProfileName | ((t: number) => number);
+
+export interface GreatCirclePathOptions {
+  radius: number;
+  takeoffOffset: number;
+  minCurveAltitude: number;
+  minCruiseAltitude: number;
+  maxCruiseAltitude: number;
+  /** Altitude profile (default "Arc") */
+  altitudeProfile?: AltitudeProfile;
+  /** Share of the route spent climbing/descending for "Cruise" (default 0.2) */
+  climbFraction?: number;
+  /** Number of points sampled between the takeoff and landing tangents (default 7) */
+  sampleCount?: number;
+}
+
 export interface ColorOptions {
   saturation?: number;
   lightness?: number;
@@ -281,12 +512,19 @@ export interface FlightControlsConfig {
 export interface FlightPathControlsConfig {
   dashRange?: RangeConfig;
   gapRange?: RangeConfig;
+  dashFlowRange?: RangeConfig;
+  lineWidthRange?: RangeConfig;
+  pathModeOptions?: string[];
+  colorByOptions?: string[];
+  colorPaletteOptions?: string[];
 }
 
 export interface PlaneControlsConfig {
   sizeRange?: RangeConfig;
   speedRange?: RangeConfig;
   elevationRange?: RangeConfig;
+  trailLengthRange?: RangeConfig;
+  trailOpacityRange?: RangeConfig;
   paneStyleOptions?: string[];
 }
 
@@ -294,21 +532,39 @@ export interface ControlsOptions {
   planeSize?: number;
   planeColor?: string | number | ColorObject;
   animationSpeed?: number;
+  groundSpeed?: boolean;
   elevationOffset?: number;
+  trailLength?: number;
+  trailOpacity?: number;
   paneStyle?: string;
   hidePlane?: boolean;
   dashSize?: number;
   gapSize?: number;
+  dashFlowSpeed?: number;
+  lineWidth?: number;
+  pathMode?: string;
+  colorBy?: string;
+  colorField?: string;
+  colorPalette?: string;
+  routeColor?: string | number | ColorObject;
+  planesFollowColors?: boolean;
   hidePath?: boolean;
   numFlights?: number;
   returnFlight?: boolean;
   planeSizeRange?: RangeConfig;
   speedRange?: RangeConfig;
   elevationRange?: RangeConfig;
+  trailLengthRange?: RangeConfig;
+  trailOpacityRange?: RangeConfig;
   paneStyleOptions?: string[];
   flightCountRange?: RangeConfig;
   dashRange?: RangeConfig;
   gapRange?: RangeConfig;
+  dashFlowRange?: RangeConfig;
+  lineWidthRange?: RangeConfig;
+  pathModeOptions?: string[];
+  colorByOptions?: string[];
+  colorPaletteOptions?: string[];
 }
 
 export interface GuiControls {
@@ -317,19 +573,43 @@ export interface GuiControls {
   realTimeSun: boolean;
   simulatedTime: number;
   timeDisplay: string;
+  clockPlaying: boolean;
+  timeRate: number;
   nightBrightness: number;
   dayBrightness: number;
   planeSize: number;
   planeColor: string;
   animationSpeed: number;
+  groundSpeed: boolean;
   elevationOffset: number;
+  trailLength: number;
+  trailOpacity: number;
   paneStyle: string;
   hidePlane: boolean;
   dashSize: number;
   gapSize: number;
+  dashFlowSpeed: number;
+  lineWidth: number;
+  pathMode: string;
+  colorBy: string;
+  colorField: string;
+  colorPalette: string;
+  routeColor: string;
+  planesFollowColors: boolean;
   hidePath: boolean;
   numFlights: number;
   returnFlight: boolean;
+  loadDataset: () => void;
+  exportGeoJSON: () => void;
+  filterDepartureCountry: string;
+  filterArrivalCountry: string;
+  filterAirline: string;
+  filterMinDistance: number;
+  filterMaxDistance: number;
+  filterBounds: string;
+  filterBoundsTarget: FilterBoundsTarget;
+  filterMatches: string;
+  clearFilter: () => void;
 }
 
 export interface ControlsCallbacks {
@@ -339,17 +619,34 @@ export interface ControlsCallbacks {
   onRealTimeSunChange?: (value: boolean) => void;
   onTimeDisplayChange?: (value: string) => void;
   onTimeSliderChange?: (value: number) => void;
+  onClockPlayingChange?: (value: boolean) => void;
+  onTimeRateChange?: (value: number) => void;
   onDayBrightnessChange?: (value: number) => void;
   onNightBrightnessChange?: (value: number) => void;
   onFlightCountChange?: (value: number) => void;
   onReturnFlightChange?: (value: boolean) => void;
+  onLoadDataset?: () => void;
+  onExportGeoJSON?: () => void;
+  onFilterChange?: (changes: Partial<FlightFilterQuery>) => void;
+  onClearFilter?: () => void;
   onDashSizeChange?: (value: number) => void;
   onGapSizeChange?: (value: number) => void;
+  onDashFlowSpeedChange?: (value: number) => void;
+  onLineWidthChange?: (value: number) => void;
+  onPathModeChange?: (value: string) => void;
+  onColorByChange?: (value: string) => void;
+  onColorFieldChange?: (value: string) => void;
+  onColorPaletteChange?: (value: string) => void;
+  onRouteColorChange?: (value: string) => void;
+  onPlanesFollowColorsChange?: (value: boolean) => void;
   onHidePathChange?: (value: boolean) => void;
   onPlaneSizeChange?: (value: number) => void;
   onPlaneColorChange?: (value: string) => void;
   onAnimationSpeedChange?: (value: number) => void;
+  onGroundSpeedChange?: (value: boolean) => void;
   onPlaneElevationChange?: (value: number) => void;
+  onTrailLengthChange?: (value: number) => void;
+  onTrailOpacityChange?: (value: number) => void;
   onPaneStyleChange?: (value: string) => void;
   onHidePlaneChange?: (value: boolean) => void;
 }
@@ -358,22 +655,59 @@ export type KnownControllerKey =
   | "realTimeSun"
   | "timeDisplay"
   | "timeSlider"
+  | "clockPlaying"
+  | "timeRate"
   | "numFlights"
   | "returnFlight"
+  | "loadDataset"
+  | "exportGeoJSON"
   | "dashSize"
   | "gapSize"
+  | "dashFlowSpeed"
+  | "lineWidth"
+  | "pathMode"
+  | "colorBy"
+  | "colorField"
+  | "colorPalette"
+  | "routeColor"
+  | "planesFollowColors"
   | "hidePath"
   | "planeSize"
   | "planeColor"
   | "animationSpeed"
+  | "groundSpeed"
   | "elevationOffset"
+  | "trailLength"
+  | "trailOpacity"
   | "paneStyle"
-  | "hidePlane";
+  | "hidePlane"
+  | "filterDepartureCountry"
+  | "filterArrivalCountry"
+  | "filterAirline"
+  | "filterMinDistance"
+  | "filterMaxDistance"
+  | "filterBounds"
+  | "filterBoundsTarget"
+  | "filterMatches";
 
 export type Controllers = Partial<Record<KnownControllerKey, GUIController>> & {
   [key: string]: GUIController | undefined;
 };
 
+export interface TimelineCallbacks {
+  onPlayingChange?: (playing: boolean) => void;
+  onRateChange?: (rate: number) => void;
+  /** Called with the new simulated time in epoch milliseconds */
+  onSeek?: (time: number) => void;
+}
+
+export interface TimelineState {
+  /** Simulated time in epoch milliseconds */
+  time: number;
+  playing: boolean;
+  rate: number;
+}
+
 // =============================================================================
 // CURVES TYPES
 // =============================================================================
@@ -382,7 +716,17 @@ export interface CurvesOptions {
   segmentCount?: number;
   dashSize?: number;
   gapSize?: number;
+  /** Dash movement in world units per second; 0 keeps dashes still */
+  dashFlowSpeed?: number;
+  /** Draw routes only up to their plane (see Curves.setProgressiveReveal) */
+  progressiveReveal?: boolean;
   scene?: THREE.Scene;
+  /** Route width in CSS pixels before the per-curve multiplier (default 1) */
+  lineWidth?: number;
+  /** Earth radius for horizon culling; 0 disables it (default 0) */
+  horizonRadius?: number;
+  /** Fade width near the limb in world units; 0 is a hard cut (default 0) */
+  horizonFade?: number;
 }
 
 export interface CurveData {
@@ -400,6 +744,23 @@ export interface CurveMetadata {
   [key: string]: any;
 }
 
+/**
+ * One curve's slice of the Curves buffers, filled by CurveGeometry
+ */
+export interface CurveVertexData {
+  positions: Float32Array; // xyz per vertex
+  lineDistances: Float32Array;
+  colors: Float32Array; // rgb per vertex, before highlight/dim
+  bounds: Float32Array; // Bounding sphere (x, y, z, radius)
+}
+
+export interface CurvePickOptions {
+  /** Largest distance in pixels between the pointer and a route (default 6) */
+  maxDistance?: number;
+  /** Radius of the globe; routes behind it cannot be picked (0 disables) */
+  occluderRadius?: number;
+}
+
 export interface GradientParams {
   hue: number;
   saturation: number;
@@ -407,6 +768,126 @@ export interface GradientParams {
   lightnessEnd: number;
 }
 
+// =============================================================================
+// FLIGHT BUILD WORKER TYPES
+// =============================================================================
+
+/**
+ * Work for FlightBuilder. Routes come either from dataset endpoints, whose
+ * great-circle control points are generated, or as ready control points.
+ */
+export interface FlightBuildRequest {
+  /** (departureLat, departureLng, arrivalLat, arrivalLng) per route */
+  endpoints: Float64Array | null;
+  /** Path shape for endpoint routes; only named altitude profiles */
+  path: Omit<GreatCirclePathOptions, "altitudeProfile"> & {
+    altitudeProfile?: AltitudeProfileName;
+  };
+  /** xyz per control point, used when there are no endpoints */
+  controlPoints: Float64Array | null;
+  /** Route i owns points [offsets[i], offsets[i + 1]) */
+  controlPointOffsets: Uint32Array | null;
+  /** Colors of the first curveColors.length routes, which get curve buffers */
+  curveColors: Array<number | GradientColorConfig>;
+  segmentsPerCurve: number;
+}
+
+/**
+ * Control points of every route, plus curve buffers for the first
+ * curveCount routes packed one after another
+ */
+export interface FlightBuildResult {
+  routeCount: number;
+  controlPoints: Float64Array;
+  controlPointOffsets: Uint32Array;
+  curveCount: number;
+  /** Colors the curves were built with, as requested */
+  curveColors: Array<number | GradientColorConfig>;
+  segmentsPerCurve: number;
+  positions: Float32Array;
+  lineDistances: Float32Array;
+  colors: Float32Array;
+  bounds: Float32Array;
+}
+
+export type FlightBuildStage = "routes" | "curves";
+
+export interface FlightBuildProgress {
+  stage: FlightBuildStage;
+  completed: number;
+  total: number;
+}
+
+export interface FlightWorkerRequest {
+  id: number;
+  request: FlightBuildRequest;
+}
+
+export type FlightWorkerResponse =
+  | { id: number; type: "progress"; progress: FlightBuildProgress }
+  | { id: number; type: "result"; result: FlightBuildResult }
+  | { id: number; type: "error"; message: string };
+
+// =============================================================================
+// AIRPORTS TYPES
+// =============================================================================
+
+export interface AirportsOptions {
+  /** Globe radius; markers sit just above it */
+  radius?: number;
+  /** Marker radius in pixels for airports with a single route */
+  minSize?: number;
+  /** Marker radius in pixels for the busiest airport */
+  maxSize?: number;
+  color?: number;
+  highlightColor?: number;
+}
+
+/**
+ * A route endpoint as read from flightData (airport record or coordinates)
+ */
+/** A route endpoint: the airport, or at least its location */
+export type AirportEndpoint = DatasetFlight["departure"];
+
+export interface AirportMarker {
+  /** IATA code, or rounded coordinates when the endpoint has none */
+  key: string;
+  lat: number;
+  lng: number;
+  iata: string | null;
+  name: string | null;
+  city: string | null;
+  country: string | null;
+  /** Number of routes departing from or arriving at this airport */
+  degree: number;
+  /** Curve indices of the connected routes */
+  curveIndices: number[];
+}
+
+// =============================================================================
+// GEOJSON TYPES
+// =============================================================================
+
+/** GeoJSON position in [longitude, latitude] order */
+export type GeoJSONPosition = [number, number] | number[];
+
+export interface GeoJSONGeometry {
+  type: string;
+  coordinates: any;
+}
+
+export interface GeoJSONFeature {
+  type: "Feature";
+  id?: string | number;
+  geometry: GeoJSONGeometry | null;
+  properties: Record<string, any> | null;
+}
+
+export interface GeoJSONFeatureCollection {
+  type: "FeatureCollection";
+  features: GeoJSONFeature[];
+}
+
 // =============================================================================
 // MAIN APPLICATION TYPES
 // =============================================================================
@@ -440,16 +921,110 @@ export interface GuiParams {
   planeSize: number;
   planeColor: number;
   animationSpeed: number;
+  groundSpeed: boolean;
   tiltMode: string;
   paneStyle: string;
   returnFlight: boolean;
   hidePlane: boolean;
+  trailLength: number;
+  trailOpacity: number;
   dashSize: number;
   gapSize: number;
+  dashFlowSpeed: number;
+  lineWidth: number;
+  pathMode: string;
+  colorBy: string;
+  colorField: string;
+  colorPalette: string;
+  routeColor: number;
+  planesFollowColors: boolean;
   hidePath: boolean;
   randomSpeed: boolean;
 }
 
+// =============================================================================
+// SIMULATION CLOCK TYPES
+// =============================================================================
+
+export interface SimulationClockOptions {
+  /** Initial time in epoch milliseconds (default now) */
+  startTime?: number;
+  /** Simulated seconds per real second, 1 to 10000 (default 1) */
+  rate?: number;
+  /** Start running (default true) */
+  playing?: boolean;
+  /** Track the wall clock until paused, seeked or sped up */
+  followRealTime?: boolean;
+}
+
+// =============================================================================
+// LOADING PROGRESS TYPES
+// =============================================================================
+
+export type LoadingStageId =
+  | "earthTexture"
+  | "planeAtlas"
+  | "dataset"
+  | "routes"
+  | "curves";
+
+export type LoadingStageStatus = "pending" | "done" | "failed";
+
+export interface LoadingStageOptions {
+  id: LoadingStageId;
+  /** Shown under the progress bar while the stage runs */
+  label: string;
+  /** Share of the progress bar relative to the other stages */
+  weight: number;
+}
+
+export interface LoadingStage extends LoadingStageOptions {
+  /** 0 to 1 */
+  progress: number;
+  status: LoadingStageStatus;
+  /** Failure message when status is "failed" */
+  error: string | null;
+}
+
+export interface LoadingState {
+  /** Weighted progress of all stages, 0 to 1 */
+  progress: number;
+  /** The failed stage, else the first unfinished one, else null */
+  stage: LoadingStage | null;
+  /** Every stage is done */
+  complete: boolean;
+  /** A stage failed; loading will not complete on its own */
+  failed: boolean;
+}
+
+// =============================================================================
+// PICKING TYPES
+// =============================================================================
+
+export interface PlanePickerOptions {
+  /** Radius of the globe; planes behind it cannot be picked (0 disables) */
+  occluderRadius?: number;
+}
+
+/**
+ * A route endpoint shown in the flight tooltip: an airport record from
+ * flightData, or bare coordinates for random flights
+ */
+export interface TooltipLocation {
+  lat: number;
+  lng: number;
+  [key: string]: any;
+}
+
+export interface FlightTooltipInfo {
+  /** Pane index of the picked plane */
+  index: number;
+  departure: TooltipLocation | null;
+  arrival: TooltipLocation | null;
+  /** Source record, null for randomly generated flights */
+  flightData: FlightData | null;
+}
+
 // =============================================================================
 // MANAGER OPTIONS
 // =============================================================================
@@ -460,7 +1035,7 @@ export interface EarthControlsOptions {
   getGuiControls: () => any;
   updateLighting: () => void;
   getEarth: () => any;
-  getCurrentUtcTimeHours: () => number;
+  simulationClock: SimulationClock;
   hoursToTimeString: (hours: number) => string;
 }
 
@@ -469,6 +1044,7 @@ export interface PlaneControlsManagerOptions {
   getFlights: () => any[];
   getPreGeneratedConfigs: () => Array<Record<string, any>>;
   getMergedPanes: () => any;
+  getSlotRangeEnd: () => number;
   loadSvgTexture: () => Promise<{ texture: any; info: any }>;
   initializeFlights: () => void;
   syncPlaneSize?: (value: number) => void;
@@ -477,6 +1053,24 @@ export interface PlaneControlsManagerOptions {
   parsePlaneColor?: (value: any, fallback: number) => number;
   fallbackPlaneColor: number;
   syncAnimationSpeed?: (value: number) => void;
+  syncGroundSpeed?: (value: boolean) => void;
   syncElevationOffset?: (value: number) => void;
+  syncTrailLength?: (value: number) => void;
+  syncTrailOpacity?: (value: number) => void;
   syncHidePlane?: (value: boolean) => void;
-}
\ No newline at end of file
+}
+
+/**
+ * Chase: trail behind the plane, looking along its route.
+ * Orbit: keep the plane centered and orbit it with the mouse.
+ */
+export type ChaseCameraMode = "Chase" | "Orbit";
+
+export interface ChaseCameraOptions {
+  camera: THREE.PerspectiveCamera;
+  controls: OrbitControls;
+  getMergedPanes: () => PlanesShader | null;
+  mode?: ChaseCameraMode;
+  /** Called once the camera has handed control back to OrbitControls */
+  onStop?: () => void;
+}
@@ -1,4 +1,5 @@
 import * as THREE from "three";
+import type { FlightSchedule } from "./Types.js";
 
 /**
  * Utility functions for mathematical and geometric operations
@@ -81,6 +82,39 @@ export function clamp(value: number, min: number, max: number): number {
   return Math.min(Math.max(value, min), max);
 }
 
+/**
+ * Spherically interpolate between two directions along their great circle.
+ * Antipodal directions have no unique great circle, so the one through the
+ * poles is used (or the equator when the endpoints are the poles).
+ * @param start - Start direction (any length)
+ * @param end - End direction (any length)
+ * @param t - Interpolation factor (0 = start, 1 = end)
+ * @returns Unit direction at t
+ */
+export function slerpDirections(
+  start: THREE.Vector3,
+  end: THREE.Vector3,
+  t: number,
+): THREE.Vector3 {
+  const from = start.clone().normalize();
+  const to = end.clone().normalize();
+  const angle = Math.acos(clamp(from.dot(to), -1, 1));
+  if (angle < 1e-6) {
+    return from;
+  }
+
+  const axis = new THREE.Vector3().crossVectors(from, to);
+  if (axis.lengthSq() < 1e-10) {
+    axis.crossVectors(from, new THREE.Vector3(0, 1, 0));
+    if (axis.lengthSq() < 1e-10) {
+      axis.set(1, 0, 0);
+    }
+  }
+  axis.normalize();
+
+  return from.applyAxisAngle(axis, angle * t).normalize();
+}
+
 /**
  * Interface for sun position coordinates
  */
@@ -90,67 +124,118 @@ export interface SunPosition {
 }
 
 /**
- * Calculate the sun's position based on current UTC time or simulated time
- * Returns the subsolar point (latitude/longitude where sun is directly overhead)
- * @param simulatedTimeHours - Optional simulated time in UTC hours (0-24)
+ * Calculate the subsolar point (latitude/longitude where the sun is directly
+ * overhead) for a UTC moment, using the NOAA solar position algorithm:
+ * declination from the sun's apparent longitude and the equation of time
+ * for the longitude. Accurate to a small fraction of a degree for
+ * 1901-2099.
+ * See https://gml.noaa.gov/grad/solcalc/calcdetails.html
+ * @param date - UTC moment
  * @returns Object with lat, lng properties
  */
-export function getSunPosition(
-  simulatedTimeHours: number | null = null,
-): SunPosition {
-  const now = new Date();
-  const utc = now.getTime() + now.getTimezoneOffset() * 60000;
-  const utcDate = new Date(utc);
-
-  // Calculate day of year (1-365/366)
-  const start = new Date(utcDate.getFullYear(), 0, 1); // Start from Jan 1st
-  const diff = utcDate.getTime() - start.getTime();
-  const dayOfYear = Math.floor(diff / (1000 * 60 * 60 * 24)) + 1;
-
-  // Solar declination (latitude where sun is directly overhead)
-  // More accurate formula using day of year
-  // October 1st is around day 274, which should give ~-3.25° declination
-  const declination =
-    23.45 * Math.sin(degreesToRadians((360 / 365.25) * (dayOfYear - 81)));
-
-  // Use simulated time if provided, otherwise use current time
-  let timeDecimal: number;
-  if (simulatedTimeHours !== null) {
-    timeDecimal = simulatedTimeHours;
-  } else {
-    const hours = utcDate.getUTCHours();
-    const minutes = utcDate.getUTCMinutes();
-    const seconds = utcDate.getUTCSeconds();
-    timeDecimal = hours + minutes / 60 + seconds / 3600;
-  }
-
-  // Calculate longitude where sun is at zenith
-  // At 02:34:43 UTC (2.578 hours), sun should be at 138.75° East
-  // Solar longitude = (12 - UTC_time) * 15
-  const longitude = (12 - timeDecimal) * 15;
+export function getSubsolarPoint(date: Date): SunPosition {
+  const julianDay = date.getTime() / 86400000 + 2440587.5;
+  const t = (julianDay - 2451545) / 36525; // Julian centuries since J2000.0
+
+  const meanLongitude =
+    (((280.46646 + t * (36000.76983 + t * 0.0003032)) % 360) + 360) % 360;
+  const meanAnomaly = 357.52911 + t * (35999.05029 - 0.0001537 * t);
+  const eccentricity = 0.016708634 - t * (0.000042037 + 0.0000001267 * t);
+  const anomalyRad = degreesToRadians(meanAnomaly);
+
+  const equationOfCenter =
+    Math.sin(anomalyRad) * (1.914602 - t * (0.004817 + 0.000014 * t)) +
+    Math.sin(2 * anomalyRad) * (0.019993 - 0.000101 * t) +
+    Math.sin(3 * anomalyRad) * 0.000289;
+  const trueLongitude = meanLongitude + equationOfCenter;
+  const omega = degreesToRadians(125.04 - 1934.136 * t);
+  const apparentLongitude = trueLongitude - 0.00569 - 0.00478 * Math.sin(omega);
+
+  const meanObliquity =
+    23 +
+    (26 + (21.448 - t * (46.815 + t * (0.00059 - t * 0.001813))) / 60) / 60;
+  const obliquity = degreesToRadians(meanObliquity + 0.00256 * Math.cos(omega));
+
+  const declination = radiansToDegrees(
+    Math.asin(
+      Math.sin(obliquity) * Math.sin(degreesToRadians(apparentLongitude)),
+    ),
+  );
 
-  // Normalize to -180 to +180 range
-  let normalizedLongitude = longitude;
-  while (normalizedLongitude > 180) normalizedLongitude -= 360;
-  while (normalizedLongitude < -180) normalizedLongitude += 360;
+  // Equation of time in minutes: apparent minus mean solar time
+  const y = Math.tan(obliquity / 2) ** 2;
+  const longitudeRad = degreesToRadians(meanLongitude);
+  const equationOfTime =
+    4 *
+    radiansToDegrees(
+      y * Math.sin(2 * longitudeRad) -
+        2 * eccentricity * Math.sin(anomalyRad) +
+        4 *
+          eccentricity *
+          y *
+          Math.sin(anomalyRad) *
+          Math.cos(2 * longitudeRad) -
+        0.5 * y * y * Math.sin(4 * longitudeRad) -
+        1.25 * eccentricity * eccentricity * Math.sin(2 * anomalyRad),
+    );
+
+  // The sun is overhead where apparent solar time is noon
+  const utcMinutes =
+    (((date.getTime() % 86400000) + 86400000) % 86400000) / 60000;
+  let longitude = (720 - utcMinutes - equationOfTime) / 4;
+  while (longitude > 180) longitude -= 360;
+  while (longitude <= -180) longitude += 360;
 
   return {
     lat: declination,
-    lng: normalizedLongitude,
+    lng: longitude,
   };
 }
 
+/**
+ * Resolve a sun time argument to a full UTC moment
+ * @param time - Date, UTC hours (0-24) on the current UTC date, or null for now
+ * @returns UTC moment
+ */
+function resolveSunDate(time: Date | number | null): Date {
+  if (time instanceof Date) {
+    return time;
+  }
+  const now = new Date();
+  if (time === null || !Number.isFinite(time)) {
+    return now;
+  }
+  const midnight = Date.UTC(
+    now.getUTCFullYear(),
+    now.getUTCMonth(),
+    now.getUTCDate(),
+  );
+  return new Date(midnight + time * 3600000);
+}
+
+/**
+ * Calculate the sun's position based on current UTC time or simulated time
+ * Returns the subsolar point (latitude/longitude where sun is directly overhead)
+ * @param time - Simulated UTC moment, or UTC hours (0-24) on the current date;
+ *   defaults to now
+ * @returns Object with lat, lng properties
+ */
+export function getSunPosition(time: Date | number | null = null): SunPosition {
+  return getSubsolarPoint(resolveSunDate(time));
+}
+
 /**
  * Convert sun position to 3D vector for directional light
  * @param radius - Earth radius
- * @param simulatedTimeHours - Optional simulated time in UTC hours (0-24)
+ * @param time - Simulated UTC moment, or UTC hours (0-24) on the current date;
+ *   defaults to now
  * @returns Sun position vector
  */
 export function getSunVector3(
   radius: number = 3000,
-  simulatedTimeHours: number | null = null,
+  time: Date | number | null = null,
 ): THREE.Vector3 {
-  const sunPos = getSunPosition(simulatedTimeHours);
+  const sunPos = getSunPosition(time);
   const sunVector = latLngToVector3(sunPos.lat, sunPos.lng, radius * 3); // Place sun far from Earth
   return sunVector;
 }
@@ -209,6 +294,97 @@ export function timeStringToHours(timeString: string): number {
   return hours + minutes / 60 + seconds / 3600;
 }
 
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const TIME_OF_DAY_PATTERN = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/;
+
+/**
+ * Parse a flight timestamp
+ * Numbers are epoch milliseconds (or seconds when below 1e11), strings are
+ * ISO dates or a bare UTC time of day ("HH:MM" / "HH:MM:SS", with "24:00"
+ * accepted as the end of the day)
+ * @param value - Raw timestamp value
+ * @returns Epoch milliseconds (ms since midnight for times of day) or null
+ */
+function parseFlightTime(
+  value: any,
+): { time: number; timeOfDay: boolean } | null {
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) return null;
+    return { time: value < 1e11 ? value * 1000 : value, timeOfDay: false };
+  }
+  if (value instanceof Date) {
+    const time = value.getTime();
+    return Number.isFinite(time) ? { time, timeOfDay: false } : null;
+  }
+  if (typeof value !== "string" || !value.trim()) {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  const timeOfDay = TIME_OF_DAY_PATTERN.exec(trimmed);
+  if (timeOfDay) {
+    const [hour, minute, second] = timeOfDay
+      .slice(1)
+      .map((part) => Number(part ?? 0));
+    if (minute > 59 || second > 59) return null;
+    // Past 23:59 only "24:00" (end of day) is a valid time
+    if (hour > 23 && (hour !== 24 || minute > 0 || second > 0)) return null;
+    const hours = timeStringToHours(trimmed);
+    return { time: hours * 60 * 60 * 1000, timeOfDay: true };
+  }
+
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) {
+    return parseFlightTime(Number(trimmed));
+  }
+
+  const time = Date.parse(trimmed);
+  return Number.isFinite(time) ? { time, timeOfDay: false } : null;
+}
+
+/**
+ * Read the departure/arrival timestamps of a flight
+ * Looks at `departureTime`/`arrivalTime` (or `departure_time`/`arrival_time`
+ * as produced by CSV headers). Two times of day make a daily schedule; an
+ * arrival earlier than the departure lands the next day.
+ * @param flightData - Flight data entry
+ * @returns Schedule or null if the flight has no usable timestamps
+ */
+export function resolveFlightSchedule(flightData: any): FlightSchedule | null {
+  if (!flightData || typeof flightData !== "object") {
+    return null;
+  }
+
+  const departure = parseFlightTime(
+    flightData.departureTime ?? flightData.departure_time,
+  );
+  const arrival = parseFlightTime(
+    flightData.arrivalTime ?? flightData.arrival_time,
+  );
+  if (!departure || !arrival || departure.timeOfDay !== arrival.timeOfDay) {
+    return null;
+  }
+
+  if (departure.timeOfDay) {
+    const arrivalTime =
+      arrival.time > departure.time ? arrival.time : arrival.time + MS_PER_DAY;
+    return {
+      departureTime: departure.time,
+      arrivalTime,
+      repeatPeriod: MS_PER_DAY,
+    };
+  }
+
+  if (arrival.time <= departure.time) {
+    return null;
+  }
+
+  return {
+    departureTime: departure.time,
+    arrivalTime: arrival.time,
+    repeatPeriod: 0,
+  };
+}
+
 /**
  * Animate camera from current position to target position with smooth easing
  * @param camera - The camera to animate
@@ -289,7 +465,9 @@ export function vector3ToLatLng(
 
   // Convert to lat/lng degrees
   const lat = 90 - (phi * 180) / Math.PI; // 0 at north pole, 180 at south pole -> -90 to +90
-  const lng = (((theta * 180) / Math.PI + 180) % 360) - 180; // -180 to +180
+  // Invert theta = 180 - lng from latLngToVector3, wrapped to -180 to +180
+  const lng =
+    THREE.MathUtils.euclideanModulo(360 - (theta * 180) / Math.PI, 360) - 180;
 
   return { lat, lng };
 }
@@ -464,7 +642,11 @@ export function updateSunPosition(
 
   const dayNightActive = guiControls ? guiControls.dayNightEffect : true;
   if (dayNightActive) {
-    const sunVector = getSunVector3(radius, simulatedTime);
+    // Use the full simulated date so the declination follows the season
+    const sunTime: Date | number = earthControlsManager
+      ? earthControlsManager.getSimulatedDate()
+      : simulatedTime;
+    const sunVector = getSunVector3(radius, sunTime);
     directionalLight.position.copy(sunVector);
   }
 
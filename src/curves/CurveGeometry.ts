@@ -0,0 +1,183 @@
+import * as THREE from "three";
+import type { GradientColorConfig, GradientParams } from "../common/Types.js";
+
+/**
+ * CurveGeometry - Fills the per-curve vertex buffers used by Curves.
+ * Everything here works on plain typed arrays without a scene, so the same
+ * code runs in Curves.setCurve and in the flight build worker.
+ * A curve of N segments is N line segments of 2 vertices each.
+ */
+export class CurveGeometry {
+  /**
+   * Sample a CatmullRom curve and write its line segment vertices
+   * @param controlPoints - Curve control points (at least 2)
+   * @param segments - Line segments per curve
+   * @param positions - xyz per vertex
+   * @param lineDistances - Distance along the curve per vertex
+   * @param vertexOffset - First vertex of the curve in both arrays
+   * @returns The sampled points (segments + 1)
+   */
+  static writeVertices(
+    controlPoints: THREE.Vector3[],
+    segments: number,
+    positions: Float32Array,
+    lineDistances: Float32Array,
+    vertexOffset: number,
+  ): THREE.Vector3[] {
+    const curve = new THREE.CatmullRomCurve3(controlPoints);
+    const points = curve.getPoints(segments);
+
+    let distance = 0;
+    for (let segmentIndex = 0; segmentIndex < segments; segmentIndex++) {
+      const startPoint = points[segmentIndex];
+      const endPoint = points[segmentIndex + 1];
+      const vertexIndex = vertexOffset + segmentIndex * 2;
+      const bufferIndex = vertexIndex * 3;
+
+      positions[bufferIndex] = startPoint.x;
+      positions[bufferIndex + 1] = startPoint.y;
+      positions[bufferIndex + 2] = startPoint.z;
+
+      positions[bufferIndex + 3] = endPoint.x;
+      positions[bufferIndex + 4] = endPoint.y;
+      positions[bufferIndex + 5] = endPoint.z;
+
+      lineDistances[vertexIndex] = distance;
+      distance += startPoint.distanceTo(endPoint);
+      lineDistances[vertexIndex + 1] = distance;
+    }
+
+    return points;
+  }
+
+  /**
+   * Write a curve's colors: a departure gradient for a gradient
+   * configuration, else a solid color. RouteColors decides which one a
+   * route gets.
+   * @param color - Solid color or gradient configuration
+   * @param segments - Line segments per curve
+   * @param colors - rgb per vertex
+   * @param vertexOffset - First vertex of the curve
+   */
+  static writeColors(
+    color: number | THREE.Color | GradientColorConfig,
+    segments: number,
+    colors: Float32Array,
+    vertexOffset: number,
+  ): void {
+    const gradientParams = this.computeGradientParams(color);
+    const startColor = new THREE.Color();
+    const endColor = new THREE.Color();
+    const solidColor = gradientParams ? null : this.resolveSolidColor(color);
+
+    for (let segmentIndex = 0; segmentIndex < segments; segmentIndex++) {
+      const bufferIndex = (vertexOffset + segmentIndex * 2) * 3;
+
+      if (gradientParams) {
+        this.getColorForProgress(
+          gradientParams,
+          segmentIndex / segments,
+          startColor,
+        );
+        this.getColorForProgress(
+          gradientParams,
+          (segmentIndex + 1) / segments,
+          endColor,
+        );
+      } else if (solidColor) {
+        startColor.copy(solidColor);
+        endColor.copy(solidColor);
+      }
+
+      colors[bufferIndex] = startColor.r;
+      colors[bufferIndex + 1] = startColor.g;
+      colors[bufferIndex + 2] = startColor.b;
+
+      colors[bufferIndex + 3] = endColor.r;
+      colors[bufferIndex + 4] = endColor.g;
+      colors[bufferIndex + 5] = endColor.b;
+    }
+  }
+
+  /**
+   * Write the bounding sphere of sampled curve points as (x, y, z, radius)
+   */
+  static writeBounds(
+    points: THREE.Vector3[],
+    bounds: Float32Array,
+    offset: number,
+  ): void {
+    const sphere = new THREE.Sphere().setFromPoints(points);
+    bounds[offset] = sphere.center.x;
+    bounds[offset + 1] = sphere.center.y;
+    bounds[offset + 2] = sphere.center.z;
+    bounds[offset + 3] = sphere.radius;
+  }
+
+  /**
+   * Hue from the departure longitude, saturation from its latitude
+   * @returns Gradient parameters, or null for a solid color
+   */
+  static computeGradientParams(
+    color: number | THREE.Color | GradientColorConfig,
+  ): GradientParams | null {
+    if (
+      !color ||
+      typeof color !== "object" ||
+      !("type" in color) ||
+      color.type !== "gradient"
+    ) {
+      return null;
+    }
+
+    const lng = color.departureLng ?? 0;
+    const lat = color.departureLat ?? 0;
+    const hue = ((lng + 180) % 360) / 360;
+    const latFactor = Math.min(Math.abs(lat) / 90, 1);
+    const saturation = THREE.MathUtils.clamp(0.6 + 0.3 * (1 - latFactor), 0, 1);
+
+    return {
+      hue,
+      saturation,
+      lightnessStart: 0.35,
+      lightnessEnd: 0.75,
+    };
+  }
+
+  static resolveSolidColor(
+    color: number | THREE.Color | GradientColorConfig,
+  ): THREE.Color {
+    if (color instanceof THREE.Color) {
+      return color;
+    }
+    if (typeof color === "number") {
+      return new THREE.Color(color);
+    }
+    if (
+      color &&
+      typeof color === "object" &&
+      "isColor" in color &&
+      color.isColor === true
+    ) {
+      return color as THREE.Color;
+    }
+    return new THREE.Color(0x4488ff);
+  }
+
+  static getColorForProgress(
+    params: GradientParams,
+    progress: number,
+    targetColor?: THREE.Color,
+  ): THREE.Color {
+    const target = targetColor || new THREE.Color();
+    const clampedProgress = THREE.MathUtils.clamp(progress, 0, 1);
+    const lightness = THREE.MathUtils.clamp(
+      params.lightnessStart +
+        (params.lightnessEnd - params.lightnessStart) * clampedProgress,
+      0,
+      1,
+    );
+    target.setHSL(params.hue, params.saturation, lightness);
+    return target;
+  }
+}
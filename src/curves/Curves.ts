@@ -1,16 +1,51 @@
 import * as THREE from "three";
+import { DirtyRanges } from "../common/DirtyRanges.ts";
+import { CurveGeometry } from "./CurveGeometry.ts";
+import vertexShader from "../shaders/curves.vert?raw";
+import fragmentShader from "../shaders/curves.frag?raw";
+import horizonShader from "../shaders/horizon.glsl?raw";
+import planeProgressShader from "../shaders/plane_progress.glsl?raw";
 import type {
   CurvesOptions,
   CurveData,
+  CurveVertexData,
   GradientColorConfig,
   CurveMetadata,
-  GradientParams,
+  CurvePickOptions,
+  PlaneAnimationAttribute,
+  PlaneAnimationSource,
 } from "../common/Types.js";
 
+// Route emphasis applied on top of the base (gradient) colors
+const EMPHASIS_NORMAL = 0;
+const EMPHASIS_HIGHLIGHT = 1;
+const EMPHASIS_DIM = 2;
+// Highlighted routes blend this far toward white; dimmed routes keep this much
+const HIGHLIGHT_WHITE_MIX = 0.45;
+const DIM_FACTOR = 0.2;
+
+// Per-slot plane animation arrays the shader reads (4 floats per slot)
+const ANIMATION_ATTRIBUTES: PlaneAnimationAttribute[] = [
+  "animationParams",
+  "scheduleParams",
+];
+
+// horizonOcclusion() and planeProgress() are shared with the PlanesShader panes
+const curveVertexShader = [
+  horizonShader,
+  planeProgressShader,
+  vertexShader,
+].join("\n");
+
 /**
  * Curves - Ultra-high performance curve renderer
  * Merges all curves into a single mesh with per-vertex colors for maximum performance.
  * This approach renders all curves in a SINGLE draw call regardless of curve count.
+ * Each line segment is an instance of a screen-space quad, so routes can be
+ * wider than 1px, with anti-aliased edges, round joins and a width per curve.
+ * Dashes flow along each route in the direction its plane is flying, and
+ * routes can be revealed progressively up to their plane; the shader
+ * follows the planes' own clock and animation state (see setAnimationSource).
  */
 export class Curves {
   private readonly scene: THREE.Scene;
@@ -20,22 +55,50 @@ export class Curves {
   private readonly verticesPerCurve: number;
   private dashSize: number;
   private gapSize: number;
-
-  // Buffer geometry for all curves
-  private geometry: THREE.BufferGeometry | null = null;
-  private material: THREE.Material | null = null;
-  private mesh: THREE.LineSegments | null = null;
-
-  // Pre-allocated buffers
+  private dashFlowSpeed: number; // World units per second
+  private dashOffset: number = 0; // Kept within one dash period
+  private progressiveReveal: boolean;
+  private lineWidth: number; // CSS pixels
+  private horizonRadius: number;
+  private horizonFade: number;
+
+  // Instanced quad geometry: one instance per line segment
+  private geometry: THREE.InstancedBufferGeometry | null = null;
+  private material: THREE.ShaderMaterial | null = null;
+  private mesh: THREE.Mesh | null = null;
+
+  // Pre-allocated buffers, two vertices per segment. The shader reads each
+  // segment's start and end as one instance through interleaved views.
   private positions: Float32Array | null = null;
   private colors: Float32Array | null = null;
   private lineDistances: Float32Array | null = null;
+  private positionBuffer: THREE.InstancedInterleavedBuffer | null = null;
+  private colorBuffer: THREE.InstancedInterleavedBuffer | null = null;
+  private lineDistanceBuffer: THREE.InstancedInterleavedBuffer | null = null;
+
+  // Width multiplier per curve, applied to lineWidth
+  private curveWidths: Float32Array | null = null;
+  // Line distance at the end of each curve, to turn distances into progress
+  private curveLengths: Float32Array | null = null;
+
+  // Planes whose animation the dash flow follows; slots match curve indices
+  private animationSource: PlaneAnimationSource | null = null;
+
+  // Colors before highlight/dim, so emphasis never loses the gradient
+  private baseColors: Float32Array | null = null;
+  private curveEmphasis: Uint8Array | null = null;
+  private highlightedCurves: Set<number> = new Set();
+
+  // Bounding sphere per curve (x, y, z, radius) for fast picking rejection
+  private curveBounds: Float32Array | null = null;
 
-  // Tracking
+  // Tracking: curves changed since the last upload, per attribute
   private currentCurveCount: number = 0;
-  private needsPositionUpdate: boolean = false;
-  private needsColorUpdate: boolean = false;
-  private needsLineDistanceUpdate: boolean = false;
+  private readonly dirtyPositions: DirtyRanges;
+  private readonly dirtyColors: DirtyRanges;
+  private readonly dirtyLineDistances: DirtyRanges;
+  private readonly dirtyWidths: DirtyRanges;
+  private readonly dirtyLengths: DirtyRanges;
 
   // Store curve data for each slot
   private curveData: CurveData[] = [];
@@ -47,6 +110,16 @@ export class Curves {
     this.verticesPerCurve = this.segmentsPerCurve * this.verticesPerSegment;
     this.dashSize = options.dashSize !== undefined ? options.dashSize : 0;
     this.gapSize = options.gapSize !== undefined ? options.gapSize : 0;
+    this.dashFlowSpeed = options.dashFlowSpeed ?? 0;
+    this.progressiveReveal = !!options.progressiveReveal;
+    this.lineWidth = Math.max(0, options.lineWidth ?? 1);
+    this.horizonRadius = Math.max(0, options.horizonRadius ?? 0);
+    this.horizonFade = Math.max(0, options.horizonFade ?? 0);
+    this.dirtyPositions = new DirtyRanges(this.maxCurves);
+    this.dirtyColors = new DirtyRanges(this.maxCurves);
+    this.dirtyLineDistances = new DirtyRanges(this.maxCurves);
+    this.dirtyWidths = new DirtyRanges(this.maxCurves);
+    this.dirtyLengths = new DirtyRanges(this.maxCurves);
 
     this.initialize();
   }
@@ -62,35 +135,108 @@ export class Curves {
     this.positions = new Float32Array(totalVertices * 3);
     this.colors = new Float32Array(totalVertices * 3);
     this.lineDistances = new Float32Array(totalVertices);
+    this.baseColors = new Float32Array(totalVertices * 3);
+    this.curveEmphasis = new Uint8Array(this.maxCurves);
+    this.curveBounds = new Float32Array(this.maxCurves * 4);
+    this.curveWidths = new Float32Array(this.maxCurves).fill(1);
+    this.curveLengths = new Float32Array(this.maxCurves);
 
     // Initialize with zeros (invisible)
     this.positions.fill(0);
     this.colors.fill(0);
     this.lineDistances.fill(0);
 
-    // Create buffer geometry
-    this.geometry = new THREE.BufferGeometry();
+    // Base quad: x is the side of the line, y the end of the segment
+    this.geometry = new THREE.InstancedBufferGeometry();
     this.geometry.setAttribute(
       "position",
-      new THREE.BufferAttribute(this.positions, 3),
+      new THREE.Float32BufferAttribute(
+        [-1, 0, 0, 1, 0, 0, -1, 1, 0, 1, 1, 0],
+        3,
+      ),
+    );
+    this.geometry.setIndex([0, 1, 2, 2, 1, 3]);
+
+    // A segment's two vertices are adjacent, so each buffer is read as
+    // (start, end) pairs with one pair per instance
+    this.positionBuffer = new THREE.InstancedInterleavedBuffer(
+      this.positions,
+      6,
+    );
+    this.colorBuffer = new THREE.InstancedInterleavedBuffer(this.colors, 6);
+    this.lineDistanceBuffer = new THREE.InstancedInterleavedBuffer(
+      this.lineDistances,
+      2,
     );
     this.geometry.setAttribute(
-      "color",
-      new THREE.BufferAttribute(this.colors, 3),
+      "instanceStart",
+      new THREE.InterleavedBufferAttribute(this.positionBuffer, 3, 0),
     );
     this.geometry.setAttribute(
-      "lineDistance",
-      new THREE.BufferAttribute(this.lineDistances, 1),
+      "instanceEnd",
+      new THREE.InterleavedBufferAttribute(this.positionBuffer, 3, 3),
+    );
+    this.geometry.setAttribute(
+      "instanceColorStart",
+      new THREE.InterleavedBufferAttribute(this.colorBuffer, 3, 0),
+    );
+    this.geometry.setAttribute(
+      "instanceColorEnd",
+      new THREE.InterleavedBufferAttribute(this.colorBuffer, 3, 3),
+    );
+    this.geometry.setAttribute(
+      "instanceDistanceStart",
+      new THREE.InterleavedBufferAttribute(this.lineDistanceBuffer, 1, 0),
+    );
+    this.geometry.setAttribute(
+      "instanceDistanceEnd",
+      new THREE.InterleavedBufferAttribute(this.lineDistanceBuffer, 1, 1),
+    );
+    // One width per curve: the attribute advances once every curve's worth
+    // of segment instances
+    this.geometry.setAttribute(
+      "curveWidth",
+      new THREE.InstancedBufferAttribute(
+        this.curveWidths,
+        1,
+        false,
+        this.segmentsPerCurve,
+      ),
+    );
+    this.geometry.setAttribute(
+      "curveLength",
+      new THREE.InstancedBufferAttribute(
+        this.curveLengths,
+        1,
+        false,
+        this.segmentsPerCurve,
+      ),
     );
 
-    // Create material with vertex colors
+    // Until planes are linked, every curve flows from departure to arrival
+    ANIMATION_ATTRIBUTES.forEach((name) => {
+      this.geometry.setAttribute(
+        name,
+        new THREE.InstancedBufferAttribute(
+          new Float32Array(this.maxCurves * 4),
+          4,
+          false,
+          this.segmentsPerCurve,
+        ),
+      );
+    });
+
     this.material = this.createMaterial();
 
-    // Create line segments mesh
-    this.mesh = new THREE.LineSegments(this.geometry, this.material);
+    this.mesh = new THREE.Mesh(this.geometry, this.material);
+    // Segments are placed in the shader, so the quad bounds are meaningless
+    this.mesh.frustumCulled = false;
+    // Widths are in pixels, so the shader needs the drawing buffer size
+    this.mesh.onBeforeRender = (renderer: THREE.WebGLRenderer) =>
+      this.updateScreenUniforms(renderer);
 
     // Initially draw nothing
-    this.geometry.setDrawRange(0, 0);
+    this.geometry.instanceCount = 0;
 
     // Add to scene
     this.scene.add(this.mesh);
@@ -110,14 +256,19 @@ export class Curves {
    * Add or update a curve at a specific index
    * @param curveIndex - Index of the curve (0 to maxCurves-1)
    * @param controlPoints - Control points for the curve
-   * @param color - Color for this curve
-   * @param metadata - Optional metadata for the curve
+   * @param color - Color for this curve; departure gradients are resolved
+   *   beforehand (see RouteColors)
+   * @param metadata - Optional metadata for the curve, stored as is
+   * @param vertices - Buffers already generated for these control points
+   *   and color (e.g. by the flight build worker); copied instead of
+   *   sampling the curve again
    */
   public setCurve(
     curveIndex: number,
     controlPoints: THREE.Vector3[],
     color: number | THREE.Color | GradientColorConfig = 0x4488ff,
     metadata: CurveMetadata | null = null,
+    vertices: CurveVertexData | null = null,
   ): void {
     if (curveIndex < 0 || curveIndex >= this.maxCurves) {
       console.warn(`Curve index ${curveIndex} out of bounds`);
@@ -136,47 +287,45 @@ export class Curves {
     curveData.metadata = metadata ?? null;
     curveData.visible = true;
 
-    // Create the curve
-    const curve = new THREE.CatmullRomCurve3(controlPoints);
-    const points = curve.getPoints(this.segmentsPerCurve);
-
     // Calculate buffer offset for this curve
     const vertexOffset = curveIndex * this.verticesPerCurve;
 
-    let distance = 0;
-
-    for (
-      let segmentIndex = 0;
-      segmentIndex < this.segmentsPerCurve;
-      segmentIndex++
+    if (
+      vertices &&
+      vertices.positions.length === this.verticesPerCurve * 3 &&
+      this.positions &&
+      this.lineDistances &&
+      this.baseColors &&
+      this.curveBounds
     ) {
-      const startPoint = points[segmentIndex];
-      const endPoint = points[segmentIndex + 1];
-      const vertexIndex = vertexOffset + segmentIndex * this.verticesPerSegment;
-      const bufferIndex = vertexIndex * 3;
-
-      if (this.positions) {
-        this.positions[bufferIndex] = startPoint.x;
-        this.positions[bufferIndex + 1] = startPoint.y;
-        this.positions[bufferIndex + 2] = startPoint.z;
-
-        this.positions[bufferIndex + 3] = endPoint.x;
-        this.positions[bufferIndex + 4] = endPoint.y;
-        this.positions[bufferIndex + 5] = endPoint.z;
-      }
-
-      if (this.lineDistances) {
-        this.lineDistances[vertexIndex] = distance;
-        distance += startPoint.distanceTo(endPoint);
-        this.lineDistances[vertexIndex + 1] = distance;
+      this.positions.set(vertices.positions, vertexOffset * 3);
+      this.lineDistances.set(vertices.lineDistances, vertexOffset);
+      this.baseColors.set(vertices.colors, vertexOffset * 3);
+      this.curveBounds.set(vertices.bounds, curveIndex * 4);
+      this._writeDisplayColors(curveIndex);
+    } else if (this.positions && this.lineDistances) {
+      const points = CurveGeometry.writeVertices(
+        controlPoints,
+        this.segmentsPerCurve,
+        this.positions,
+        this.lineDistances,
+        vertexOffset,
+      );
+      if (this.curveBounds) {
+        CurveGeometry.writeBounds(points, this.curveBounds, curveIndex * 4);
       }
+      this._applyColorToCurve(curveIndex);
     }
 
-    this._applyColorToCurve(curveIndex);
+    if (this.lineDistances && this.curveLengths) {
+      this.curveLengths[curveIndex] =
+        this.lineDistances[vertexOffset + this.verticesPerCurve - 1];
+      this.dirtyLengths.mark(curveIndex);
+    }
 
     // Mark for update
-    this.needsPositionUpdate = true;
-    this.needsLineDistanceUpdate = true;
+    this.dirtyPositions.mark(curveIndex);
+    this.dirtyLineDistances.mark(curveIndex);
 
     // Update curve count if needed
     if (curveIndex >= this.currentCurveCount) {
@@ -189,7 +338,7 @@ export class Curves {
    * Update the color of a specific curve
    * @param curveIndex - Index of the curve
    * @param color - New color
-   * @param metadata - Optional metadata update
+   * @param metadata - Optional metadata update, stored as is
    */
   public setCurveColor(
     curveIndex: number,
@@ -209,136 +358,358 @@ export class Curves {
     this._applyColorToCurve(curveIndex);
   }
 
-  private _computeGradientParams(
-    color: number | THREE.Color | GradientColorConfig,
-    metadata: CurveMetadata | null,
-  ): GradientParams | null {
-    let source: { lat: number; lng: number } | null = null;
+  private _applyColorToCurve(curveIndex: number): void {
+    if (curveIndex < 0 || curveIndex >= this.maxCurves) return;
 
-    if (
-      color &&
-      typeof color === "object" &&
-      "type" in color &&
-      color.type === "gradient"
-    ) {
-      source = {
-        lat: color.departureLat ?? 0,
-        lng: color.departureLng ?? 0,
-      };
-    } else if (metadata && metadata.departure) {
-      source = {
-        lat: metadata.departure.lat ?? 0,
-        lng: metadata.departure.lng ?? 0,
-      };
-    }
+    const curveData = this.curveData[curveIndex];
+    if (!curveData.visible || !this.baseColors) return;
+
+    CurveGeometry.writeColors(
+      curveData.color,
+      this.segmentsPerCurve,
+      this.baseColors,
+      curveIndex * this.verticesPerCurve,
+    );
+
+    this._writeDisplayColors(curveIndex);
+  }
+
+  /**
+   * Copy a curve's base colors into the color buffer with its emphasis applied
+   */
+  private _writeDisplayColors(curveIndex: number): void {
+    if (!this.colors || !this.baseColors || !this.curveEmphasis) return;
+
+    const start = curveIndex * this.verticesPerCurve * 3;
+    const end = start + this.verticesPerCurve * 3;
+    const emphasis = this.curveEmphasis[curveIndex];
 
-    if (!source) {
-      return null;
+    if (emphasis === EMPHASIS_HIGHLIGHT) {
+      for (let i = start; i < end; i++) {
+        const base = this.baseColors[i];
+        this.colors[i] = base + (1 - base) * HIGHLIGHT_WHITE_MIX;
+      }
+    } else if (emphasis === EMPHASIS_DIM) {
+      for (let i = start; i < end; i++) {
+        this.colors[i] = this.baseColors[i] * DIM_FACTOR;
+      }
+    } else {
+      this.colors.set(this.baseColors.subarray(start, end), start);
     }
 
-    const lng = source.lng;
-    const lat = source.lat;
-    const hue = ((lng + 180) % 360) / 360;
-    const latFactor = Math.min(Math.abs(lat) / 90, 1);
-    const saturation = THREE.MathUtils.clamp(0.6 + 0.3 * (1 - latFactor), 0, 1);
+    this.dirtyColors.mark(curveIndex);
+  }
 
-    return {
-      hue,
-      saturation,
-      lightnessStart: 0.35,
-      lightnessEnd: 0.75,
-    };
+  /**
+   * Highlight one route and dim all others, or clear the highlight
+   * @param curveIndex - Index of the curve to highlight, or null/-1 for none
+   */
+  public setHighlightedCurve(curveIndex: number | null): void {
+    this.setHighlightedCurves(
+      curveIndex !== null && curveIndex >= 0 ? [curveIndex] : null,
+    );
   }
 
-  private _resolveSolidColor(
-    color: number | THREE.Color | GradientColorConfig,
-  ): THREE.Color {
-    if (color instanceof THREE.Color) {
-      return color;
-    }
-    if (typeof color === "number") {
-      return new THREE.Color(color);
-    }
+  /**
+   * Highlight a set of routes and dim all others, or clear the highlight.
+   * Emphasis is applied on top of the stored base colors, so gradients
+   * come back unchanged when the highlight moves or is cleared.
+   * @param curveIndices - Curves to highlight, or null/empty for none
+   */
+  public setHighlightedCurves(curveIndices: number[] | null): void {
+    const emphasis = this.curveEmphasis;
+    if (!emphasis) return;
+
+    const next = new Set(
+      (curveIndices ?? []).filter(
+        (index) => index >= 0 && index < this.maxCurves,
+      ),
+    );
+    const previous = this.highlightedCurves;
     if (
-      color &&
-      typeof color === "object" &&
-      "isColor" in color &&
-      color.isColor === true
+      next.size === previous.size &&
+      [...next].every((index) => previous.has(index))
     ) {
-      return color as THREE.Color;
+      return;
+    }
+    this.highlightedCurves = next;
+
+    if (previous.size > 0 && next.size > 0) {
+      // Moving the highlight only changes the routes involved
+      previous.forEach((index) => {
+        if (!next.has(index)) {
+          emphasis[index] = EMPHASIS_DIM;
+          this._writeDisplayColors(index);
+        }
+      });
+      next.forEach((index) => {
+        if (!previous.has(index)) {
+          emphasis[index] = EMPHASIS_HIGHLIGHT;
+          this._writeDisplayColors(index);
+        }
+      });
+      return;
     }
-    return new THREE.Color(0x4488ff);
-  }
-
-  private _getColorForProgress(
-    params: GradientParams,
-    progress: number,
-    targetColor?: THREE.Color,
-  ): THREE.Color {
-    const target = targetColor || new THREE.Color();
-    const clampedProgress = THREE.MathUtils.clamp(progress, 0, 1);
-    const lightness = THREE.MathUtils.clamp(
-      params.lightnessStart +
-        (params.lightnessEnd - params.lightnessStart) * clampedProgress,
-      0,
-      1,
-    );
-    target.setHSL(params.hue, params.saturation, lightness);
-    return target;
-  }
 
-  private _applyColorToCurve(curveIndex: number): void {
-    if (curveIndex < 0 || curveIndex >= this.maxCurves) return;
+    emphasis.fill(next.size > 0 ? EMPHASIS_DIM : EMPHASIS_NORMAL);
+    next.forEach((index) => {
+      emphasis[index] = EMPHASIS_HIGHLIGHT;
+    });
+    for (let i = 0; i < this.maxCurves; i++) {
+      if (this.curveData[i].visible) {
+        this._writeDisplayColors(i);
+      }
+    }
+  }
 
-    const curveData = this.curveData[curveIndex];
-    if (!curveData.visible || !this.colors) return;
+  /**
+   * Get the indices of the highlighted curves (empty when none)
+   */
+  public getHighlightedCurves(): number[] {
+    return [...this.highlightedCurves];
+  }
 
-    const gradientParams = this._computeGradientParams(
-      curveData.color,
-      curveData.metadata,
+  /**
+   * Find the route drawn closest to a point on screen.
+   * Projects the rendered segments on the CPU and measures the pixel
+   * distance to each, skipping curves whose bounds are out of reach.
+   * @param camera - Camera used for rendering (matrices must be current)
+   * @param x - Pointer x in pixels from the left of the canvas
+   * @param y - Pointer y in pixels from the top of the canvas
+   * @param width - Canvas width in pixels
+   * @param height - Canvas height in pixels
+   * @returns Curve index, or -1 when no route is within reach
+   */
+  public pickCurve(
+    camera: THREE.Camera,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    options: CurvePickOptions = {},
+  ): number {
+    if (!this.mesh || !this.mesh.visible || !this.positions) return -1;
+    if (!this.lineDistances) return -1;
+    if (!this.curveBounds || width <= 0 || height <= 0) return -1;
+
+    const maxDistance = options.maxDistance ?? 6;
+    const occluderRadius = options.occluderRadius ?? 0;
+    const viewProjection = new THREE.Matrix4().multiplyMatrices(
+      camera.projectionMatrix,
+      camera.matrixWorldInverse,
     );
-    const hasGradient = !!gradientParams;
-
-    const vertexOffset = curveIndex * this.verticesPerCurve;
-    const startColor = new THREE.Color();
-    const endColor = new THREE.Color();
-    const solidColor = hasGradient
-      ? null
-      : this._resolveSolidColor(curveData.color);
+    const m = viewProjection.elements;
+    const cameraPosition = new THREE.Vector3().setFromMatrixPosition(
+      camera.matrixWorld,
+    );
+    // Pixels per world unit at distance 1, for projecting bounding spheres
+    const pixelsPerUnit =
+      (camera as THREE.PerspectiveCamera).isPerspectiveCamera === true
+        ? height /
+          2 /
+          Math.tan(
+            THREE.MathUtils.degToRad(
+              (camera as THREE.PerspectiveCamera).getEffectiveFOV() / 2,
+            ),
+          )
+        : 0;
+
+    const positions = this.positions;
+    const lineDistances = this.lineDistances;
+    const bounds = this.curveBounds;
+    const widths = this.curveWidths;
+    const closestPoint = new THREE.Vector3();
+    let bestIndex = -1;
+    let bestDistanceSq = maxDistance * maxDistance;
+
+    // Screen position of vertex v; returns false when behind the camera
+    let sx = 0;
+    let sy = 0;
+    const project = (vertex: number): boolean => {
+      const i = vertex * 3;
+      const px = positions[i];
+      const py = positions[i + 1];
+      const pz = positions[i + 2];
+      const w = m[3] * px + m[7] * py + m[11] * pz + m[15];
+      if (w <= 1e-6) return false;
+      sx = ((m[0] * px + m[4] * py + m[8] * pz + m[12]) / w + 1) * 0.5 * width;
+      sy = (1 - (m[1] * px + m[5] * py + m[9] * pz + m[13]) / w) * 0.5 * height;
+      return true;
+    };
 
     for (
-      let segmentIndex = 0;
-      segmentIndex < this.segmentsPerCurve;
-      segmentIndex++
+      let curveIndex = 0;
+      curveIndex < this.currentCurveCount;
+      curveIndex++
     ) {
-      const vertexIndex = vertexOffset + segmentIndex * this.verticesPerSegment;
-      const bufferIndex = vertexIndex * 3;
-
-      if (hasGradient && gradientParams) {
-        const startProgress = segmentIndex / this.segmentsPerCurve;
-        const endProgress = (segmentIndex + 1) / this.segmentsPerCurve;
-        this._getColorForProgress(gradientParams, startProgress, startColor);
-        this._getColorForProgress(gradientParams, endProgress, endColor);
-
-        this.colors[bufferIndex] = startColor.r;
-        this.colors[bufferIndex + 1] = startColor.g;
-        this.colors[bufferIndex + 2] = startColor.b;
-
-        this.colors[bufferIndex + 3] = endColor.r;
-        this.colors[bufferIndex + 4] = endColor.g;
-        this.colors[bufferIndex + 5] = endColor.b;
-      } else if (solidColor) {
-        this.colors[bufferIndex] = solidColor.r;
-        this.colors[bufferIndex + 1] = solidColor.g;
-        this.colors[bufferIndex + 2] = solidColor.b;
-
-        this.colors[bufferIndex + 3] = solidColor.r;
-        this.colors[bufferIndex + 4] = solidColor.g;
-        this.colors[bufferIndex + 5] = solidColor.b;
+      if (!this.curveData[curveIndex].visible) continue;
+      // Distances are measured from the edge of wide routes
+      const halfWidth = widths ? 0.5 * this.lineWidth * widths[curveIndex] : 0;
+
+      if (pixelsPerUnit > 0) {
+        const b = curveIndex * 4;
+        const cx = bounds[b];
+        const cy = bounds[b + 1];
+        const cz = bounds[b + 2];
+        const w = m[3] * cx + m[7] * cy + m[11] * cz + m[15];
+        // Only reject spheres fully in front of the camera
+        if (w > bounds[b + 3]) {
+          const centerX =
+            ((m[0] * cx + m[4] * cy + m[8] * cz + m[12]) / w + 1) * 0.5 * width;
+          const centerY =
+            (1 - (m[1] * cx + m[5] * cy + m[9] * cz + m[13]) / w) *
+            0.5 *
+            height;
+          const reach =
+            (bounds[b + 3] * pixelsPerUnit) / (w - bounds[b + 3]) +
+            maxDistance +
+            halfWidth;
+          const dx = centerX - x;
+          const dy = centerY - y;
+          if (dx * dx + dy * dy > reach * reach) continue;
+        }
+      }
+
+      // In Flown mode only the part behind the plane is drawn
+      let plane: { progress: number; travelDirection: number } | null = null;
+      if (this.progressiveReveal) {
+        plane = this._getPlaneProgress(curveIndex);
+        if (!plane) continue;
+      }
+      const inverseLength =
+        1 /
+        Math.max(this.curveLengths ? this.curveLengths[curveIndex] : 0, 1e-6);
+
+      const vertexOffset = curveIndex * this.verticesPerCurve;
+      for (
+        let segmentIndex = 0;
+        segmentIndex < this.segmentsPerCurve;
+        segmentIndex++
+      ) {
+        const vertex = vertexOffset + segmentIndex * this.verticesPerSegment;
+
+        // Revealed span of the segment, as in curves.vert
+        let tMin = 0;
+        let tMax = 1;
+        if (plane) {
+          const startFlown =
+            plane.travelDirection *
+            (plane.progress - lineDistances[vertex] * inverseLength);
+          const endFlown =
+            plane.travelDirection *
+            (plane.progress - lineDistances[vertex + 1] * inverseLength);
+          if (startFlown < 0 && endFlown < 0) continue;
+          if (startFlown < 0) {
+            tMin = startFlown / (startFlown - endFlown);
+          } else if (endFlown < 0) {
+            tMax = startFlown / (startFlown - endFlown);
+          }
+        }
+
+        if (!project(vertex)) continue;
+        const ax = sx;
+        const ay = sy;
+        if (!project(vertex + 1)) continue;
+
+        // Closest point on the projected segment
+        const abx = sx - ax;
+        const aby = sy - ay;
+        const lengthSq = abx * abx + aby * aby;
+        const t =
+          lengthSq > 0
+            ? THREE.MathUtils.clamp(
+                ((x - ax) * abx + (y - ay) * aby) / lengthSq,
+                tMin,
+                tMax,
+              )
+            : tMin;
+        const dx = ax + abx * t - x;
+        const dy = ay + aby * t - y;
+        const edgeDistance = Math.max(0, Math.hypot(dx, dy) - halfWidth);
+        const distanceSq = edgeDistance * edgeDistance;
+        if (distanceSq >= bestDistanceSq) continue;
+
+        if (occluderRadius > 0) {
+          const i = vertex * 3;
+          closestPoint.set(
+            positions[i] + (positions[i + 3] - positions[i]) * t,
+            positions[i + 1] + (positions[i + 4] - positions[i + 1]) * t,
+            positions[i + 2] + (positions[i + 5] - positions[i + 2]) * t,
+          );
+          if (this._isOccluded(cameraPosition, closestPoint, occluderRadius)) {
+            continue;
+          }
+        }
+
+        bestDistanceSq = distanceSq;
+        bestIndex = curveIndex;
       }
     }
 
-    this.needsColorUpdate = true;
+    return bestIndex;
+  }
+
+  /**
+   * Where a curve's plane is, as plane_progress.glsl computes it from the
+   * linked animation
+   * @returns Fraction of the route flown and the direction of travel, or
+   * null while a scheduled plane is on the ground
+   */
+  private _getPlaneProgress(
+    curveIndex: number,
+  ): { progress: number; travelDirection: number } | null {
+    const uniforms = this.material.uniforms;
+    const animation = this.geometry.attributes.animationParams.array;
+    const schedule = this.geometry.attributes.scheduleParams.array;
+    const baseIndex = curveIndex * 4;
+    // The shader sees the time uniform as a 32-bit float
+    const time = Math.fround(uniforms.time.value);
+
+    if (schedule[baseIndex + 3] > 0.5) {
+      let elapsed = time - schedule[baseIndex];
+      const period = schedule[baseIndex + 2];
+      if (period > 0) {
+        elapsed = THREE.MathUtils.euclideanModulo(elapsed, period);
+      }
+      const duration = schedule[baseIndex + 1];
+      if (elapsed < 0 || elapsed > duration) return null;
+      return { progress: elapsed / duration, travelDirection: 1 };
+    }
+
+    const cycle = time * animation[baseIndex + 1] + animation[baseIndex];
+    if (uniforms.returnMode.value > 0.5) {
+      const wrapped = THREE.MathUtils.euclideanModulo(cycle, 2);
+      return wrapped > 1
+        ? { progress: 2 - wrapped, travelDirection: -1 }
+        : { progress: wrapped, travelDirection: 1 };
+    }
+    return {
+      progress: THREE.MathUtils.euclideanModulo(cycle, 1),
+      travelDirection: 1,
+    };
+  }
+
+  /**
+   * Whether the line of sight from the camera to a point crosses the globe
+   */
+  private _isOccluded(
+    cameraPosition: THREE.Vector3,
+    point: THREE.Vector3,
+    radius: number,
+  ): boolean {
+    // Solve |camera + s * (point - camera)| = radius for s in (0, 1)
+    const dx = point.x - cameraPosition.x;
+    const dy = point.y - cameraPosition.y;
+    const dz = point.z - cameraPosition.z;
+    const a = dx * dx + dy * dy + dz * dz;
+    const b =
+      2 *
+      (cameraPosition.x * dx + cameraPosition.y * dy + cameraPosition.z * dz);
+    const c = cameraPosition.lengthSq() - radius * radius;
+    const discriminant = b * b - 4 * a * c;
+    if (a === 0 || discriminant <= 0) return false;
+    const s = (-b - Math.sqrt(discriminant)) / (2 * a);
+    return s > 0 && s < 1;
   }
 
   /**
@@ -363,9 +734,87 @@ export class Curves {
     for (let i = 0; i < this.verticesPerCurve; i++) {
       this.lineDistances[distanceOffset + i] = 0;
     }
+    if (this.curveLengths) {
+      this.curveLengths[curveIndex] = 0;
+      this.dirtyLengths.mark(curveIndex);
+    }
+
+    this.dirtyPositions.mark(curveIndex);
+    this.dirtyLineDistances.mark(curveIndex);
+  }
+
+  /**
+   * Move a curve to another slot, keeping its vertices, colors and
+   * emphasis, and hide the slot it came from
+   * @param from - Current index of the curve
+   * @param to - Index to move it to (its previous contents are replaced)
+   */
+  public moveCurve(from: number, to: number): void {
+    if (from === to) return;
+    if (from < 0 || from >= this.maxCurves || to < 0 || to >= this.maxCurves) {
+      return;
+    }
+    if (
+      !this.positions ||
+      !this.colors ||
+      !this.baseColors ||
+      !this.lineDistances ||
+      !this.curveEmphasis ||
+      !this.curveBounds
+    ) {
+      return;
+    }
+
+    const stride = this.verticesPerCurve;
+    this.positions.copyWithin(
+      to * stride * 3,
+      from * stride * 3,
+      (from + 1) * stride * 3,
+    );
+    this.colors.copyWithin(
+      to * stride * 3,
+      from * stride * 3,
+      (from + 1) * stride * 3,
+    );
+    this.baseColors.copyWithin(
+      to * stride * 3,
+      from * stride * 3,
+      (from + 1) * stride * 3,
+    );
+    this.lineDistances.copyWithin(
+      to * stride,
+      from * stride,
+      (from + 1) * stride,
+    );
+    this.curveBounds.copyWithin(to * 4, from * 4, (from + 1) * 4);
+    this.curveEmphasis[to] = this.curveEmphasis[from];
+    if (this.curveWidths) {
+      this.curveWidths[to] = this.curveWidths[from];
+      this.dirtyWidths.mark(to);
+    }
+    if (this.curveLengths) {
+      this.curveLengths[to] = this.curveLengths[from];
+      this.dirtyLengths.mark(to);
+    }
+
+    // Swap so the source slot keeps a distinct (soon hidden) record
+    const moved = this.curveData[from];
+    this.curveData[from] = this.curveData[to];
+    this.curveData[to] = moved;
+
+    if (this.highlightedCurves.delete(from)) {
+      this.highlightedCurves.add(to);
+    }
 
-    this.needsPositionUpdate = true;
-    this.needsLineDistanceUpdate = true;
+    this.hideCurve(from);
+    this.dirtyPositions.mark(to);
+    this.dirtyColors.mark(to);
+    this.dirtyLineDistances.mark(to);
+
+    if (to >= this.currentCurveCount) {
+      this.currentCurveCount = to + 1;
+      this.updateDrawRange();
+    }
   }
 
   /**
@@ -382,32 +831,39 @@ export class Curves {
    */
   private updateDrawRange(): void {
     if (!this.geometry) return;
-    const visibleVertices = this.currentCurveCount * this.verticesPerCurve;
-    this.geometry.setDrawRange(0, visibleVertices);
+    this.geometry.instanceCount =
+      this.currentCurveCount * this.segmentsPerCurve;
   }
 
   /**
    * Apply batched updates to geometry attributes
-   * Call this once per frame after all curve updates
+   * Call this once per frame after all curve updates; only the curves
+   * changed since the last call are uploaded
    */
   public applyUpdates(): void {
-    if (!this.geometry) return;
-
-    if (this.needsPositionUpdate) {
-      this.geometry.attributes.position.needsUpdate = true;
-      this.needsPositionUpdate = false;
-    }
-    if (this.needsColorUpdate) {
-      this.geometry.attributes.color.needsUpdate = true;
-      this.needsColorUpdate = false;
+    if (
+      !this.positionBuffer ||
+      !this.colorBuffer ||
+      !this.lineDistanceBuffer ||
+      !this.geometry
+    ) {
+      return;
     }
-    if (this.dashSize > 0 && this.needsLineDistanceUpdate) {
-      if (this.geometry.attributes.lineDistance) {
-        this.geometry.attributes.lineDistance.needsUpdate = true;
-      }
-      this.needsLineDistanceUpdate = false;
-    } else if (this.dashSize === 0) {
-      this.needsLineDistanceUpdate = false;
+
+    const floatsPerCurve = this.verticesPerCurve * 3;
+    this.dirtyPositions.flush(this.positionBuffer, floatsPerCurve);
+    this.dirtyColors.flush(this.colorBuffer, floatsPerCurve);
+    this.dirtyWidths.flush(this.geometry.attributes.curveWidth, 1);
+    this.dirtyLengths.flush(this.geometry.attributes.curveLength, 1);
+    if (this.usesLineDistances()) {
+      this.dirtyLineDistances.flush(
+        this.lineDistanceBuffer,
+        this.verticesPerCurve,
+      );
+    } else {
+      // Solid, fully drawn lines ignore distances; they are all re-uploaded
+      // once dashes or the progressive reveal need them
+      this.dirtyLineDistances.clear();
     }
   }
 
@@ -453,10 +909,65 @@ export class Curves {
     return curve ? curve.getTangentAt(t) : new THREE.Vector3(0, 0, 1);
   }
 
+  /**
+   * Follow the planes' animation, so dashes flow the way each plane flies:
+   * towards arrival, and back towards departure on the return leg.
+   * Pane slots must match curve indices.
+   * @param source - Plane renderer, or null to always flow towards arrival
+   */
+  public setAnimationSource(source: PlaneAnimationSource | null): void {
+    if (!this.geometry || !this.material) return;
+    if (source === this.animationSource) return;
+
+    const state = source ? source.getAnimationState() : null;
+    if (
+      state &&
+      ANIMATION_ATTRIBUTES.some(
+        (name) => state[name].length < this.maxCurves * 4,
+      )
+    ) {
+      console.warn("Plane animation has fewer slots than curves; not linked");
+      return;
+    }
+
+    this.unlinkAnimationSource();
+    const uniforms = this.material.uniforms;
+    uniforms.time = state ? state.time : { value: 0 };
+    uniforms.returnMode = state ? state.returnMode : { value: 0 };
+    ANIMATION_ATTRIBUTES.forEach((name) => {
+      const attribute = new THREE.InstancedBufferAttribute(
+        state ? state[name] : new Float32Array(this.maxCurves * 4),
+        4,
+        false,
+        this.segmentsPerCurve,
+      );
+      this.geometry.setAttribute(name, attribute);
+      source?.addAnimationTarget(name, attribute);
+    });
+    this.animationSource = source;
+  }
+
+  /**
+   * Advance the dash flow - call once per frame
+   * @param deltaTime - Wall-clock seconds since the last frame, so dashes
+   *   keep a steady pace at any simulation rate
+   */
+  public update(deltaTime: number): void {
+    if (!this.material) return;
+
+    const period = this.dashSize + this.gapSize;
+    if (this.dashSize <= 0 || period <= 0 || this.dashFlowSpeed === 0) return;
+
+    const offset = (this.dashOffset + this.dashFlowSpeed * deltaTime) % period;
+    this.dashOffset = offset < 0 ? offset + period : offset;
+    this.material.uniforms.dashOffset.value = this.dashOffset;
+  }
+
   /**
    * Remove all curves and cleanup
    */
   public remove(): void {
+    this.unlinkAnimationSource();
     if (this.mesh && this.geometry && this.material) {
       this.scene.remove(this.mesh);
       this.geometry.dispose();
@@ -498,38 +1009,129 @@ export class Curves {
 
     if (this.dashSize === nextDash && this.gapSize === nextGap) return;
 
+    const usedDistances = this.usesLineDistances();
     this.dashSize = nextDash;
     this.gapSize = nextGap;
-    this.updateMaterial();
+    this.catchUpLineDistances(usedDistances);
+    if (this.material) {
+      this.material.uniforms.dashSize.value = this.dashSize;
+      this.material.uniforms.gapSize.value = Math.max(this.gapSize, 1e-4);
+    }
   }
 
-  private createMaterial(): THREE.Material {
-    if (this.dashSize > 0) {
-      return new THREE.LineDashedMaterial({
-        vertexColors: true,
-        dashSize: this.dashSize,
-        gapSize: Math.max(this.gapSize, 1e-4),
-      });
+  /**
+   * Draw each route only from its departure up to its plane, growing as the
+   * plane flies; on a return leg, from the arrival back to the plane.
+   * Follows the planes linked with setAnimationSource.
+   * @param enabled - False draws the full routes
+   */
+  public setProgressiveReveal(enabled: boolean): void {
+    const next = !!enabled;
+    if (this.progressiveReveal === next) return;
+
+    const usedDistances = this.usesLineDistances();
+    this.progressiveReveal = next;
+    this.catchUpLineDistances(usedDistances);
+    if (this.material) {
+      this.material.uniforms.progressiveReveal.value = next ? 1.0 : 0.0;
     }
+  }
 
-    return new THREE.LineBasicMaterial({
-      vertexColors: true,
-    });
+  /**
+   * Set how fast dashes flow along the routes
+   * @param speed - World units per second; 0 stops the flow
+   */
+  public setDashFlowSpeed(speed: number): void {
+    this.dashFlowSpeed = Number.isFinite(speed) ? speed : 0;
+  }
+
+  /**
+   * Set the base width of all routes
+   * @param width - Line width in CSS pixels, scaled per curve by setCurveWidth
+   */
+  public setLineWidth(width: number): void {
+    this.lineWidth = Math.max(0, width);
   }
 
-  private updateMaterial(): void {
-    if (!this.mesh) return;
+  /**
+   * Set a route's width relative to the base line width
+   * @param curveIndex - Index of the curve
+   * @param width - Multiplier, e.g. scaled by traffic on the route (default 1)
+   */
+  public setCurveWidth(curveIndex: number, width: number): void {
+    if (!this.curveWidths) return;
+    if (curveIndex < 0 || curveIndex >= this.maxCurves) return;
+
+    const nextWidth = Number.isFinite(width) ? Math.max(0, width) : 1;
+    if (this.curveWidths[curveIndex] === nextWidth) return;
 
+    this.curveWidths[curveIndex] = nextWidth;
+    this.dirtyWidths.mark(curveIndex);
+  }
+
+  /**
+   * Set the fade width for paths passing behind the globe
+   * @param width - World units over which paths fade out near the limb;
+   *   0 cuts them off at the horizon
+   */
+  public setHorizonFade(width: number): void {
+    this.horizonFade = Math.max(0, width);
     if (this.material) {
-      this.material.dispose();
+      this.material.uniforms.horizonFade.value = this.horizonFade;
     }
+  }
 
-    this.material = this.createMaterial();
-    this.mesh.material = this.material;
-    this.mesh.material.needsUpdate = true;
+  private createMaterial(): THREE.ShaderMaterial {
+    return new THREE.ShaderMaterial({
+      uniforms: {
+        resolution: { value: new THREE.Vector2(1, 1) },
+        lineWidth: { value: this.lineWidth },
+        dashSize: { value: this.dashSize },
+        gapSize: { value: Math.max(this.gapSize, 1e-4) },
+        dashOffset: { value: this.dashOffset },
+        progressiveReveal: { value: this.progressiveReveal ? 1.0 : 0.0 },
+        // Replaced by the planes' own uniforms in setAnimationSource
+        time: { value: 0 },
+        returnMode: { value: 0 },
+        opacity: { value: 1.0 },
+        horizonRadius: { value: this.horizonRadius },
+        horizonFade: { value: this.horizonFade },
+      },
+      vertexShader: curveVertexShader,
+      fragmentShader,
+      // Edges are anti-aliased through alpha
+      transparent: true,
+    });
+  }
 
-    if (this.dashSize > 0) {
-      this.needsLineDistanceUpdate = true;
+  // Dashes and the progressive reveal both read the line distances
+  private usesLineDistances(): boolean {
+    return this.dashSize > 0 || this.progressiveReveal;
+  }
+
+  // Distances are only uploaded while in use, so catch up when they return
+  private catchUpLineDistances(usedDistances: boolean): void {
+    if (!usedDistances && this.usesLineDistances()) {
+      this.dirtyLineDistances.markAll();
     }
   }
+
+  private unlinkAnimationSource(): void {
+    if (!this.animationSource || !this.geometry) return;
+
+    ANIMATION_ATTRIBUTES.forEach((name) => {
+      this.animationSource?.removeAnimationTarget(
+        this.geometry.attributes[name],
+      );
+    });
+    this.animationSource = null;
+  }
+
+  private updateScreenUniforms(renderer: THREE.WebGLRenderer): void {
+    if (!this.material) return;
+
+    const uniforms = this.material.uniforms;
+    renderer.getDrawingBufferSize(uniforms.resolution.value);
+    uniforms.lineWidth.value = this.lineWidth * renderer.getPixelRatio();
+  }
 }
@@ -0,0 +1,375 @@
+import type { Airport, Flight, Geolocation } from "../common/Data.ts";
+import { FlightUtils } from "../flights/FlightUtils.ts";
+import {
+  createEmptyReport,
+  parseCsvLine,
+  parseRoutes,
+  readLines,
+  recordSkip,
+} from "./OpenFlights.ts";
+import type { OpenFlightsReport } from "./OpenFlights.ts";
+
+/**
+ * Loader for user-supplied route files (drag-and-drop or file picker).
+ * Accepts:
+ * - OpenFlights `routes.dat` rows, joined against the bundled airports
+ * - CSV with a header row naming departure/arrival coordinates or IATA codes
+ * - JSON arrays of `{ departure, arrival }` objects
+ * - GeoJSON FeatureCollections of LineString/MultiPoint routes or Point pairs
+ */
+
+export type DatasetFormat = "openflights" | "csv" | "json" | "geojson";
+
+export interface LoadedDataset {
+  format: DatasetFormat;
+  flights: Flight[];
+  report: OpenFlightsReport;
+}
+
+const DEPARTURE_PREFIXES = [
+  "departure",
+  "dep",
+  "from",
+  "origin",
+  "source",
+  "src",
+  "start",
+];
+const ARRIVAL_PREFIXES = [
+  "arrival",
+  "arr",
+  "to",
+  "destination",
+  "dest",
+  "dst",
+  "end",
+];
+const LAT_SUFFIXES = ["lat", "latitude"];
+const LNG_SUFFIXES = ["lng", "lon", "long", "longitude"];
+const CODE_SUFFIXES = ["", "iata", "code", "airport"];
+
+/**
+ * Normalize a header cell into a lowercase snake_case key
+ */
+function normalizeHeader(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+function findColumn(
+  headers: string[],
+  prefixes: string[],
+  suffixes: string[],
+): number {
+  for (const prefix of prefixes) {
+    for (const suffix of suffixes) {
+      const key = suffix ? `${prefix}_${suffix}` : prefix;
+      const index = headers.indexOf(key);
+      if (index !== -1) return index;
+    }
+  }
+  return -1;
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const numeric = Number(value);
+  return Number.isFinite(numeric) ? numeric : null;
+}
+
+function isValidLocation(lat: number | null, lng: number | null): boolean {
+  return (
+    lat !== null && lng !== null && Math.abs(lat) <= 90 && Math.abs(lng) <= 180
+  );
+}
+
+/**
+ * Convert a raw CSV value into a number when it looks numeric
+ */
+function coerceValue(value: string): string | number | null {
+  if (value === "" || value === "\\N") return null;
+  const numeric = Number(value);
+  return Number.isFinite(numeric) && /^-?[\d.]+(e-?\d+)?$/i.test(value)
+    ? numeric
+    : value;
+}
+
+/**
+ * Resolve a JSON endpoint that may be a `{ lat, lng }` object, a GeoJSON-style
+ * `coordinates: [lng, lat]` pair, or an IATA code string
+ */
+function resolveEndpoint(
+  value: any,
+  airports: Map<string, Airport>,
+): (Geolocation & Partial<Airport>) | null {
+  if (typeof value === "string") {
+    return airports.get(value.trim().toUpperCase()) ?? null;
+  }
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  let lat = toNumber(value.lat ?? value.latitude);
+  let lng = toNumber(value.lng ?? value.lon ?? value.longitude);
+  if ((lat === null || lng === null) && Array.isArray(value.coordinates)) {
+    lng = toNumber(value.coordinates[0]);
+    lat = toNumber(value.coordinates[1]);
+  }
+
+  if (isValidLocation(lat, lng)) {
+    return { ...value, lat: lat!, lng: lng! };
+  }
+
+  const code = value.iata ?? value.code;
+  if (typeof code === "string") {
+    return airports.get(code.trim().toUpperCase()) ?? null;
+  }
+
+  return null;
+}
+
+/**
+ * Detect whether a headerless CSV looks like OpenFlights routes.dat
+ */
+function looksLikeOpenFlightsRoutes(fields: string[]): boolean {
+  return (
+    fields.length >= 9 &&
+    /^([A-Z0-9]{3}|\\N)$/i.test(fields[2]) &&
+    /^([A-Z0-9]{3}|\\N)$/i.test(fields[4])
+  );
+}
+
+/**
+ * Parse a CSV file with a header row
+ * @param text - CSV contents
+ * @param airports - Airports used to resolve IATA code columns
+ * @returns Parsed flights and report
+ */
+export function parseHeaderCsv(
+  text: string,
+  airports: Map<string, Airport>,
+): { flights: Flight[]; report: OpenFlightsReport } {
+  const report = createEmptyReport();
+  const lines = readLines(text);
+  if (!lines.length) {
+    return { flights: [], report };
+  }
+
+  const rawHeaders = parseCsvLine(lines[0].value);
+  const headers = rawHeaders.map(normalizeHeader);
+  const columns = {
+    depLat: findColumn(headers, DEPARTURE_PREFIXES, LAT_SUFFIXES),
+    depLng: findColumn(headers, DEPARTURE_PREFIXES, LNG_SUFFIXES),
+    arrLat: findColumn(headers, ARRIVAL_PREFIXES, LAT_SUFFIXES),
+    arrLng: findColumn(headers, ARRIVAL_PREFIXES, LNG_SUFFIXES),
+    depCode: findColumn(headers, DEPARTURE_PREFIXES, CODE_SUFFIXES),
+    arrCode: findColumn(headers, ARRIVAL_PREFIXES, CODE_SUFFIXES),
+  };
+
+  const hasCoordinates =
+    columns.depLat !== -1 &&
+    columns.depLng !== -1 &&
+    columns.arrLat !== -1 &&
+    columns.arrLng !== -1;
+  const hasCodes = columns.depCode !== -1 && columns.arrCode !== -1;
+  if (!hasCoordinates && !hasCodes) {
+    throw new Error(
+      "CSV header must name departure/arrival latitude and longitude columns or departure/arrival IATA code columns",
+    );
+  }
+
+  const endpointColumns = new Set(Object.values(columns));
+  const flights: Flight[] = [];
+
+  lines.slice(1).forEach(({ line, value }) => {
+    report.routeCount += 1;
+    const fields = parseCsvLine(value);
+
+    let departure: (Geolocation & Partial<Airport>) | null = null;
+    let arrival: (Geolocation & Partial<Airport>) | null = null;
+
+    if (hasCoordinates) {
+      const depLat = toNumber(fields[columns.depLat]);
+      const depLng = toNumber(fields[columns.depLng]);
+      const arrLat = toNumber(fields[columns.arrLat]);
+      const arrLng = toNumber(fields[columns.arrLng]);
+      if (isValidLocation(depLat, depLng)) {
+        departure = { lat: depLat!, lng: depLng! };
+      }
+      if (isValidLocation(arrLat, arrLng)) {
+        arrival = { lat: arrLat!, lng: arrLng! };
+      }
+    }
+
+    if (hasCodes) {
+      const depCode = (fields[columns.depCode] ?? "").trim().toUpperCase();
+      const arrCode = (fields[columns.arrCode] ?? "").trim().toUpperCase();
+      const depAirport = airports.get(depCode);
+      const arrAirport = airports.get(arrCode);
+      departure = departure
+        ? { ...depAirport, ...departure, iata: depCode || undefined }
+        : (depAirport ?? null);
+      arrival = arrival
+        ? { ...arrAirport, ...arrival, iata: arrCode || undefined }
+        : (arrAirport ?? null);
+
+      if (!hasCoordinates && (!departure || !arrival)) {
+        recordSkip(report, {
+          file: "routes",
+          line,
+          reason: "unknown-airport",
+          detail: [departure ? null : depCode, arrival ? null : arrCode]
+            .filter(Boolean)
+            .join(", "),
+        });
+        return;
+      }
+    }
+
+    if (!departure || !arrival) {
+      recordSkip(report, {
+        file: "routes",
+        line,
+        reason: "missing-coordinates",
+        detail: value,
+      });
+      return;
+    }
+
+    const flight: Flight = { departure, arrival };
+    headers.forEach((header, index) => {
+      if (!header || endpointColumns.has(index)) return;
+      flight[header] = coerceValue(fields[index] ?? "");
+    });
+    flights.push(flight);
+  });
+
+  report.flightCount = flights.length;
+  return { flights, report };
+}
+
+/**
+ * Parse a JSON array of flights (or `{ flights: [...] }`)
+ * @param data - Parsed JSON value
+ * @param airports - Airports used to resolve IATA code endpoints
+ * @returns Parsed flights and report
+ */
+export function parseJsonFlights(
+  data: any,
+  airports: Map<string, Airport>,
+): { flights: Flight[]; report: OpenFlightsReport } {
+  const entries = Array.isArray(data)
+    ? data
+    : Array.isArray(data?.flights)
+      ? data.flights
+      : null;
+  if (!entries) {
+    throw new Error("JSON dataset must be an array of flights");
+  }
+
+  const report = createEmptyReport();
+  const flights: Flight[] = [];
+
+  entries.forEach((entry: any, index: number) => {
+    report.routeCount += 1;
+    const departure = resolveEndpoint(entry?.departure, airports);
+    const arrival = resolveEndpoint(entry?.arrival, airports);
+    if (!departure || !arrival) {
+      recordSkip(report, {
+        file: "routes",
+        line: index + 1,
+        reason: "missing-coordinates",
+        detail: `entry ${index}`,
+      });
+      return;
+    }
+    flights.push({ ...entry, departure, arrival });
+  });
+
+  report.flightCount = flights.length;
+  return { flights, report };
+}
+
+/**
+ * Parse a GeoJSON FeatureCollection of routes via FlightUtils.flightsFromGeoJSON
+ * @param data - Parsed GeoJSON value
+ * @returns Parsed flights and report
+ */
+export function parseGeoJsonFlights(data: any): {
+  flights: Flight[];
+  report: OpenFlightsReport;
+} {
+  const features = data?.type === "Feature" ? [data] : data?.features;
+  if (!Array.isArray(features)) {
+    throw new Error("GeoJSON dataset must be a FeatureCollection");
+  }
+
+  const report = createEmptyReport();
+  report.routeCount = features.length;
+  const flights = FlightUtils.flightsFromGeoJSON(data, (index, detail) => {
+    recordSkip(report, {
+      file: "routes",
+      line: index + 1,
+      reason: "missing-coordinates",
+      detail: `feature ${index}: ${detail}`,
+    });
+  });
+
+  report.flightCount = flights.length;
+  return { flights, report };
+}
+
+/**
+ * Parse a user-supplied dataset file, detecting its format from the
+ * extension and contents
+ * @param fileName - Name of the file (used for format detection)
+ * @param text - File contents
+ * @param airports - Airports used to resolve IATA codes
+ * @returns Parsed dataset
+ */
+export function parseDatasetFile(
+  fileName: string,
+  text: string,
+  airports: Map<string, Airport>,
+): LoadedDataset {
+  const trimmed = text.trim();
+  const lowerName = fileName.toLowerCase();
+
+  if (
+    lowerName.endsWith(".json") ||
+    lowerName.endsWith(".geojson") ||
+    trimmed.startsWith("{") ||
+    trimmed.startsWith("[")
+  ) {
+    let data: any;
+    try {
+      data = JSON.parse(trimmed);
+    } catch (error) {
+      throw new Error(
+        `${fileName} is not valid JSON: ${(error as Error).message}`,
+      );
+    }
+
+    if (data?.type === "FeatureCollection" || data?.type === "Feature") {
+      return { format: "geojson", ...parseGeoJsonFlights(data) };
+    }
+    return { format: "json", ...parseJsonFlights(data, airports) };
+  }
+
+  const firstLine = readLines(trimmed)[0];
+  if (!firstLine) {
+    throw new Error(`${fileName} is empty`);
+  }
+
+  if (looksLikeOpenFlightsRoutes(parseCsvLine(firstLine.value))) {
+    const report = createEmptyReport();
+    report.airportCount = airports.size;
+    const flights = parseRoutes(trimmed, airports, {}, report);
+    return { format: "openflights", flights, report };
+  }
+
+  return { format: "csv", ...parseHeaderCsv(trimmed, airports) };
+}
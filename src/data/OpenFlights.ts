@@ -0,0 +1,382 @@
+import type { Airport, Flight } from "../common/Data.ts";
+
+/**
+ * Parser for the OpenFlights.org `airports.dat` and `routes.dat` exports.
+ * Both files are headerless CSV where missing values are written as `\N`.
+ * See https://openflights.org/data.php for the column layout.
+ */
+
+const NULL_FIELD = "\\N";
+
+/**
+ * Reasons a row can be dropped while building the flight list
+ */
+export type SkipReason =
+  | "malformed-row"
+  | "missing-iata"
+  | "missing-coordinates"
+  | "unknown-airport"
+  | "same-airport";
+
+/**
+ * A row that was not turned into an airport or flight
+ */
+export interface SkippedRow {
+  file: "airports" | "routes";
+  line: number;
+  reason: SkipReason;
+  detail: string;
+}
+
+/**
+ * Summary of an OpenFlights import
+ */
+export interface OpenFlightsReport {
+  airportCount: number;
+  routeCount: number;
+  flightCount: number;
+  skipped: SkippedRow[];
+  skippedByReason: Record<SkipReason, number>;
+  /** Route rows folded into an earlier flight on the same airport pair */
+  mergedDuplicates: number;
+}
+
+export interface OpenFlightsDataset {
+  airports: Map<string, Airport>;
+  flights: Flight[];
+  report: OpenFlightsReport;
+}
+
+export interface OpenFlightsOptions {
+  /** Merge rows flying the same airport pair into a single flight (default true) */
+  dedupeRoutes?: boolean;
+  /** Keep routes with one or more stops (default true) */
+  includeStops?: boolean;
+}
+
+/**
+ * Split one CSV line into fields, honouring double-quoted values.
+ * OpenFlights escapes embedded quotes both as `""` and as `\"`.
+ * @param line - Raw CSV line
+ * @returns Unquoted field values
+ */
+export function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  let wasQuoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (inQuotes) {
+      if (char === "\\" && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && current.length === 0) {
+      inQuotes = true;
+      wasQuoted = true;
+    } else if (char === ",") {
+      fields.push(wasQuoted ? current : current.trim());
+      current = "";
+      wasQuoted = false;
+    } else {
+      current += char;
+    }
+  }
+
+  fields.push(wasQuoted ? current : current.trim());
+  return fields;
+}
+
+/**
+ * Split file contents into non-empty lines with their 1-based line numbers
+ */
+export function readLines(
+  text: string,
+): Array<{ line: number; value: string }> {
+  return text
+    .split(/\r?\n/)
+    .map((value, index) => ({ line: index + 1, value }))
+    .filter((entry) => entry.value.trim().length > 0);
+}
+
+function nullable(value: string | undefined): string | null {
+  if (value === undefined) return null;
+  const trimmed = value.trim();
+  return trimmed.length === 0 || trimmed === NULL_FIELD ? null : trimmed;
+}
+
+function parseNumber(value: string | undefined): number | null {
+  const raw = nullable(value);
+  if (raw === null) return null;
+  const numeric = Number(raw);
+  return Number.isFinite(numeric) ? numeric : null;
+}
+
+/**
+ * Create a report with all counters at zero
+ */
+export function createEmptyReport(): OpenFlightsReport {
+  return {
+    airportCount: 0,
+    routeCount: 0,
+    flightCount: 0,
+    skipped: [],
+    skippedByReason: {
+      "malformed-row": 0,
+      "missing-iata": 0,
+      "missing-coordinates": 0,
+      "unknown-airport": 0,
+      "same-airport": 0,
+    },
+    mergedDuplicates: 0,
+  };
+}
+
+/**
+ * Add a skipped row to a report and bump its reason counter
+ */
+export function recordSkip(report: OpenFlightsReport, row: SkippedRow): void {
+  report.skipped.push(row);
+  report.skippedByReason[row.reason] += 1;
+}
+
+/**
+ * Parse `airports.dat` into a lookup keyed by IATA code.
+ * Airports without an IATA code or coordinates cannot be referenced by
+ * routes, so they are reported as skipped.
+ * @param text - Contents of airports.dat
+ * @param report - Report that collects skipped rows
+ * @returns Airports keyed by IATA code
+ */
+export function parseAirports(
+  text: string,
+  report: OpenFlightsReport = createEmptyReport(),
+): Map<string, Airport> {
+  const airports = new Map<string, Airport>();
+
+  readLines(text).forEach(({ line, value }) => {
+    const fields = parseCsvLine(value);
+    if (fields.length < 8) {
+      recordSkip(report, {
+        file: "airports",
+        line,
+        reason: "malformed-row",
+        detail: `expected at least 8 fields, found ${fields.length}`,
+      });
+      return;
+    }
+
+    const iata = nullable(fields[4]);
+    const name = nullable(fields[1]) ?? "";
+    if (!iata) {
+      recordSkip(report, {
+        file: "airports",
+        line,
+        reason: "missing-iata",
+        detail: name,
+      });
+      return;
+    }
+
+    const lat = parseNumber(fields[6]);
+    const lng = parseNumber(fields[7]);
+    if (
+      lat === null ||
+      lng === null ||
+      Math.abs(lat) > 90 ||
+      Math.abs(lng) > 180
+    ) {
+      recordSkip(report, {
+        file: "airports",
+        line,
+        reason: "missing-coordinates",
+        detail: `${iata} (${name})`,
+      });
+      return;
+    }
+
+    airports.set(iata.toUpperCase(), {
+      lat,
+      lng,
+      id: parseNumber(fields[0]),
+      name,
+      city: nullable(fields[2]),
+      country: nullable(fields[3]),
+      iata: iata.toUpperCase(),
+      icao: nullable(fields[5]),
+      altitude: parseNumber(fields[8]),
+      timezone: nullable(fields[11]),
+    });
+  });
+
+  report.airportCount = airports.size;
+  return airports;
+}
+
+/**
+ * Parse `routes.dat` and join each route to its airport coordinates.
+ * @param text - Contents of routes.dat
+ * @param airports - Airports keyed by IATA code
+ * @param options - Import options
+ * @param report - Report that collects skipped rows and merged duplicates
+ * @returns Flights ready for FlightUtils.preGenerateFlightConfigs
+ */
+export function parseRoutes(
+  text: string,
+  airports: Map<string, Airport>,
+  options: OpenFlightsOptions = {},
+  report: OpenFlightsReport = createEmptyReport(),
+): Flight[] {
+  const dedupeRoutes = options.dedupeRoutes !== false;
+  const includeStops = options.includeStops !== false;
+  const flights: Flight[] = [];
+  const flightsByPair = new Map<string, Flight>();
+
+  readLines(text).forEach(({ line, value }) => {
+    report.routeCount += 1;
+
+    const fields = parseCsvLine(value);
+    if (fields.length < 9) {
+      recordSkip(report, {
+        file: "routes",
+        line,
+        reason: "malformed-row",
+        detail: `expected 9 fields, found ${fields.length}`,
+      });
+      return;
+    }
+
+    const airline = nullable(fields[0]);
+    const sourceCode = nullable(fields[2])?.toUpperCase() ?? null;
+    const destinationCode = nullable(fields[4])?.toUpperCase() ?? null;
+    const stops = parseNumber(fields[7]) ?? 0;
+
+    if (!sourceCode || !destinationCode) {
+      recordSkip(report, {
+        file: "routes",
+        line,
+        reason: "missing-iata",
+        detail: `${sourceCode ?? NULL_FIELD}-${destinationCode ?? NULL_FIELD}`,
+      });
+      return;
+    }
+
+    if (!includeStops && stops > 0) {
+      return;
+    }
+
+    const departure = airports.get(sourceCode);
+    const arrival = airports.get(destinationCode);
+    if (!departure || !arrival) {
+      const missing = [
+        departure ? null : sourceCode,
+        arrival ? null : destinationCode,
+      ].filter(Boolean);
+      recordSkip(report, {
+        file: "routes",
+        line,
+        reason: "unknown-airport",
+        detail: missing.join(", "),
+      });
+      return;
+    }
+
+    if (departure.iata === arrival.iata) {
+      recordSkip(report, {
+        file: "routes",
+        line,
+        reason: "same-airport",
+        detail: sourceCode,
+      });
+      return;
+    }
+
+    const pairKey = `${departure.iata}-${arrival.iata}`;
+    const existing = dedupeRoutes ? flightsByPair.get(pairKey) : undefined;
+    if (existing) {
+      const existingAirlines = existing.airlines ?? [];
+      if (airline && !existingAirlines.includes(airline)) {
+        existing.airlines = [...existingAirlines, airline];
+      }
+      report.mergedDuplicates += 1;
+      return;
+    }
+
+    const equipment = nullable(fields[8]);
+    const flight: Flight = {
+      departure,
+      arrival,
+      airline,
+      airlines: airline ? [airline] : [],
+      codeshare: nullable(fields[6]) === "Y",
+      stops,
+      equipment: equipment ? equipment.split(/\s+/) : [],
+    };
+
+    flights.push(flight);
+    if (dedupeRoutes) {
+      flightsByPair.set(pairKey, flight);
+    }
+  });
+
+  report.flightCount = flights.length;
+  return flights;
+}
+
+/**
+ * Parse both OpenFlights files and join them into a flight list
+ * @param airportsText - Contents of airports.dat
+ * @param routesText - Contents of routes.dat
+ * @param options - Import options
+ * @returns Airports, flights and a report of skipped rows
+ */
+export function loadOpenFlightsDataset(
+  airportsText: string,
+  routesText: string,
+  options: OpenFlightsOptions = {},
+): OpenFlightsDataset {
+  const report = createEmptyReport();
+  const airports = parseAirports(airportsText, report);
+  const flights = parseRoutes(routesText, airports, options, report);
+
+  return { airports, flights, report };
+}
+
+/**
+ * Format a one-line summary of an import report for logging
+ * @param report - Import report
+ * @returns Human readable summary
+ */
+export function summarizeReport(report: OpenFlightsReport): string {
+  const reasons = (Object.keys(report.skippedByReason) as SkipReason[])
+    .filter((reason) => report.skippedByReason[reason] > 0)
+    .map((reason) => `${reason}: ${report.skippedByReason[reason]}`);
+
+  const airportsLabel =
+    report.airportCount > 0 ? ` and ${report.airportCount} airports` : "";
+  const base = `${report.flightCount} flights from ${report.routeCount} routes${airportsLabel}`;
+
+  const details: string[] = [];
+  if (report.mergedDuplicates > 0) {
+    details.push(`merged ${report.mergedDuplicates} duplicate routes`);
+  }
+  if (reasons.length > 0) {
+    details.push(
+      `skipped ${report.skipped.length} rows; ${reasons.join(", ")}`,
+    );
+  }
+  return details.length > 0 ? `${base} (${details.join("; ")})` : base;
+}
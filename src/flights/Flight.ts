@@ -1,5 +1,7 @@
 import * as THREE from "three";
+import { resolveFlightSchedule } from "../common/Utils.ts";
 import type {
+  CurveVertexData,
   FlightData,
   MergedCurvesRenderer,
   MergedPanesRenderer,
@@ -7,6 +9,7 @@ import type {
   PaneOptions,
   TiltMode,
   FlightOptions,
+  GradientColorConfig,
   AnimationSpeedOptions,
 } from "../common/Types.js";
 
@@ -27,6 +30,8 @@ export class Flight {
   // Curve options
   private controlPoints: THREE.Vector3[];
   private curveOptions: CurveOptions;
+  // Prebuilt curve buffers for the first create(); later builds sample again
+  private pendingCurveVertices: CurveVertexData | null;
 
   // Pane options
   private paneOptions: PaneOptions;
@@ -44,6 +49,9 @@ export class Flight {
   // Detect if panes are shader-based or CPU-based
   private _isShaderBasedPanes: boolean = false;
 
+  // Hidden by the flight filter (keeps its slots)
+  private _filteredOut: boolean = false;
+
   constructor(scene: THREE.Scene, options: FlightOptions = {}) {
     this.scene = scene;
     this.animationTime = 0;
@@ -59,8 +67,10 @@ export class Flight {
     this.controlPoints = options.controlPoints || [];
     this.curveOptions = {
       segmentCount: options.segmentCount || 100,
-      color: options.curveColor || 0x4488ff,
+      color: options.curveColor ?? 0x4488ff,
+      width: options.curveWidth ?? 1,
     };
+    this.pendingCurveVertices = options.curveVertices || null;
 
     // Pane options
     this.paneOptions = {
@@ -98,6 +108,12 @@ export class Flight {
         this.controlPoints,
         this.curveOptions.color,
         this.flightData,
+        this.pendingCurveVertices,
+      );
+      this.pendingCurveVertices = null;
+      this.mergedCurves.setCurveWidth?.(
+        this.curveIndex,
+        this.curveOptions.width,
       );
       // Create cached curve for CPU-based pane animation
       this._cachedCurve = new THREE.CatmullRomCurve3(this.controlPoints);
@@ -111,8 +127,10 @@ export class Flight {
 
       if (this._isShaderBasedPanes) {
         // GPU Shader-based panes: Upload control points once
-        const fourPoints = this.resampleTo4Points(this.controlPoints);
-        this.mergedPanes.setCurveControlPoints!(this.paneIndex, fourPoints);
+        this.mergedPanes.setCurveControlPoints!(
+          this.paneIndex,
+          this.controlPoints,
+        );
         this.mergedPanes.setPaneColor(this.paneIndex, this.paneOptions.color);
         this.mergedPanes.setPaneSize(this.paneIndex, this.paneOptions.paneSize);
         if (typeof this.mergedPanes.setElevationOffset === "function") {
@@ -127,6 +145,7 @@ export class Flight {
         );
         this.mergedPanes.setTiltMode!(this.paneIndex, this.tiltMode);
         this._applyPaneTextureIndex();
+        this._applyFlightSchedule();
       } else {
         // CPU-based panes: Just set initial color and size
         this.mergedPanes.setPaneColor(this.paneIndex, this.paneOptions.color);
@@ -140,6 +159,10 @@ export class Flight {
       }
     }
 
+    if (this._filteredOut) {
+      this._hideInRenderers();
+    }
+
     return this;
   }
 
@@ -204,6 +227,10 @@ export class Flight {
    */
   public setControlPoints(controlPoints: THREE.Vector3[]): void {
     this.controlPoints = controlPoints;
+    this.pendingCurveVertices = null;
+    // Filtered-out flights upload the new points when they are shown again
+    if (this._filteredOut) return;
+
     if (this.mergedCurves && this.curveIndex >= 0) {
       this.mergedCurves.setCurve(
         this.curveIndex,
@@ -216,8 +243,10 @@ export class Flight {
     }
 
     if (this._isShaderBasedPanes && this.mergedPanes && this.paneIndex >= 0) {
-      const fourPoints = this.resampleTo4Points(this.controlPoints);
-      this.mergedPanes.setCurveControlPoints!(this.paneIndex, fourPoints);
+      this.mergedPanes.setCurveControlPoints!(
+        this.paneIndex,
+        this.controlPoints,
+      );
     }
   }
 
@@ -244,7 +273,11 @@ export class Flight {
     }
   }
 
-  public setCurveColor(color: number): void {
+  /**
+   * Update the curve color
+   * @param color - Route color, from RouteColors.resolveCurveColor
+   */
+  public setCurveColor(color: number | GradientColorConfig): void {
     this.curveOptions.color = color;
     if (this.mergedCurves && this.curveIndex >= 0) {
       this.mergedCurves.setCurveColor(this.curveIndex, color, this.flightData);
@@ -390,6 +423,56 @@ export class Flight {
    * Remove from scene and cleanup
    */
   public remove(): void {
+    this._hideInRenderers();
+
+    // Clear cached curve
+    this._cachedCurve = null;
+  }
+
+  /**
+   * Hide or show the flight for the flight filter without giving up its
+   * curve and pane slots
+   */
+  public setFilteredOut(filteredOut: boolean): void {
+    const next = !!filteredOut;
+    if (this._filteredOut === next) return;
+
+    this._filteredOut = next;
+    if (next) {
+      this._hideInRenderers();
+    } else {
+      // hideCurve cleared the vertices, so upload everything again
+      this.create();
+    }
+  }
+
+  public isFilteredOut(): boolean {
+    return this._filteredOut;
+  }
+
+  /**
+   * Get the curve and pane slot this flight occupies (-1 when unassigned)
+   */
+  public getSlot(): number {
+    return this.curveIndex >= 0 ? this.curveIndex : this.paneIndex;
+  }
+
+  /**
+   * Relocate the flight's curve and pane to another slot, e.g. when the
+   * slots are compacted. The renderers copy the data, so nothing is rebuilt.
+   */
+  public moveToSlot(slot: number): void {
+    if (this.mergedCurves && this.curveIndex >= 0 && this.curveIndex !== slot) {
+      this.mergedCurves.moveCurve?.(this.curveIndex, slot);
+    }
+    if (this.mergedPanes && this.paneIndex >= 0 && this.paneIndex !== slot) {
+      this.mergedPanes.movePane?.(this.paneIndex, slot);
+    }
+    this.curveIndex = slot;
+    this.paneIndex = slot;
+  }
+
+  private _hideInRenderers(): void {
     // Hide curve in merged renderer
     if (this.mergedCurves && this.curveIndex >= 0) {
       this.mergedCurves.hideCurve(this.curveIndex);
@@ -399,34 +482,39 @@ export class Flight {
     if (this.mergedPanes && this.paneIndex >= 0) {
       this.mergedPanes.hidePane(this.paneIndex);
     }
+  }
 
-    // Clear cached curve
-    this._cachedCurve = null;
+  public setFlightData(data: FlightData | null): void {
+    this.flightData = data || null;
+    this._applyFlightSchedule();
   }
 
   /**
-   * Resample control points to exactly 4 points for shader-based panes
-   * @param controlPoints - Original control points
-   * @returns Array of exactly 4 control points
+   * Show the pane only between the departure and arrival times in flightData
+   * (flights without timestamps keep looping)
    */
-  public resampleTo4Points(controlPoints: THREE.Vector3[]): THREE.Vector3[] {
-    if (controlPoints.length === 4) {
-      return controlPoints;
+  private _applyFlightSchedule(): void {
+    if (!this._isShaderBasedPanes || !this.mergedPanes || this.paneIndex < 0)
+      return;
+    if (typeof this.mergedPanes.setFlightSchedule === "function") {
+      this.mergedPanes.setFlightSchedule(
+        this.paneIndex,
+        resolveFlightSchedule(this.flightData),
+      );
     }
+  }
 
-    // Create a curve from the original points
-    const curve = new THREE.CatmullRomCurve3(controlPoints);
-
-    // Sample 4 evenly spaced points along the curve
-    return [
-      curve.getPoint(0.0),
-      curve.getPoint(0.333),
-      curve.getPoint(0.666),
-      curve.getPoint(1.0),
-    ];
+  /**
+   * Get the flight data this flight was created from (null for random flights)
+   */
+  public getFlightData(): FlightData | null {
+    return this.flightData;
   }
 
-  public setFlightData(data: FlightData | null): void {
-    this.flightData = data || null;
+  /**
+   * Get the control points currently used for the curve
+   */
+  public getControlPoints(): THREE.Vector3[] {
+    return this.controlPoints;
   }
 }
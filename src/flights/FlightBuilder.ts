@@ -0,0 +1,308 @@
+import * as THREE from "three";
+import { FlightUtils } from "./FlightUtils.ts";
+import { RouteColors } from "./RouteColors.ts";
+import { CurveGeometry } from "../curves/CurveGeometry.ts";
+import type { Flight as FlightData } from "../common/Data.ts";
+import type {
+  CurveVertexData,
+  FlightBuildProgress,
+  FlightBuildRequest,
+  FlightBuildResult,
+  FlightConfig,
+  GradientColorConfig,
+} from "../common/Types.js";
+
+// Report progress every this many routes or curves
+const PROGRESS_INTERVAL = 500;
+
+/**
+ * FlightBuilder - Generates route control points and curve vertex buffers
+ * for a batch of flights. The work runs in the flight build worker (see
+ * FlightBuildClient); results are flat typed arrays so they can be
+ * transferred back without copying.
+ */
+export class FlightBuilder {
+  /**
+   * Run a build request
+   * @param request - Routes, path options and curve colors
+   * @param onProgress - Called as routes and curves are completed
+   */
+  static build(
+    request: FlightBuildRequest,
+    onProgress?: (progress: FlightBuildProgress) => void,
+  ): FlightBuildResult {
+    const { controlPoints, controlPointOffsets } = request.endpoints
+      ? this.generateRoutes(request, onProgress)
+      : {
+          controlPoints: request.controlPoints ?? new Float64Array(0),
+          controlPointOffsets:
+            request.controlPointOffsets ?? new Uint32Array([0]),
+        };
+    const routeCount = controlPointOffsets.length - 1;
+
+    const segments = Math.max(1, Math.floor(request.segmentsPerCurve));
+    const verticesPerCurve = segments * 2;
+    const curveCount = Math.min(request.curveColors.length, routeCount);
+    const positions = new Float32Array(curveCount * verticesPerCurve * 3);
+    const lineDistances = new Float32Array(curveCount * verticesPerCurve);
+    const colors = new Float32Array(curveCount * verticesPerCurve * 3);
+    const bounds = new Float32Array(curveCount * 4);
+
+    for (let i = 0; i < curveCount; i++) {
+      const points = this.readControlPoints(
+        controlPoints,
+        controlPointOffsets,
+        i,
+      );
+      if (points.length >= 2) {
+        const sampled = CurveGeometry.writeVertices(
+          points,
+          segments,
+          positions,
+          lineDistances,
+          i * verticesPerCurve,
+        );
+        CurveGeometry.writeBounds(sampled, bounds, i * 4);
+        CurveGeometry.writeColors(
+          request.curveColors[i],
+          segments,
+          colors,
+          i * verticesPerCurve,
+        );
+      }
+      this.reportProgress(onProgress, "curves", i + 1, curveCount);
+    }
+
+    return {
+      routeCount,
+      controlPoints,
+      controlPointOffsets,
+      curveCount,
+      curveColors: request.curveColors.slice(0, curveCount),
+      segmentsPerCurve: segments,
+      positions,
+      lineDistances,
+      colors,
+      bounds,
+    };
+  }
+
+  /**
+   * Request great-circle routes for dataset flights
+   * @param flights - Dataset entries
+   * @param path - Radius, altitude limits and named altitude profile
+   * @param curveCount - Leading routes that also get curve buffers
+   * @param segmentsPerCurve - Line segments per curve
+   * @param resolveColor - Curve color of an entry (see RouteColors)
+   */
+  static createRouteRequest(
+    flights: FlightData[],
+    path: FlightBuildRequest["path"],
+    curveCount: number,
+    segmentsPerCurve: number,
+    resolveColor: (entry: FlightData) => number | GradientColorConfig,
+  ): FlightBuildRequest {
+    const endpoints = new Float64Array(flights.length * 4);
+    flights.forEach((entry, index) => {
+      endpoints[index * 4] = entry.departure.lat;
+      endpoints[index * 4 + 1] = entry.departure.lng;
+      endpoints[index * 4 + 2] = entry.arrival.lat;
+      endpoints[index * 4 + 3] = entry.arrival.lng;
+    });
+
+    return {
+      endpoints,
+      path,
+      controlPoints: null,
+      controlPointOffsets: null,
+      curveColors: flights
+        .slice(0, Math.max(0, curveCount))
+        .map((entry) => resolveColor(entry)),
+      segmentsPerCurve,
+    };
+  }
+
+  /**
+   * Request curve buffers for flight configs that already have control points
+   * @param configs - Configs in the order their flights will be created,
+   *   with the curve colors they will be created with
+   * @param segmentsPerCurve - Line segments per curve
+   */
+  static createCurveRequest(
+    configs: FlightConfig[],
+    segmentsPerCurve: number,
+  ): FlightBuildRequest {
+    const offsets = new Uint32Array(configs.length + 1);
+    configs.forEach((config, index) => {
+      offsets[index + 1] = offsets[index] + config.controlPoints.length;
+    });
+
+    const controlPoints = new Float64Array(offsets[configs.length] * 3);
+    configs.forEach((config, index) => {
+      config.controlPoints.forEach((point, pointIndex) => {
+        point.toArray(controlPoints, (offsets[index] + pointIndex) * 3);
+      });
+    });
+
+    return {
+      endpoints: null,
+      path: {
+        radius: 0,
+        takeoffOffset: 0,
+        minCurveAltitude: 0,
+        minCruiseAltitude: 0,
+        maxCruiseAltitude: 0,
+      },
+      controlPoints,
+      controlPointOffsets: offsets,
+      curveColors: configs.map((config) =>
+        RouteColors.normalizeColor(config.curveColor),
+      ),
+      segmentsPerCurve,
+    };
+  }
+
+  /**
+   * Control points of one route in a result
+   */
+  static getControlPoints(
+    result: FlightBuildResult,
+    index: number,
+  ): THREE.Vector3[] {
+    if (index < 0 || index >= result.routeCount) return [];
+    return this.readControlPoints(
+      result.controlPoints,
+      result.controlPointOffsets,
+      index,
+    );
+  }
+
+  /**
+   * One curve's buffers in a result, as views into the packed arrays
+   * @param result - Build result
+   * @param index - Route index
+   * @param config - Config the flight is created from; configs can change
+   *   while a build is in flight, so its points and color must still match
+   * @returns Buffers, or null when the curve is missing or stale
+   */
+  static getCurveVertices(
+    result: FlightBuildResult,
+    index: number,
+    config: FlightConfig,
+  ): CurveVertexData | null {
+    if (index < 0 || index >= result.curveCount) return null;
+    if (!this.isRouteCurrent(result, index, config)) return null;
+
+    const vertices = result.segmentsPerCurve * 2;
+    return {
+      positions: result.positions.subarray(
+        index * vertices * 3,
+        (index + 1) * vertices * 3,
+      ),
+      lineDistances: result.lineDistances.subarray(
+        index * vertices,
+        (index + 1) * vertices,
+      ),
+      colors: result.colors.subarray(
+        index * vertices * 3,
+        (index + 1) * vertices * 3,
+      ),
+      bounds: result.bounds.subarray(index * 4, (index + 1) * 4),
+    };
+  }
+
+  /**
+   * Buffers a worker can hand over with postMessage instead of copying
+   */
+  static getTransferables(result: FlightBuildResult): ArrayBuffer[] {
+    return [
+      result.controlPoints,
+      result.controlPointOffsets,
+      result.positions,
+      result.lineDistances,
+      result.colors,
+      result.bounds,
+    ].map((array) => array.buffer as ArrayBuffer);
+  }
+
+  private static generateRoutes(
+    request: FlightBuildRequest,
+    onProgress?: (progress: FlightBuildProgress) => void,
+  ): { controlPoints: Float64Array; controlPointOffsets: Uint32Array } {
+    const endpoints = request.endpoints as Float64Array;
+    const routeCount = Math.floor(endpoints.length / 4);
+    const offsets = new Uint32Array(routeCount + 1);
+    const coordinates: number[] = [];
+
+    for (let i = 0; i < routeCount; i++) {
+      const points = FlightUtils.generateParabolicControlPoints(
+        { lat: endpoints[i * 4], lng: endpoints[i * 4 + 1] },
+        { lat: endpoints[i * 4 + 2], lng: endpoints[i * 4 + 3] },
+        request.path,
+      );
+      points.forEach((point) => coordinates.push(point.x, point.y, point.z));
+      offsets[i + 1] = coordinates.length / 3;
+      this.reportProgress(onProgress, "routes", i + 1, routeCount);
+    }
+
+    return {
+      controlPoints: Float64Array.from(coordinates),
+      controlPointOffsets: offsets,
+    };
+  }
+
+  private static isRouteCurrent(
+    result: FlightBuildResult,
+    index: number,
+    config: FlightConfig,
+  ): boolean {
+    const start = result.controlPointOffsets[index];
+    const count = result.controlPointOffsets[index + 1] - start;
+    if (config.controlPoints.length !== count) return false;
+
+    const points = result.controlPoints;
+    const samePoints = config.controlPoints.every((point, pointIndex) => {
+      const offset = (start + pointIndex) * 3;
+      return (
+        point.x === points[offset] &&
+        point.y === points[offset + 1] &&
+        point.z === points[offset + 2]
+      );
+    });
+    if (!samePoints) return false;
+
+    const built = result.curveColors[index];
+    const current = RouteColors.normalizeColor(config.curveColor);
+    if (typeof built === "number" || typeof current === "number") {
+      return built === current;
+    }
+    return (
+      built.departureLat === current.departureLat &&
+      built.departureLng === current.departureLng
+    );
+  }
+
+  private static readControlPoints(
+    controlPoints: Float64Array,
+    offsets: Uint32Array,
+    index: number,
+  ): THREE.Vector3[] {
+    const points: THREE.Vector3[] = [];
+    for (let i = offsets[index]; i < offsets[index + 1]; i++) {
+      points.push(new THREE.Vector3().fromArray(controlPoints, i * 3));
+    }
+    return points;
+  }
+
+  private static reportProgress(
+    onProgress: ((progress: FlightBuildProgress) => void) | undefined,
+    stage: FlightBuildProgress["stage"],
+    completed: number,
+    total: number,
+  ): void {
+    if (!onProgress) return;
+    if (completed % PROGRESS_INTERVAL === 0 || completed === total) {
+      onProgress({ stage, completed, total });
+    }
+  }
+}
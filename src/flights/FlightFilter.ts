@@ -0,0 +1,238 @@
+import * as THREE from "three";
+import { vector3ToLatLng } from "../common/Utils.ts";
+import type { Flight } from "./Flight.ts";
+import type { Flight as FlightData } from "../common/Data.ts";
+import type {
+  FilterBounds,
+  FilterRoute,
+  FlightFilterQuery,
+} from "../common/Types.js";
+
+// Mean Earth radius used for route distances
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * FlightFilter - Builds predicates over flight data from a filter query.
+ * Random flights have no flight data; their endpoints come from the control
+ * points, so only the distance and bounding box criteria can match them.
+ */
+export class FlightFilter {
+  /**
+   * Query that lets every flight through
+   */
+  static createEmptyQuery(): FlightFilterQuery {
+    return {
+      departureCountry: "",
+      arrivalCountry: "",
+      airline: "",
+      minDistance: 0,
+      maxDistance: 0,
+      bounds: "",
+      boundsTarget: "Either",
+    };
+  }
+
+  /**
+   * Check if a query restricts anything
+   */
+  static isActive(query: FlightFilterQuery): boolean {
+    return this.createPredicate(query) !== null;
+  }
+
+  /**
+   * Compile a query into a predicate
+   * @param query - Filter criteria
+   * @returns Predicate, or null when the query matches every flight
+   */
+  static createPredicate(
+    query: FlightFilterQuery,
+  ): ((route: FilterRoute) => boolean) | null {
+    const tests: Array<(route: FilterRoute) => boolean> = [];
+
+    const departureCountries = this.parseList(query.departureCountry);
+    if (departureCountries.length > 0) {
+      tests.push((route) =>
+        this.includesValue(departureCountries, route.departure?.country),
+      );
+    }
+
+    const arrivalCountries = this.parseList(query.arrivalCountry);
+    if (arrivalCountries.length > 0) {
+      tests.push((route) =>
+        this.includesValue(arrivalCountries, route.arrival?.country),
+      );
+    }
+
+    const airlines = this.parseList(query.airline);
+    if (airlines.length > 0) {
+      tests.push((route) =>
+        route.airlines.some((airline) => this.includesValue(airlines, airline)),
+      );
+    }
+
+    const minDistance = Number(query.minDistance) || 0;
+    const maxDistance = Number(query.maxDistance) || 0;
+    if (minDistance > 0 || maxDistance > 0) {
+      tests.push((route) => {
+        if (!route.departure || !route.arrival) return false;
+        const distance = this.routeDistanceKm(route.departure, route.arrival);
+        return (
+          distance >= minDistance &&
+          (maxDistance <= 0 || distance <= maxDistance)
+        );
+      });
+    }
+
+    const bounds = this.parseBounds(query.bounds);
+    if (bounds) {
+      tests.push((route) => {
+        const departureInside =
+          !!route.departure && this.isInsideBounds(bounds, route.departure);
+        const arrivalInside =
+          !!route.arrival && this.isInsideBounds(bounds, route.arrival);
+        switch (query.boundsTarget) {
+          case "Departure":
+            return departureInside;
+          case "Arrival":
+            return arrivalInside;
+          case "Both":
+            return departureInside && arrivalInside;
+          default:
+            return departureInside || arrivalInside;
+        }
+      });
+    }
+
+    if (tests.length === 0) {
+      return null;
+    }
+    return (route) => tests.every((test) => test(route));
+  }
+
+  /**
+   * Collect the fields a predicate looks at from a flight
+   */
+  static resolveRoute(flight: Flight): FilterRoute {
+    const flightData = flight.getFlightData();
+    const controlPoints = flight.getControlPoints();
+
+    const first = controlPoints[0];
+    const last = controlPoints[controlPoints.length - 1];
+    const departure =
+      this.toRouteEndpoint(flightData?.departure) ??
+      (first ? vector3ToLatLng(first, first.length()) : null);
+    const arrival =
+      this.toRouteEndpoint(flightData?.arrival) ??
+      (last ? vector3ToLatLng(last, last.length()) : null);
+
+    const airlines: string[] = [];
+    [flightData?.airline, ...(flightData?.airlines ?? [])].forEach(
+      (airline) => {
+        if (typeof airline === "string" && !airlines.includes(airline)) {
+          airlines.push(airline);
+        }
+      },
+    );
+
+    return { departure, arrival, airlines };
+  }
+
+  /**
+   * Parse "south, west, north, east" in degrees
+   * @returns Bounds, or null when the text is empty or malformed (see
+   *   getBoundsError)
+   */
+  static parseBounds(text: string): FilterBounds | null {
+    if (typeof text !== "string" || !text.trim()) return null;
+    if (this.getBoundsError(text)) return null;
+
+    const [south, west, north, east] = this.parseBoundsValues(text);
+    return { south, west, north, east };
+  }
+
+  /**
+   * Why bounds text cannot be used, for showing next to the filter
+   * @returns A short message, or null when the text is empty or valid
+   */
+  static getBoundsError(text: string): string | null {
+    if (typeof text !== "string" || !text.trim()) return null;
+
+    const values = this.parseBoundsValues(text);
+    if (
+      values.length !== 4 ||
+      values.some((value) => !Number.isFinite(value))
+    ) {
+      return 'expected "south, west, north, east"';
+    }
+
+    const [south, , north] = values;
+    if (south > north || Math.abs(south) > 90 || Math.abs(north) > 90) {
+      return "invalid latitude range";
+    }
+    return null;
+  }
+
+  /**
+   * Great-circle distance between two points in kilometres
+   */
+  static routeDistanceKm(
+    from: { lat: number; lng: number },
+    to: { lat: number; lng: number },
+  ): number {
+    const lat1 = THREE.MathUtils.degToRad(from.lat);
+    const lat2 = THREE.MathUtils.degToRad(to.lat);
+    const dLat = lat2 - lat1;
+    const dLng = THREE.MathUtils.degToRad(to.lng - from.lng);
+    const a =
+      Math.sin(dLat / 2) ** 2 +
+      Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+  }
+
+  private static isInsideBounds(
+    bounds: FilterBounds,
+    point: { lat: number; lng: number },
+  ): boolean {
+    if (point.lat < bounds.south || point.lat > bounds.north) return false;
+    // A box whose west edge is east of its east edge wraps across 180°
+    return bounds.west <= bounds.east
+      ? point.lng >= bounds.west && point.lng <= bounds.east
+      : point.lng >= bounds.west || point.lng <= bounds.east;
+  }
+
+  private static toRouteEndpoint(
+    endpoint: unknown,
+  ): { lat: number; lng: number; country: string | null } | null {
+    if (!endpoint || typeof endpoint !== "object") return null;
+
+    const { lat, lng, country } = endpoint as Partial<FlightData["departure"]>;
+    if (
+      typeof lat !== "number" ||
+      typeof lng !== "number" ||
+      !Number.isFinite(lat) ||
+      !Number.isFinite(lng)
+    ) {
+      return null;
+    }
+    return { lat, lng, country: typeof country === "string" ? country : null };
+  }
+
+  private static parseBoundsValues(text: string): number[] {
+    return text.split(",").map((part) => Number(part.trim()));
+  }
+
+  private static parseList(value: string): string[] {
+    if (typeof value !== "string") return [];
+    return value
+      .split(",")
+      .map((part) => part.trim().toLowerCase())
+      .filter(Boolean);
+  }
+
+  private static includesValue(
+    list: string[],
+    value: string | null | undefined,
+  ): boolean {
+    return typeof value === "string" && list.includes(value.toLowerCase());
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { FlightUtils } from "./FlightUtils.ts";
+import type { Flight } from "./Flight.ts";
+import type { Flight as FlightData } from "../common/Data.ts";
+
+const AIRPORTS = {
+  LHR: { lat: 51.4706, lng: -0.461941 },
+  JFK: { lat: 40.639801, lng: -73.7789 },
+  SYD: { lat: -33.946098, lng: 151.177002 },
+  NRT: { lat: 35.764702, lng: 140.386002 },
+  LAX: { lat: 33.942501, lng: -118.407997 },
+};
+
+const PATH_OPTIONS = {
+  radius: 3000,
+  takeoffOffset: 5,
+  minCurveAltitude: 5,
+  minCruiseAltitude: 30,
+  maxCruiseAltitude: 200,
+};
+
+// flightsToGeoJSON only reads the flight data and control points
+const createFlight = (
+  from: keyof typeof AIRPORTS,
+  to: keyof typeof AIRPORTS,
+  flightData: FlightData | null = null,
+): Flight => {
+  const controlPoints = FlightUtils.generateParabolicControlPoints(
+    AIRPORTS[from],
+    AIRPORTS[to],
+    PATH_OPTIONS,
+  );
+  return {
+    getFlightData: () => flightData,
+    getControlPoints: () => controlPoints,
+  } as unknown as Flight;
+};
+
+describe("FlightUtils.flightsToGeoJSON", () => {
+  it("exports random flights at the airports their curves connect", () => {
+    const routes = [
+      ["LHR", "JFK"],
+      ["SYD", "NRT"],
+      ["LAX", "SYD"],
+      ["NRT", "LHR"],
+    ] as const;
+    const collection = FlightUtils.flightsToGeoJSON(
+      routes.map(([from, to]) => createFlight(from, to)),
+    );
+
+    expect(collection.features).toHaveLength(routes.length);
+    collection.features.forEach((feature, index) => {
+      const [from, to] = routes[index];
+      const [start, end] = feature.geometry?.coordinates;
+      expect(start[0]).toBeCloseTo(AIRPORTS[from].lng, 6);
+      expect(start[1]).toBeCloseTo(AIRPORTS[from].lat, 6);
+      expect(end[0]).toBeCloseTo(AIRPORTS[to].lng, 6);
+      expect(end[1]).toBeCloseTo(AIRPORTS[to].lat, 6);
+    });
+  });
+
+  it("round-trips through flightsFromGeoJSON", () => {
+    const collection = FlightUtils.flightsToGeoJSON([
+      createFlight("JFK", "LAX"),
+    ]);
+    const [flight] = FlightUtils.flightsFromGeoJSON(collection);
+
+    expect(flight.departure.lat).toBeCloseTo(AIRPORTS.JFK.lat, 6);
+    expect(flight.departure.lng).toBeCloseTo(AIRPORTS.JFK.lng, 6);
+    expect(flight.arrival.lat).toBeCloseTo(AIRPORTS.LAX.lat, 6);
+    expect(flight.arrival.lng).toBeCloseTo(AIRPORTS.LAX.lng, 6);
+  });
+
+  it("keeps the endpoints of dataset flights", () => {
+    const flightData: FlightData = {
+      departure: { ...AIRPORTS.LHR, iata: "LHR" },
+      arrival: { ...AIRPORTS.SYD, iata: "SYD" },
+      airline: "QF",
+    };
+    const collection = FlightUtils.flightsToGeoJSON([
+      createFlight("LHR", "SYD", flightData),
+    ]);
+    const [feature] = collection.features;
+
+    expect(feature.geometry?.coordinates).toEqual([
+      [AIRPORTS.LHR.lng, AIRPORTS.LHR.lat],
+      [AIRPORTS.SYD.lng, AIRPORTS.SYD.lat],
+    ]);
+    expect(feature.properties?.airline).toBe("QF");
+  });
+});
@@ -1,9 +1,13 @@
 import * as THREE from "three";
 import type { Geolocation, Flight as FlightData } from "../common/Data.ts";
-import { latLngToVector3 } from "../common/Utils.ts";
-import { Flight } from "./Flight.ts";
-import { Curves } from "../curves/Curves.ts";
-import { PlanesShader } from "../planes/PlanesShader.ts";
+import {
+  latLngToVector3,
+  slerpDirections,
+  vector3ToLatLng,
+} from "../common/Utils.ts";
+import type { Flight } from "./Flight.ts";
+import type { Curves } from "../curves/Curves.ts";
+import type { PlanesShader } from "../planes/PlanesShader.ts";
 import type {
   Bounds,
   RandomCurveOptions,
@@ -12,8 +16,15 @@ import type {
   FlightConfig,
   GradientColorConfig,
   PlaneEntry,
+  GeoJSONFeature,
+  GeoJSONFeatureCollection,
+  AltitudeProfile,
+  GreatCirclePathOptions,
 } from "../common/Types.js";
 
+// Widest auto-sized route, reached at eight airlines
+const MAX_ROUTE_WIDTH = 4;
+
 /**
  * Utility functions for generating flight paths and control points
  */
@@ -72,39 +83,6 @@ export class FlightUtils {
     });
   }
 
-  /**
-   * Normalize raw control points into four evenly-sampled points.
-   * @param points - Input control points
-   * @param radius - Target sphere radius
-   * @param minAltitude - Minimum altitude above the sphere surface
-   * @returns Four normalized control points
-   */
-  static normalizeControlPoints(
-    points: THREE.Vector3[],
-    radius: number,
-    minAltitude: number,
-  ): THREE.Vector3[] {
-    const sourcePoints =
-      points && points.length ? this.cloneControlPoints(points) : [];
-    if (sourcePoints.length === 4) {
-      return this.ensureMinimumCurveAltitude(sourcePoints, radius, minAltitude);
-    }
-
-    if (!sourcePoints.length) {
-      return [];
-    }
-
-    const curve = new THREE.CatmullRomCurve3(sourcePoints);
-    const sampledPoints = [
-      curve.getPoint(0.0),
-      curve.getPoint(0.333),
-      curve.getPoint(0.666),
-      curve.getPoint(1.0),
-    ];
-
-    return this.ensureMinimumCurveAltitude(sampledPoints, radius, minAltitude);
-  }
-
   /**
    * Generate a random point inside a sphere centered at the origin.
    * @param radius - Sphere radius
@@ -149,18 +127,48 @@ export class FlightUtils {
   }
 
   /**
-   * Options for generating parabolic control points between two geolocations.
+   * Resolve an altitude profile into a function of route progress.
+   * @param profile - Profile name or custom function
+   * @param climbFraction - Share of the route spent climbing for "Cruise"
+   * @returns Function returning a 0-1 fraction of cruise altitude
+   */
+  static resolveAltitudeProfile(
+    profile: AltitudeProfile = "Arc",
+    climbFraction: number = 0.2,
+  ): (t: number) => number {
+    if (typeof profile === "function") {
+      return profile;
+    }
+
+    switch (profile) {
+      case "Parabolic":
+        return (t) => 4 * t * (1 - t);
+      case "Cruise": {
+        const ramp = THREE.MathUtils.clamp(climbFraction, 0.01, 0.5);
+        return (t) =>
+          THREE.MathUtils.smoothstep(t, 0, ramp) *
+          (1 - THREE.MathUtils.smoothstep(t, 1 - ramp, 1));
+      }
+      case "Arc":
+      default:
+        return (t) => Math.sin(Math.PI * t);
+    }
+  }
+
+  /**
+   * Generate control points that follow the great circle between two
+   * geolocations, lifted above the surface by an altitude profile.
+   * Points are spaced evenly by angle (slerp), and antipodal pairs fall back
+   * to the great circle through the poles.
+   * @param departure - Departure geolocation
+   * @param arrival - Arrival geolocation
+   * @param options - Radius, altitude limits and profile
+   * @returns Control points from departure to arrival
    */
   static generateParabolicControlPoints(
     departure: Geolocation,
     arrival: Geolocation,
-    options: {
-      radius: number;
-      takeoffOffset: number;
-      minCurveAltitude: number;
-      minCruiseAltitude: number;
-      maxCruiseAltitude: number;
-    },
+    options: GreatCirclePathOptions,
   ): THREE.Vector3[] {
     const {
       radius,
@@ -168,7 +176,12 @@ export class FlightUtils {
       minCurveAltitude,
       minCruiseAltitude,
       maxCruiseAltitude,
+      sampleCount = 7,
     } = options;
+    const profile = this.resolveAltitudeProfile(
+      options.altitudeProfile,
+      options.climbFraction,
+    );
 
     const surfaceOffset = Math.max(takeoffOffset, minCurveAltitude);
     const cruiseMin = Math.max(minCruiseAltitude, surfaceOffset + 5);
@@ -176,110 +189,40 @@ export class FlightUtils {
     const origin = latLngToVector3(departure.lat, departure.lng, radius);
     const destination = latLngToVector3(arrival.lat, arrival.lng, radius);
 
-    const startSurface = origin
-      .clone()
-      .normalize()
-      .multiplyScalar(radius + surfaceOffset);
-    const endSurface = destination
-      .clone()
-      .normalize()
-      .multiplyScalar(radius + surfaceOffset);
-
-    const distance = startSurface.distanceTo(endSurface);
+    const angle = origin.angleTo(destination);
+    const arcLength = angle * radius;
     const maxDistance = radius * Math.PI;
-    const distanceRatio = Math.min(distance / (maxDistance * 0.3), 1);
+    const distanceRatio = Math.min(arcLength / (maxDistance * 0.3), 1);
     const cruiseAltitude =
       cruiseMin +
       (maxCruiseAltitude - cruiseMin) * Math.pow(distanceRatio, 0.7);
 
-    const climbPoint1 = startSurface
-      .clone()
-      .lerp(endSurface, 0.2)
-      .normalize()
-      .multiplyScalar(radius + cruiseAltitude * 0.4);
-    const climbPoint2 = startSurface
-      .clone()
-      .lerp(endSurface, 0.35)
-      .normalize()
-      .multiplyScalar(radius + cruiseAltitude * 0.75);
-    const cruisePeak = startSurface
-      .clone()
-      .lerp(endSurface, 0.5)
-      .normalize()
-      .multiplyScalar(radius + cruiseAltitude * 0.85);
-    const descentPoint1 = startSurface
-      .clone()
-      .lerp(endSurface, 0.65)
-      .normalize()
-      .multiplyScalar(radius + cruiseAltitude * 0.75);
-    const descentPoint2 = startSurface
-      .clone()
-      .lerp(endSurface, 0.8)
-      .normalize()
-      .multiplyScalar(radius + cruiseAltitude * 0.4);
-
-    const startNormal = startSurface.clone().normalize();
-    let pathDirStart = endSurface.clone().sub(startSurface);
-    if (pathDirStart.lengthSq() < 1e-6) {
-      pathDirStart = new THREE.Vector3().randomDirection();
-    }
-    let tangentStart = pathDirStart
-      .clone()
-      .sub(startNormal.clone().multiplyScalar(pathDirStart.dot(startNormal)));
-    if (tangentStart.lengthSq() < 1e-6) {
-      tangentStart = new THREE.Vector3().crossVectors(
-        startNormal,
-        new THREE.Vector3(0, 1, 0),
+    const pointAt = (t: number, altitude: number): THREE.Vector3 =>
+      slerpDirections(origin, destination, t).multiplyScalar(
+        radius + altitude,
       );
-      if (tangentStart.lengthSq() < 1e-6) {
-        tangentStart = new THREE.Vector3(1, 0, 0);
-      }
+
+    // Short surface-level hops at each end keep takeoff and landing shallow
+    const tangentT =
+      angle > 1e-6 ? Math.min((radius * 0.08) / arcLength, 0.15) : 0;
+
+    const controlPoints = [pointAt(0, surfaceOffset)];
+    if (tangentT > 0) {
+      controlPoints.push(pointAt(tangentT, surfaceOffset));
     }
-    tangentStart.normalize();
-    const tangentDistance = radius * 0.08;
-    const surfaceLength = startSurface.length();
-    const startTangentPoint = startSurface
-      .clone()
-      .add(tangentStart.clone().multiplyScalar(tangentDistance))
-      .normalize()
-      .multiplyScalar(surfaceLength);
-
-    const endNormal = endSurface.clone().normalize();
-    let pathDirEnd = startSurface.clone().sub(endSurface);
-    if (pathDirEnd.lengthSq() < 1e-6) {
-      pathDirEnd = new THREE.Vector3().randomDirection();
+
+    const samples = Math.max(1, Math.floor(sampleCount));
+    for (let i = 1; i <= samples; i++) {
+      const t = tangentT + ((1 - 2 * tangentT) * i) / (samples + 1);
+      const altitude =
+        surfaceOffset + (cruiseAltitude - surfaceOffset) * profile(t);
+      controlPoints.push(pointAt(t, Math.max(altitude, surfaceOffset)));
     }
-    let tangentEnd = pathDirEnd
-      .clone()
-      .sub(endNormal.clone().multiplyScalar(pathDirEnd.dot(endNormal)));
-    if (tangentEnd.lengthSq() < 1e-6) {
-      tangentEnd = new THREE.Vector3().crossVectors(
-        endNormal,
-        new THREE.Vector3(0, 1, 0),
-      );
-      if (tangentEnd.lengthSq() < 1e-6) {
-        tangentEnd = new THREE.Vector3(1, 0, 0);
-      }
+
+    if (tangentT > 0) {
+      controlPoints.push(pointAt(1 - tangentT, surfaceOffset));
     }
-    tangentEnd.normalize();
-    const endSurfaceLength = endSurface.length();
-    const endTangentPoint = endSurface
-      .clone()
-      .add(tangentEnd.clone().multiplyScalar(tangentDistance))
-      .normalize()
-      .multiplyScalar(endSurfaceLength);
-
-    const controlPoints = [
-      startSurface,
-      startTangentPoint,
-      climbPoint1,
-      climbPoint2,
-      cruisePeak,
-      descentPoint1,
-      descentPoint2,
-      endTangentPoint,
-      endSurface,
-    ];
+    controlPoints.push(pointAt(1, surfaceOffset));
 
     return this.ensureMinimumCurveAltitude(
       controlPoints,
@@ -554,6 +497,7 @@ export class FlightUtils {
       return {
         controlPoints: config.controlPoints || [],
         segmentCount: config.segmentCount || 100,
+        curveWidth: config.curveWidth,
         paneSize: config.paneSize || 100,
         elevationOffset: config.elevationOffset || 15,
         animationSpeed: config.animationSpeed || 0.1,
@@ -569,6 +513,7 @@ export class FlightUtils {
     return {
       controlPoints: config.controlPoints || [],
       segmentCount: config.segmentCount || 100,
+      curveWidth: config.curveWidth,
       paneSize: config.paneSize || 100,
       elevationOffset: config.elevationOffset || 15,
       animationSpeed: config.animationSpeed || 0.1,
@@ -620,6 +565,9 @@ export class FlightUtils {
    * @param planeEntries - Array of available plane entries
    * @param defaultPlaneColor - Default plane color
    * @param parseHexColor - Function to parse hex colors
+   * @param altitudeProfile - Altitude profile for the great-circle path
+   * @param controlPoints - Path already generated for this entry (e.g. by
+   *   the flight build worker); generated here when missing
    * @returns Flight configuration or null
    */
   static createDataFlightConfig(
@@ -633,23 +581,24 @@ export class FlightUtils {
     planeEntries: PlaneEntry[],
     defaultPlaneColor: number,
     parseHexColor: (value: any, fallback: number) => number,
+    altitudeProfile?: AltitudeProfile,
+    controlPoints?: THREE.Vector3[],
   ): FlightConfig | null {
     if (!entry) {
       return null;
     }
 
     const { departure, arrival } = entry;
-    const controlPoints = this.generateParabolicControlPoints(
-      departure,
-      arrival,
-      {
+    if (!controlPoints || controlPoints.length < 2) {
+      controlPoints = this.generateParabolicControlPoints(departure, arrival, {
         radius: earthRadius,
         takeoffOffset: takeoffLandingOffset,
         minCurveAltitude: minCurveAltitude,
         minCruiseAltitude: minCruiseAltitude,
         maxCruiseAltitude: maxCruiseAltitude,
-      },
-    );
+        altitudeProfile,
+      });
+    }
     if (!controlPoints.length) {
       return null;
     }
@@ -659,6 +608,7 @@ export class FlightUtils {
         controlPoints,
         segmentCount: params.segmentCount,
         curveColor: this.createGradientColorConfig(departure),
+        curveWidth: this.getRouteWidth(entry),
         paneCount: 1,
         paneSize: params.planeSize,
         elevationOffset: params.elevationOffset,
@@ -666,6 +616,7 @@ export class FlightUtils {
         tiltMode: params.tiltMode,
         returnFlight: params.returnFlight,
         flightData: {
+          ...entry,
           departure,
           arrival,
         },
@@ -676,11 +627,279 @@ export class FlightUtils {
     );
   }
 
+  /**
+   * Width of a dataset route relative to the Line Width setting
+   * @param entry - Flight data entry
+   * @returns The entry's own width when set, otherwise a width that grows
+   *   with the number of airlines flying the route
+   */
+  static getRouteWidth(entry: FlightData): number {
+    if (typeof entry.width === "number" && entry.width > 0) {
+      return entry.width;
+    }
+
+    const airlineCount = entry.airlines?.length ?? 0;
+    if (airlineCount <= 1) {
+      return 1;
+    }
+    return Math.min(1 + Math.log2(airlineCount), MAX_ROUTE_WIDTH);
+  }
+
+  /**
+   * GeoJSON import/export utility functions
+   */
+
+  /**
+   * Read a GeoJSON position ([lng, lat]) as a geolocation.
+   * @param position - GeoJSON position
+   * @returns Geolocation or null if the position is invalid
+   */
+  static positionToGeolocation(position: any): Geolocation | null {
+    if (!Array.isArray(position) || position.length < 2) {
+      return null;
+    }
+
+    const lng = Number(position[0]);
+    const lat = Number(position[1]);
+    if (
+      !Number.isFinite(lat) ||
+      !Number.isFinite(lng) ||
+      Math.abs(lat) > 90 ||
+      Math.abs(lng) > 180
+    ) {
+      return null;
+    }
+
+    return { lat, lng };
+  }
+
+  /**
+   * Read an endpoint property written by flightsToGeoJSON. QGIS may save
+   * object-valued attributes back as JSON strings, so those are parsed too.
+   * @param value - Property value
+   * @returns Endpoint attributes or an empty object
+   */
+  static parseEndpointProperty(value: any): Record<string, any> {
+    if (typeof value === "string" && value.trim().startsWith("{")) {
+      try {
+        value = JSON.parse(value);
+      } catch {
+        return {};
+      }
+    }
+    return value && typeof value === "object" && !Array.isArray(value)
+      ? value
+      : {};
+  }
+
+  /**
+   * Get the departure/arrival role of a Point feature.
+   * @param properties - Feature properties
+   * @returns Endpoint role or null
+   */
+  static getPointRole(
+    properties: Record<string, any>,
+  ): "departure" | "arrival" | null {
+    const role = String(
+      properties.role ?? properties.endpoint ?? "",
+    ).toLowerCase();
+    if (role === "departure" || properties.departure === true) {
+      return "departure";
+    }
+    if (role === "arrival" || properties.arrival === true) {
+      return "arrival";
+    }
+    return null;
+  }
+
+  /**
+   * Convert GeoJSON features into flight data entries.
+   * - LineString and MultiPoint features use their first and last positions
+   *   as departure and arrival; the feature properties become flight data.
+   * - Point features carry a `role` of "departure" or "arrival" and are
+   *   paired by a shared `flightId`/`routeId` property, or in order when
+   *   neither is set.
+   * Object-valued `departure`/`arrival` properties are merged into the
+   * endpoints so files written by flightsToGeoJSON round-trip.
+   * @param data - GeoJSON FeatureCollection or single Feature
+   * @param onSkip - Called for each feature that could not be used
+   * @returns Flight data entries
+   */
+  static flightsFromGeoJSON(
+    data: GeoJSONFeatureCollection | GeoJSONFeature,
+    onSkip?: (featureIndex: number, detail: string) => void,
+  ): FlightData[] {
+    const features: GeoJSONFeature[] =
+      data?.type === "Feature"
+        ? [data]
+        : Array.isArray((data as GeoJSONFeatureCollection)?.features)
+          ? (data as GeoJSONFeatureCollection).features
+          : [];
+
+    const flights: FlightData[] = [];
+    const pendingByKey = new Map<
+      string,
+      Partial<Record<"departure" | "arrival", FlightData["departure"]>>
+    >();
+    const pendingUnkeyed: Record<
+      "departure" | "arrival",
+      Array<{ index: number; endpoint: FlightData["departure"] }>
+    > = { departure: [], arrival: [] };
+    const pendingIndices = new Map<string, number>();
+
+    features.forEach((feature, index) => {
+      const geometry = feature?.geometry;
+      const properties = feature?.properties ?? {};
+
+      if (geometry?.type === "LineString" || geometry?.type === "MultiPoint") {
+        const coordinates = Array.isArray(geometry.coordinates)
+          ? geometry.coordinates
+          : [];
+        const first = this.positionToGeolocation(coordinates[0]);
+        const last = this.positionToGeolocation(
+          coordinates[coordinates.length - 1],
+        );
+        if (coordinates.length < 2 || !first || !last) {
+          onSkip?.(index, `${geometry.type} needs two valid positions`);
+          return;
+        }
+
+        flights.push({
+          ...properties,
+          departure: {
+            ...this.parseEndpointProperty(properties.departure),
+            ...first,
+          },
+          arrival: {
+            ...this.parseEndpointProperty(properties.arrival),
+            ...last,
+          },
+        });
+        return;
+      }
+
+      if (geometry?.type === "Point") {
+        const location = this.positionToGeolocation(geometry.coordinates);
+        const role = this.getPointRole(properties);
+        if (!location || !role) {
+          onSkip?.(
+            index,
+            location
+              ? "Point has no departure/arrival role"
+              : "invalid Point position",
+          );
+          return;
+        }
+
+        const attributes = { ...properties };
+        [
+          "role",
+          "endpoint",
+          "departure",
+          "arrival",
+          "flightId",
+          "routeId",
+        ].forEach((name) => delete attributes[name]);
+        const endpoint = { ...attributes, ...location };
+        const opposite = role === "departure" ? "arrival" : "departure";
+        const key = properties.flightId ?? properties.routeId;
+
+        if (key === undefined || key === null) {
+          const match = pendingUnkeyed[opposite].shift();
+          if (!match) {
+            pendingUnkeyed[role].push({ index, endpoint });
+            return;
+          }
+          flights.push({
+            [role]: endpoint,
+            [opposite]: match.endpoint,
+          } as FlightData);
+          return;
+        }
+
+        const pairKey = String(key);
+        const pending = pendingByKey.get(pairKey) ?? {};
+        pending[role] = endpoint;
+        if (pending.departure && pending.arrival) {
+          pendingByKey.delete(pairKey);
+          pendingIndices.delete(pairKey);
+          flights.push({
+            flightId: key,
+            departure: pending.departure,
+            arrival: pending.arrival,
+          } as FlightData);
+        } else {
+          pendingByKey.set(pairKey, pending);
+          pendingIndices.set(pairKey, index);
+        }
+        return;
+      }
+
+      onSkip?.(index, `unsupported geometry ${geometry?.type ?? "null"}`);
+    });
+
+    pendingIndices.forEach((index, key) => {
+      onSkip?.(index, `Point ${key} has no matching endpoint`);
+    });
+    [...pendingUnkeyed.departure, ...pendingUnkeyed.arrival].forEach(
+      ({ index }) => {
+        onSkip?.(index, "Point has no matching endpoint");
+      },
+    );
+
+    return flights;
+  }
+
+  /**
+   * Export flights as a GeoJSON FeatureCollection of LineStrings.
+   * Flight data properties are kept so the file can be edited in QGIS and
+   * loaded back; random flights get endpoints from their control points.
+   * @param flights - Active flights
+   * @returns GeoJSON FeatureCollection
+   */
+  static flightsToGeoJSON(flights: Flight[]): GeoJSONFeatureCollection {
+    const features: GeoJSONFeature[] = [];
+
+    flights.forEach((flight) => {
+      const flightData = flight.getFlightData();
+      const controlPoints = flight.getControlPoints();
+      const first = controlPoints[0];
+      const last = controlPoints[controlPoints.length - 1];
+      const departure =
+        flightData?.departure ??
+        (first ? vector3ToLatLng(first, first.length()) : null);
+      const arrival =
+        flightData?.arrival ??
+        (last ? vector3ToLatLng(last, last.length()) : null);
+      if (!departure || !arrival) {
+        return;
+      }
+
+      features.push({
+        type: "Feature",
+        geometry: {
+          type: "LineString",
+          coordinates: [
+            [departure.lng, departure.lat],
+            [arrival.lng, arrival.lat],
+          ],
+        },
+        properties: {
+          ...(flightData ?? {}),
+          departure: { ...departure },
+          arrival: { ...arrival },
+        },
+      });
+    });
+
+    return { type: "FeatureCollection", features };
+  }
+
   // Note: createFlightFromConfig moved back to main.ts due to complex type dependencies
 
   /**
    * Pre-generate flight configurations for stability
-   * @param dataFlights - Array of flight data
+   * @param dataFlights - Array of flight data or a GeoJSON FeatureCollection
    * @param maxFlights - Maximum number of flights
    * @param params - GUI parameters
    * @param earthRadius - Earth radius
@@ -689,11 +908,12 @@ export class FlightUtils {
    * @param defaultPlaneColor - Default plane color
    * @param parseHexColor - Function to parse hex colors
    * @param createDataFlightConfigFn - Function to create data flight config
+   *   from an entry and its index in dataFlights
    * @param assignRandomPlaneFn - Function to assign random plane
    * @returns Array of pre-generated flight configurations
    */
   static preGenerateFlightConfigs(
-    dataFlights: FlightData[],
+    dataFlights: FlightData[] | GeoJSONFeatureCollection,
     maxFlights: number,
     params: any,
     earthRadius: number,
@@ -701,14 +921,20 @@ export class FlightUtils {
     planeEntries: PlaneEntry[],
     defaultPlaneColor: number,
     parseHexColor: (value: any, fallback: number) => number,
-    createDataFlightConfigFn: (entry: FlightData) => FlightConfig | null,
+    createDataFlightConfigFn: (
+      entry: FlightData,
+      index: number,
+    ) => FlightConfig | null,
     assignRandomPlaneFn: (config: Partial<FlightConfig>) => FlightConfig,
   ): FlightConfig[] {
     const preGeneratedConfigs: FlightConfig[] = [];
+    const flightEntries = Array.isArray(dataFlights)
+      ? dataFlights
+      : this.flightsFromGeoJSON(dataFlights);
 
-    if (Array.isArray(dataFlights) && dataFlights.length > 0) {
-      dataFlights.forEach((flightEntry) => {
-        const config = createDataFlightConfigFn(flightEntry);
+    if (flightEntries.length > 0) {
+      flightEntries.forEach((flightEntry, index) => {
+        const config = createDataFlightConfigFn(flightEntry, index);
         if (!config) {
           return;
         }
@@ -719,7 +945,7 @@ export class FlightUtils {
           defaultPlaneColor,
           parseHexColor,
         );
-        const normalizedPoints = this.normalizeControlPoints(
+        const normalizedPoints = this.ensureMinimumCurveAltitude(
           configWithPlane.controlPoints,
           earthRadius,
           minCurveAltitude,
@@ -757,7 +983,7 @@ export class FlightUtils {
         elevationOffset: params.elevationOffset,
         flightData: null,
       });
-      const normalizedPoints = this.normalizeControlPoints(
+      const normalizedPoints = this.ensureMinimumCurveAltitude(
         config.controlPoints,
         earthRadius,
         minCurveAltitude,
@@ -789,6 +1015,7 @@ export class FlightUtils {
    * @param earthRadius - Earth radius
    * @param minCurveAltitude - Minimum curve altitude
    * @param assignRandomPlaneFn - Function to assign random plane
+   * @param resolveCurveColorFn - Function to resolve the route color
    * @param resolvePaneColorFn - Function to resolve pane color
    * @param resolveAnimationSpeedFn - Function to resolve animation speed
    * @param mergedCurves - Merged curves renderer
@@ -800,6 +1027,9 @@ export class FlightUtils {
     earthRadius: number,
     minCurveAltitude: number,
     assignRandomPlaneFn: (config: Partial<FlightConfig>) => FlightConfig,
+    resolveCurveColorFn: (
+      config: Partial<FlightConfig>,
+    ) => number | GradientColorConfig,
     resolvePaneColorFn: (config: Partial<FlightConfig>) => number,
     resolveAnimationSpeedFn: (config: Record<string, any>) => number,
     mergedCurves: Curves | null,
@@ -808,7 +1038,7 @@ export class FlightUtils {
       const randomConfig = this.generateRandomFlightConfig({
         numControlPoints: 2,
       });
-      const normalizedPoints = this.normalizeControlPoints(
+      const normalizedPoints = this.ensureMinimumCurveAltitude(
         randomConfig.controlPoints,
         earthRadius,
         minCurveAltitude,
@@ -841,7 +1071,7 @@ export class FlightUtils {
       flight.setControlPoints(this.cloneControlPoints(normalizedPoints));
       flight.setPaneElevation(updatedConfig.elevationOffset);
       flight.setPaneTextureIndex(updatedConfig.paneTextureIndex);
-      flight.setCurveColor(updatedConfig.curveColor);
+      flight.setCurveColor(resolveCurveColorFn(updatedConfig));
       const paneColor = resolvePaneColorFn(updatedConfig);
       flight.setPaneColor(paneColor);
       const speed = resolveAnimationSpeedFn(updatedConfig);
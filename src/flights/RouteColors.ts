@@ -0,0 +1,313 @@
+import * as THREE from "three";
+import { FlightFilter } from "./FlightFilter.ts";
+import { FlightUtils } from "./FlightUtils.ts";
+import { CurveGeometry } from "../curves/CurveGeometry.ts";
+import { vector3ToLatLng } from "../common/Utils.ts";
+import type { Geolocation } from "../common/Data.ts";
+import type {
+  ColorPaletteName,
+  GradientColorConfig,
+  RouteColorInput,
+  RouteColorMapping,
+  RouteColorMode,
+} from "../common/Types.js";
+
+// Evenly spaced stops of the matplotlib colormaps (and Google's Turbo)
+const PALETTES: Record<ColorPaletteName, number[]> = {
+  Viridis: [
+    0x440154, 0x472d7b, 0x3b528b, 0x2c728e, 0x21918c, 0x28ae80, 0x5ec962,
+    0xaddc30, 0xfde725,
+  ],
+  Magma: [
+    0x000004, 0x1c1044, 0x4f127b, 0x812581, 0xb5367a, 0xe55964, 0xfb8761,
+    0xfec287, 0xfcfdbf,
+  ],
+  Plasma: [
+    0x0d0887, 0x4c02a1, 0x7e03a8, 0xa92395, 0xcc4778, 0xe66c5c, 0xf89540,
+    0xfdc527, 0xf0f921,
+  ],
+  Inferno: [
+    0x000004, 0x1f0c48, 0x550f6d, 0x88226a, 0xba3655, 0xe35933, 0xf98e09,
+    0xf8c932, 0xfcffa4,
+  ],
+  Turbo: [
+    0x30123b, 0x4662d7, 0x36aaf9, 0x1ae4b6, 0x72fe5e, 0xc8ef34, 0xfaba39,
+    0xf66b19, 0x7a0403,
+  ],
+};
+
+// Tableau 10 for the most common categories; the rest get golden-angle hues
+const CATEGORY_COLORS = [
+  0x4e79a7, 0xf28e2b, 0xe15759, 0x76b7b2, 0x59a14f, 0xedc948, 0xb07aa1,
+  0xff9da7, 0x9c755f, 0xbab0ac,
+];
+const GOLDEN_ANGLE_TURNS = 0.381966;
+
+// Routes without a value for the mapped field
+const MISSING_VALUE_COLOR = 0x666666;
+const DEFAULT_ROUTE_COLOR = 0x4488ff;
+
+export const ROUTE_COLOR_MODES: RouteColorMode[] = [
+  "Departure",
+  "Solid",
+  "Distance",
+  "Category",
+  "Numeric",
+];
+
+export const COLOR_PALETTES = Object.keys(PALETTES) as ColorPaletteName[];
+
+/**
+ * RouteColors - Maps routes to colors for one RouteColorMapping.
+ * Scales are fitted to the routes given on construction (the distance or
+ * field range, and the category order), so a route keeps its color however
+ * many flights are shown. Colors are hex numbers or a departure gradient
+ * configuration, the same values FlightConfig.curveColor holds, so they can
+ * be sent to the flight build worker and compared with built curves.
+ */
+export class RouteColors {
+  private readonly mapping: RouteColorMapping;
+  private readonly categories = new Map<string, number>();
+  private min = 0;
+  private max = 0;
+
+  /**
+   * @param mapping - Mode, field, palette and solid color
+   * @param routes - Routes the scales span
+   */
+  constructor(mapping: RouteColorMapping, routes: RouteColorInput[]) {
+    this.mapping = { ...mapping };
+
+    if (mapping.mode === "Category") {
+      this.fitCategories(routes);
+    } else if (mapping.mode === "Distance" || mapping.mode === "Numeric") {
+      this.fitRange(routes);
+    }
+  }
+
+  /**
+   * Color of a route's curve
+   */
+  public resolveCurveColor(
+    route: RouteColorInput,
+  ): number | GradientColorConfig {
+    switch (this.mapping.mode) {
+      case "Solid":
+        return this.mapping.solidColor;
+      case "Distance":
+        return this.mapValue(RouteColors.getRouteDistance(route));
+      case "Numeric":
+        return this.mapValue(
+          RouteColors.getNumericValue(route.flightData, this.mapping.field),
+        );
+      case "Category": {
+        const category = RouteColors.getCategory(
+          route.flightData,
+          this.mapping.field,
+        );
+        if (category === null) return MISSING_VALUE_COLOR;
+        // Categories missing from the fitted routes are appended
+        if (!this.categories.has(category)) {
+          this.categories.set(category, this.categories.size);
+        }
+        return RouteColors.getCategoryColor(this.categories.get(category)!);
+      }
+      default:
+        return (
+          FlightUtils.createGradientColorConfig(route.flightData?.departure) ??
+          RouteColors.normalizeColor(route.curveColor)
+        );
+    }
+  }
+
+  /**
+   * Single color for a route's plane; gradients give their midpoint
+   */
+  public resolvePaneColor(route: RouteColorInput): number {
+    const color = this.resolveCurveColor(route);
+    if (typeof color === "number") {
+      return color;
+    }
+    const params = CurveGeometry.computeGradientParams(color);
+    return params
+      ? CurveGeometry.getColorForProgress(params, 0.5).getHex()
+      : DEFAULT_ROUTE_COLOR;
+  }
+
+  /**
+   * A curve color as a hex number or gradient configuration
+   * @param color - FlightConfig.curveColor; undefined gets the default
+   */
+  static normalizeColor(
+    color: number | THREE.Color | GradientColorConfig | undefined,
+  ): number | GradientColorConfig {
+    if (color instanceof THREE.Color) {
+      return color.getHex();
+    }
+    if (typeof color === "object" && color?.type === "gradient") {
+      return color;
+    }
+    // Black (0) is a valid color, so only a missing value gets the default
+    return typeof color === "number" ? color : DEFAULT_ROUTE_COLOR;
+  }
+
+  /**
+   * Sample a palette, interpolating between its stops
+   * @param palette - Palette name; unknown names fall back to Viridis
+   * @param t - Position from 0 to 1
+   */
+  static samplePalette(
+    palette: string,
+    t: number,
+    target: THREE.Color = new THREE.Color(),
+  ): THREE.Color {
+    const stops = PALETTES[palette as ColorPaletteName] ?? PALETTES.Viridis;
+    const position = THREE.MathUtils.clamp(t, 0, 1) * (stops.length - 1);
+    const index = Math.min(Math.floor(position), stops.length - 2);
+    return target
+      .setHex(stops[index])
+      .lerp(new THREE.Color(stops[index + 1]), position - index);
+  }
+
+  static getCategoryColor(index: number): number {
+    if (index < CATEGORY_COLORS.length) {
+      return CATEGORY_COLORS[index];
+    }
+    const hue = ((index - CATEGORY_COLORS.length) * GOLDEN_ANGLE_TURNS) % 1;
+    return new THREE.Color().setHSL(hue, 0.65, 0.55).getHex();
+  }
+
+  /**
+   * Read a flightData field; dots reach into nested objects
+   * @param flightData - Flight data entry
+   * @param field - e.g. "airline" or "departure.country"
+   */
+  static getFieldValue(flightData: unknown, field: string): unknown {
+    if (!flightData || typeof field !== "string" || !field.trim()) {
+      return undefined;
+    }
+    return field
+      .trim()
+      .split(".")
+      .reduce<unknown>(
+        (value, key) =>
+          value !== null && typeof value === "object"
+            ? (value as Record<string, unknown>)[key]
+            : undefined,
+        flightData,
+      );
+  }
+
+  /**
+   * Category of a field: lists use their first entry
+   * @returns The value as text, or null when it is missing
+   */
+  static getCategory(flightData: unknown, field: string): string | null {
+    let value = this.getFieldValue(flightData, field);
+    if (Array.isArray(value)) {
+      value = value[0];
+    }
+    if (value === undefined || value === null || value === "") {
+      return null;
+    }
+    return String(value);
+  }
+
+  /**
+   * Numeric value of a field: lists count their entries and numeric text
+   * is parsed
+   * @returns The value, or null when it is missing or not a number
+   */
+  static getNumericValue(flightData: unknown, field: string): number | null {
+    const value = this.getFieldValue(flightData, field);
+    if (Array.isArray(value)) {
+      return value.length;
+    }
+    if (typeof value === "boolean") {
+      return value ? 1 : 0;
+    }
+    if (typeof value === "string" && !value.trim()) {
+      return null;
+    }
+    const numeric = typeof value === "string" ? Number(value) : value;
+    return typeof numeric === "number" && Number.isFinite(numeric)
+      ? numeric
+      : null;
+  }
+
+  /**
+   * Great-circle length of a route in kilometres, from its flight data or
+   * else from the ends of its control points
+   */
+  static getRouteDistance(route: RouteColorInput): number | null {
+    const points = route.controlPoints ?? [];
+    const first = points[0];
+    const last = points[points.length - 1];
+    const departure =
+      this.toGeolocation(route.flightData?.departure) ??
+      (first ? vector3ToLatLng(first, first.length()) : null);
+    const arrival =
+      this.toGeolocation(route.flightData?.arrival) ??
+      (last ? vector3ToLatLng(last, last.length()) : null);
+
+    return departure && arrival
+      ? FlightFilter.routeDistanceKm(departure, arrival)
+      : null;
+  }
+
+  private mapValue(value: number | null): number {
+    if (value === null) return MISSING_VALUE_COLOR;
+
+    const t =
+      this.max > this.min ? (value - this.min) / (this.max - this.min) : 0.5;
+    return RouteColors.samplePalette(this.mapping.palette, t).getHex();
+  }
+
+  private fitRange(routes: RouteColorInput[]): void {
+    let min = Infinity;
+    let max = -Infinity;
+    routes.forEach((route) => {
+      const value =
+        this.mapping.mode === "Distance"
+          ? RouteColors.getRouteDistance(route)
+          : RouteColors.getNumericValue(route.flightData, this.mapping.field);
+      if (value === null) return;
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    });
+
+    if (min <= max) {
+      this.min = min;
+      this.max = max;
+    }
+  }
+
+  // Most common categories first, so they get the distinct palette colors
+  private fitCategories(routes: RouteColorInput[]): void {
+    const counts = new Map<string, number>();
+    routes.forEach((route) => {
+      const category = RouteColors.getCategory(
+        route.flightData,
+        this.mapping.field,
+      );
+      if (category !== null) {
+        counts.set(category, (counts.get(category) ?? 0) + 1);
+      }
+    });
+
+    [...counts.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .forEach(([category], index) => this.categories.set(category, index));
+  }
+
+  private static toGeolocation(point: unknown): Geolocation | null {
+    if (!point || typeof point !== "object") return null;
+    const { lat, lng } = point as Partial<Geolocation>;
+    return typeof lat === "number" &&
+      Number.isFinite(lat) &&
+      typeof lng === "number" &&
+      Number.isFinite(lng)
+      ? { lat, lng }
+      : null;
+  }
+}
@@ -0,0 +1,304 @@
+import * as THREE from "three";
+import type { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
+import type { PlanesShader } from "../planes/PlanesShader.ts";
+import type { ChaseCameraMode, ChaseCameraOptions } from "../common/Types.js";
+
+// Chase mode offset from the plane in world units (Earth radius is 3000)
+const CHASE_DISTANCE = 420;
+const CHASE_HEIGHT = 140;
+// Orbit mode starting distance and zoom limits around the plane
+const ORBIT_DISTANCE = 600;
+const ORBIT_MIN_DISTANCE = 120;
+const ORBIT_MAX_DISTANCE = 4000;
+// Exponential approach rate (per second) when easing onto the plane
+const FOLLOW_SMOOTHING = 4;
+// Seconds to ease back to the globe view when following stops
+const RETURN_DURATION = 1;
+
+/**
+ * ChaseCameraManager - Follows a selected plane along its route.
+ * Plane poses come from PlanesShader.getPaneTransform, the CPU mirror of
+ * panes.vert, so the camera stays locked on the GPU-drawn plane.
+ * While following, OrbitControls is paused (Chase) or re-targeted on the
+ * plane (Orbit); stop() eases back out and hands control back to it.
+ */
+export class ChaseCameraManager {
+  private camera: THREE.PerspectiveCamera;
+  private controls: OrbitControls;
+  private getMergedPanes: () => PlanesShader | null;
+  private onStop: (() => void) | undefined;
+  private mode: ChaseCameraMode;
+  private followIndex = -1;
+  private entering = false; // Orbit mode: still easing onto the plane
+
+  // Plane pose this frame and last frame
+  private readonly planePosition = new THREE.Vector3();
+  private readonly planeDirection = new THREE.Vector3();
+  private readonly lastPlanePosition = new THREE.Vector3();
+
+  // OrbitControls state to restore when following ends
+  private savedMinDistance = 0;
+  private savedMaxDistance = Infinity;
+  private savedDistance = 0;
+  private readonly savedUp = new THREE.Vector3(0, 1, 0);
+
+  // Transition back to the globe view
+  private returning = false;
+  private returnElapsed = 0;
+  private readonly returnFromPosition = new THREE.Vector3();
+  private readonly returnToPosition = new THREE.Vector3();
+  private readonly returnFromTarget = new THREE.Vector3();
+  private readonly returnFromUp = new THREE.Vector3();
+
+  private readonly tempVector = new THREE.Vector3();
+  private readonly tempUp = new THREE.Vector3();
+
+  constructor(options: ChaseCameraOptions) {
+    this.camera = options.camera;
+    this.controls = options.controls;
+    this.getMergedPanes = options.getMergedPanes;
+    this.onStop = options.onStop;
+    this.mode = options.mode || "Chase";
+  }
+
+  /**
+   * Start following a plane
+   * @param index - Pane index of the plane
+   * @returns false when the plane is not currently drawn
+   */
+  public follow(index: number): boolean {
+    const mergedPanes = this.getMergedPanes();
+    if (
+      !mergedPanes ||
+      !mergedPanes.getPaneTransform(
+        index,
+        this.planePosition,
+        this.planeDirection,
+      )
+    ) {
+      return false;
+    }
+
+    if (!this.isActive()) {
+      this.savedMinDistance = this.controls.minDistance;
+      this.savedMaxDistance = this.controls.maxDistance;
+      this.savedDistance = this.camera.position.length();
+      this.savedUp.copy(this.camera.up);
+    }
+
+    this.returning = false;
+    this.followIndex = index;
+    this.lastPlanePosition.copy(this.planePosition);
+    this.applyMode();
+    return true;
+  }
+
+  /**
+   * Stop following and ease back to the globe view, then resume OrbitControls
+   */
+  public stop(): void {
+    if (this.followIndex < 0) return;
+
+    this.followIndex = -1;
+    this.entering = false;
+    this.returning = true;
+    this.returnElapsed = 0;
+    this.controls.enabled = false;
+
+    this.returnFromPosition.copy(this.camera.position);
+    this.returnFromTarget.copy(this.controls.target);
+    this.returnFromUp.copy(this.camera.up);
+    this.returnToPosition
+      .copy(this.camera.position)
+      .setLength(this.getReturnDistance());
+  }
+
+  /**
+   * Hand control back to OrbitControls immediately, e.g. when the planes
+   * are rebuilt and the followed index no longer exists
+   */
+  public reset(): void {
+    if (!this.isActive()) return;
+
+    this.followIndex = -1;
+    this.camera.position.setLength(this.getReturnDistance());
+    this.finishReturn();
+  }
+
+  /**
+   * Move the camera for this frame; call after the planes are updated
+   * @param delta - Real seconds since the previous frame
+   */
+  public update(delta: number): void {
+    if (this.returning) {
+      this.updateReturn(delta);
+      return;
+    }
+    if (this.followIndex < 0) return;
+
+    // Landed or hidden planes keep their last pose
+    const mergedPanes = this.getMergedPanes();
+    mergedPanes?.getPaneTransform(
+      this.followIndex,
+      this.planePosition,
+      this.planeDirection,
+    );
+
+    const alpha = 1 - Math.exp(-FOLLOW_SMOOTHING * Math.max(delta, 0));
+    if (this.mode === "Chase") {
+      this.updateChase(alpha);
+    } else {
+      this.updateOrbit(alpha);
+    }
+    this.lastPlanePosition.copy(this.planePosition);
+  }
+
+  /**
+   * True while OrbitControls must not update the camera
+   */
+  public isControllingCamera(): boolean {
+    return this.returning || (this.followIndex >= 0 && this.mode === "Chase");
+  }
+
+  public isFollowing(): boolean {
+    return this.followIndex >= 0;
+  }
+
+  public getFollowedIndex(): number {
+    return this.followIndex;
+  }
+
+  public getMode(): ChaseCameraMode {
+    return this.mode;
+  }
+
+  public setMode(mode: ChaseCameraMode): void {
+    this.mode = mode;
+    if (this.followIndex >= 0) {
+      this.applyMode();
+    }
+  }
+
+  /**
+   * Switch between trailing the plane and orbiting it
+   */
+  public toggleMode(): ChaseCameraMode {
+    this.setMode(this.mode === "Chase" ? "Orbit" : "Chase");
+    return this.mode;
+  }
+
+  private isActive(): boolean {
+    return this.followIndex >= 0 || this.returning;
+  }
+
+  private applyMode(): void {
+    if (this.mode === "Chase") {
+      this.controls.enabled = false;
+      this.entering = false;
+      return;
+    }
+
+    // OrbitControls orbits around its own up axis; drop the chase roll
+    this.camera.up.copy(this.savedUp);
+    this.controls.enabled = true;
+    this.controls.minDistance = ORBIT_MIN_DISTANCE;
+    // No distance clamp until the camera has closed in, to avoid a jump
+    this.controls.maxDistance = Infinity;
+    this.entering = true;
+  }
+
+  private updateChase(alpha: number): void {
+    const up = this.tempUp.copy(this.planePosition).normalize();
+    const desired = this.tempVector
+      .copy(this.planePosition)
+      .addScaledVector(this.planeDirection, -CHASE_DISTANCE)
+      .addScaledVector(up, CHASE_HEIGHT);
+
+    // Ride along with the plane, then ease toward the chase offset
+    this.camera.position
+      .add(this.planePosition)
+      .sub(this.lastPlanePosition)
+      .lerp(desired, alpha);
+    this.camera.up.lerp(up, alpha).normalize();
+    this.camera.lookAt(this.planePosition);
+
+    // Keep the orbit target on the plane for a seamless switch to Orbit
+    this.controls.target.copy(this.planePosition);
+  }
+
+  private updateOrbit(alpha: number): void {
+    // Carry the camera and target along with the plane
+    const shift = this.tempVector.subVectors(
+      this.planePosition,
+      this.lastPlanePosition,
+    );
+    this.camera.position.add(shift);
+    this.controls.target.add(shift);
+
+    if (!this.entering) return;
+
+    this.controls.target.lerp(this.planePosition, alpha);
+    const offset = this.tempVector.subVectors(
+      this.camera.position,
+      this.controls.target,
+    );
+    const distance = offset.length();
+    const goal = Math.min(distance, ORBIT_DISTANCE);
+    const nextDistance = THREE.MathUtils.lerp(distance, goal, alpha);
+    if (distance > 0) {
+      this.camera.position
+        .copy(this.controls.target)
+        .add(offset.multiplyScalar(nextDistance / distance));
+    }
+
+    if (
+      this.controls.target.distanceTo(this.planePosition) < 1 &&
+      nextDistance <= ORBIT_DISTANCE + 1
+    ) {
+      this.entering = false;
+      this.controls.maxDistance = ORBIT_MAX_DISTANCE;
+    }
+  }
+
+  private updateReturn(delta: number): void {
+    this.returnElapsed += Math.max(delta, 0);
+    const progress = Math.min(this.returnElapsed / RETURN_DURATION, 1);
+    const eased = progress * progress * (3 - 2 * progress);
+
+    this.camera.position.lerpVectors(
+      this.returnFromPosition,
+      this.returnToPosition,
+      eased,
+    );
+    this.controls.target.copy(this.returnFromTarget).multiplyScalar(1 - eased);
+    this.camera.up
+      .lerpVectors(this.returnFromUp, this.savedUp, eased)
+      .normalize();
+    this.camera.lookAt(this.controls.target);
+
+    if (progress >= 1) {
+      this.finishReturn();
+    }
+  }
+
+  private finishReturn(): void {
+    this.returning = false;
+    this.entering = false;
+    this.camera.up.copy(this.savedUp);
+    this.controls.target.set(0, 0, 0);
+    this.controls.minDistance = this.savedMinDistance;
+    this.controls.maxDistance = this.savedMaxDistance;
+    this.controls.enabled = true;
+    this.camera.lookAt(this.controls.target);
+    this.onStop?.();
+  }
+
+  // Distance from the globe center to return to: where the user was before
+  private getReturnDistance(): number {
+    return THREE.MathUtils.clamp(
+      this.savedDistance,
+      this.savedMinDistance,
+      this.savedMaxDistance,
+    );
+  }
+}
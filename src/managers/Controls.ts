@@ -4,6 +4,11 @@ import {
   hoursToTimeString,
   timeStringToHours,
 } from "../common/Utils.js";
+import { TIME_RATE_PRESETS } from "../common/SimulationClock.ts";
+import {
+  COLOR_PALETTES,
+  ROUTE_COLOR_MODES,
+} from "../flights/RouteColors.ts";
 import type {
   GUIFolder,
   ColorObject,
@@ -17,6 +22,7 @@ import type {
   KnownControllerKey,
   Controllers,
   FlightConfig,
+  FlightFilterQuery,
   GuiParams,
   SvgAtlasInfo,
 } from "../common/Types.js";
@@ -26,23 +32,28 @@ import type { PlanesShader } from "../planes/PlanesShader.ts";
 import { FlightPathManager } from "./FlightPathManager.ts";
 import { PlaneControlsManager } from "./PlaneControlsManager.ts";
 import { FlightControlsManager } from "./FlightControlsManager.ts";
+import { FlightFilterManager } from "./FlightFilterManager.ts";
+import { RouteColorManager } from "./RouteColorManager.ts";
 import type { EarthControlsManager } from "./EarthControlsManager.ts";
 
 interface ControlsManagerDependencies {
-  maxFlights: number;
+  getMaxFlights: () => number;
   getFlights: () => Flight[];
   getPreGeneratedConfigs: () => FlightConfig[];
-  getFlightCount: () => number;
+  getDataFlights: () => any[];
+  getSlotRangeEnd: () => number;
   getMergedCurves: () => Curves | null;
   getMergedPanes: () => PlanesShader | null;
   ensurePlaneDefaults: (config?: Partial<FlightConfig>) => FlightConfig;
   assignRandomPlane: (config?: Partial<FlightConfig>) => FlightConfig;
   resolvePaneColor: (config?: Partial<FlightConfig>) => number;
-  createFlightFromConfig: (config: FlightConfig, index: number) => Flight;
+  addFlight: (config: FlightConfig) => Flight | null;
+  removeFlight: (flight: Flight) => void;
   loadSvgTexture: () => Promise<{ texture: any; info: SvgAtlasInfo }>;
   initializeFlights: () => void;
   fallbackPlaneColor: number;
   parsePlaneColor: (value: any, fallback: number) => number;
+  onFilterChange?: (matchCount: number) => void;
 }
 
 interface ControlsContext {
@@ -50,8 +61,15 @@ interface ControlsContext {
   managerDependencies: ControlsManagerDependencies;
   earthControlsManager?: EarthControlsManager | null;
   resetSunPosition: () => void;
+  openDatasetPicker?: () => void;
+  exportGeoJSON?: () => void;
 }
 
+// Simulated seconds per real second offered by the Time Rate control
+const TIME_RATE_OPTIONS: Record<string, number> = Object.fromEntries(
+  TIME_RATE_PRESETS.map((rate) => [`${rate}x`, rate]),
+);
+
 /**
  * Controls class manages all GUI controls and their interactions
  */
@@ -65,6 +83,8 @@ export class Controls {
   private flightPathManager: FlightPathManager | null = null;
   private flightControlsManager: FlightControlsManager | null = null;
   private planeControlsManager: PlaneControlsManager | null = null;
+  private flightFilterManager: FlightFilterManager | null = null;
+  private routeColorManager: RouteColorManager | null = null;
 
   constructor() {
     this.guiControls = {
@@ -73,19 +93,55 @@ export class Controls {
       realTimeSun: true,
       simulatedTime: getCurrentUtcTimeHours(),
       timeDisplay: hoursToTimeString(getCurrentUtcTimeHours()),
+      clockPlaying: true,
+      timeRate: 1,
       nightBrightness: 15,
       dayBrightness: 80,
       planeSize: 100,
       planeColor: "#ff6666",
       animationSpeed: 0.1,
+      groundSpeed: false,
       elevationOffset: 15,
+      trailLength: 300,
+      trailOpacity: 0.6,
       paneStyle: "SVG",
       hidePlane: false,
       dashSize: 40,
       gapSize: 40,
+      dashFlowSpeed: 60,
+      lineWidth: 1.5,
+      pathMode: "Full",
+      colorBy: "Departure",
+      colorField: "airline",
+      colorPalette: "Viridis",
+      routeColor: "#4488ff",
+      planesFollowColors: false,
       hidePath: false,
       numFlights: 5000,
       returnFlight: true,
+      loadDataset: () => {
+        if (this.callbacks.onLoadDataset) {
+          this.callbacks.onLoadDataset();
+        }
+      },
+      exportGeoJSON: () => {
+        if (this.callbacks.onExportGeoJSON) {
+          this.callbacks.onExportGeoJSON();
+        }
+      },
+      filterDepartureCountry: "",
+      filterArrivalCountry: "",
+      filterAirline: "",
+      filterMinDistance: 0,
+      filterMaxDistance: 0,
+      filterBounds: "",
+      filterBoundsTarget: "Either",
+      filterMatches: "",
+      clearFilter: () => {
+        if (this.callbacks.onClearFilter) {
+          this.callbacks.onClearFilter();
+        }
+      },
     };
   }
 
@@ -113,10 +169,22 @@ export class Controls {
       this.guiControls.animationSpeed = options.animationSpeed;
     }
 
+    if (options.groundSpeed !== undefined) {
+      this.guiControls.groundSpeed = !!options.groundSpeed;
+    }
+
     if (options.elevationOffset !== undefined) {
       this.guiControls.elevationOffset = options.elevationOffset;
     }
 
+    if (options.trailLength !== undefined) {
+      this.guiControls.trailLength = options.trailLength;
+    }
+
+    if (options.trailOpacity !== undefined) {
+      this.guiControls.trailOpacity = options.trailOpacity;
+    }
+
     if (options.paneStyle !== undefined) {
       this.guiControls.paneStyle = options.paneStyle;
     }
@@ -133,6 +201,38 @@ export class Controls {
       this.guiControls.gapSize = options.gapSize;
     }
 
+    if (options.dashFlowSpeed !== undefined) {
+      this.guiControls.dashFlowSpeed = options.dashFlowSpeed;
+    }
+
+    if (options.lineWidth !== undefined) {
+      this.guiControls.lineWidth = options.lineWidth;
+    }
+
+    if (options.pathMode !== undefined) {
+      this.guiControls.pathMode = options.pathMode;
+    }
+
+    if (options.colorBy !== undefined) {
+      this.guiControls.colorBy = options.colorBy;
+    }
+
+    if (options.colorField !== undefined) {
+      this.guiControls.colorField = options.colorField;
+    }
+
+    if (options.colorPalette !== undefined) {
+      this.guiControls.colorPalette = options.colorPalette;
+    }
+
+    if (options.routeColor !== undefined) {
+      this.guiControls.routeColor = this.formatColor(options.routeColor);
+    }
+
+    if (options.planesFollowColors !== undefined) {
+      this.guiControls.planesFollowColors = !!options.planesFollowColors;
+    }
+
     if (options.hidePath !== undefined) {
       this.guiControls.hidePath = !!options.hidePath;
     }
@@ -148,14 +248,22 @@ export class Controls {
     this.setupFlightControls({
       flightCountRange: options.flightCountRange || {},
     });
+    this.setupFilterControls();
     this.setupFlightPathControls({
       dashRange: options.dashRange || {},
       gapRange: options.gapRange || {},
+      dashFlowRange: options.dashFlowRange || {},
+      lineWidthRange: options.lineWidthRange || {},
+      pathModeOptions: options.pathModeOptions || ["Full", "Flown"],
+      colorByOptions: options.colorByOptions || [],
+      colorPaletteOptions: options.colorPaletteOptions || [],
     });
     this.setupPlaneControls({
       sizeRange: options.planeSizeRange || {},
       speedRange: options.speedRange || {},
       elevationRange: options.elevationRange || {},
+      trailLengthRange: options.trailLengthRange || {},
+      trailOpacityRange: options.trailOpacityRange || {},
       paneStyleOptions: options.paneStyleOptions || ["Pane", "SVG"],
     });
     this.setupEarthControls();
@@ -189,15 +297,31 @@ export class Controls {
     return this.planeControlsManager;
   }
 
+  public getFlightFilterManager(): FlightFilterManager | null {
+    return this.flightFilterManager;
+  }
+
+  public getRouteColorManager(): RouteColorManager | null {
+    return this.routeColorManager;
+  }
+
   private createCallbacksFromContext(): ControlsCallbacks {
     if (!this.context) {
       return {};
     }
 
-    const { params, earthControlsManager, resetSunPosition } = this.context;
+    const {
+      params,
+      earthControlsManager,
+      resetSunPosition,
+      openDatasetPicker,
+      exportGeoJSON,
+    } = this.context;
     const planeControlsManager = this.planeControlsManager;
     const flightPathManager = this.flightPathManager;
     const flightControlsManager = this.flightControlsManager;
+    const flightFilterManager = this.flightFilterManager;
+    const routeColorManager = this.routeColorManager;
 
     return {
       onDayNightEffectChange: (value: boolean) => {
@@ -239,6 +363,18 @@ export class Controls {
           realTimeSun?.updateDisplay();
         }
       },
+      onClockPlayingChange: (value: boolean) => {
+        earthControlsManager?.setPlaying(value);
+        const { clockPlaying, realTimeSun } = this.controllers;
+        clockPlaying?.updateDisplay();
+        realTimeSun?.updateDisplay();
+      },
+      onTimeRateChange: (value: number) => {
+        earthControlsManager?.setTimeRate(value);
+        const { timeRate, realTimeSun } = this.controllers;
+        timeRate?.updateDisplay();
+        realTimeSun?.updateDisplay();
+      },
       onPlaneSizeChange: (value: number) => {
         planeControlsManager?.setPlaneSize(value);
       },
@@ -249,9 +385,18 @@ export class Controls {
         params.randomSpeed = false;
         planeControlsManager?.setAnimationSpeed(value);
       },
+      onGroundSpeedChange: (value: boolean) => {
+        planeControlsManager?.setGroundSpeed(value);
+      },
       onPlaneElevationChange: (value: number) => {
         planeControlsManager?.setElevationOffset(value);
       },
+      onTrailLengthChange: (value: number) => {
+        planeControlsManager?.setTrailLength(value);
+      },
+      onTrailOpacityChange: (value: number) => {
+        planeControlsManager?.setTrailOpacity(value);
+      },
       onPaneStyleChange: (value: string) => {
         planeControlsManager?.setPaneStyle(value);
       },
@@ -264,6 +409,30 @@ export class Controls {
       onGapSizeChange: (value: number) => {
         flightPathManager?.setGapSize(value);
       },
+      onDashFlowSpeedChange: (value: number) => {
+        flightPathManager?.setDashFlowSpeed(value);
+      },
+      onLineWidthChange: (value: number) => {
+        flightPathManager?.setLineWidth(value);
+      },
+      onPathModeChange: (value: string) => {
+        flightPathManager?.setPathMode(value);
+      },
+      onColorByChange: (value: string) => {
+        routeColorManager?.setColorBy(value);
+      },
+      onColorFieldChange: (value: string) => {
+        routeColorManager?.setColorField(value);
+      },
+      onColorPaletteChange: (value: string) => {
+        routeColorManager?.setColorPalette(value);
+      },
+      onRouteColorChange: (value: string) => {
+        routeColorManager?.setRouteColor(value);
+      },
+      onPlanesFollowColorsChange: (value: boolean) => {
+        routeColorManager?.setPlanesFollowColors(value);
+      },
       onHidePathChange: (value: boolean) => {
         flightPathManager?.setHidePath(value);
       },
@@ -273,6 +442,18 @@ export class Controls {
       onReturnFlightChange: (value: boolean) => {
         flightControlsManager?.setReturnFlight(value);
       },
+      onLoadDataset: () => {
+        openDatasetPicker?.();
+      },
+      onExportGeoJSON: () => {
+        exportGeoJSON?.();
+      },
+      onFilterChange: (changes: Partial<FlightFilterQuery>) => {
+        flightFilterManager?.setQuery(changes);
+      },
+      onClearFilter: () => {
+        flightFilterManager?.clear();
+      },
     };
   }
 
@@ -285,9 +466,12 @@ export class Controls {
     this.flightPathManager = new FlightPathManager({
       params,
       getMergedCurves: deps.getMergedCurves,
-      getFlightCount: deps.getFlightCount,
+      getSlotRangeEnd: deps.getSlotRangeEnd,
       syncDashSize: (value: number) => this.syncDashSize(value),
       syncGapSize: (value: number) => this.syncGapSize(value),
+      syncDashFlowSpeed: (value: number) => this.syncDashFlowSpeed(value),
+      syncLineWidth: (value: number) => this.syncLineWidth(value),
+      syncPathMode: (value: string) => this.syncPathMode(value),
       syncHidePath: (value: boolean) => this.syncHidePath(value),
     });
 
@@ -296,6 +480,7 @@ export class Controls {
       getFlights: deps.getFlights,
       getPreGeneratedConfigs: deps.getPreGeneratedConfigs,
       getMergedPanes: deps.getMergedPanes,
+      getSlotRangeEnd: deps.getSlotRangeEnd,
       loadSvgTexture: deps.loadSvgTexture,
       initializeFlights: deps.initializeFlights,
       fallbackPlaneColor: deps.fallbackPlaneColor,
@@ -304,14 +489,43 @@ export class Controls {
       syncPlaneColor: (value: number) => this.syncPlaneColor(value),
       syncPaneStyle: (value: string) => this.syncPaneStyle(value),
       syncAnimationSpeed: (value: number) => this.syncAnimationSpeed(value),
+      syncGroundSpeed: (value: boolean) => this.syncGroundSpeed(value),
       syncElevationOffset: (value: number) =>
         this.syncPlaneElevation(value),
+      syncTrailLength: (value: number) => this.syncTrailLength(value),
+      syncTrailOpacity: (value: number) => this.syncTrailOpacity(value),
       syncHidePlane: (value: boolean) => this.syncHidePlane(value),
     });
 
+    this.routeColorManager = new RouteColorManager({
+      params,
+      getFlights: deps.getFlights,
+      getPreGeneratedConfigs: deps.getPreGeneratedConfigs,
+      getDataFlights: deps.getDataFlights,
+      getMergedCurves: deps.getMergedCurves,
+      resolvePaneColor: deps.resolvePaneColor,
+      parseColor: deps.parsePlaneColor,
+      syncColorBy: (value: string) => this.syncColorBy(value),
+      syncColorField: (value: string) => this.syncColorField(value),
+      syncColorPalette: (value: string) => this.syncColorPalette(value),
+      syncRouteColor: (value: number) => this.syncRouteColor(value),
+      syncPlanesFollowColors: (value: boolean) =>
+        this.syncPlanesFollowColors(value),
+    });
+
+    this.flightFilterManager = new FlightFilterManager({
+      getFlights: deps.getFlights,
+      onFilterChange: deps.onFilterChange,
+      syncFilter: (
+        query: FlightFilterQuery,
+        matchCount: number,
+        boundsError: string | null,
+      ) => this.syncFilter(query, matchCount, boundsError),
+    });
+
     this.flightControlsManager = new FlightControlsManager({
       params,
-      maxFlights: deps.maxFlights,
+      getMaxFlights: deps.getMaxFlights,
       getFlights: deps.getFlights,
       getPreGeneratedConfigs: deps.getPreGeneratedConfigs,
       getMergedCurves: deps.getMergedCurves,
@@ -319,6 +533,9 @@ export class Controls {
       ensurePlaneDefaults: deps.ensurePlaneDefaults,
       assignRandomPlane: deps.assignRandomPlane,
       resolvePaneColor: deps.resolvePaneColor,
+      resolveCurveColor: (config: Partial<FlightConfig> = {}) =>
+        this.routeColorManager?.resolveCurveColor(config) ??
+        config.curveColor,
       resolveAnimationSpeed: (config: Partial<FlightConfig> = {}) => {
         return (
           this.planeControlsManager?.resolveAnimationSpeed(
@@ -326,7 +543,8 @@ export class Controls {
           ) ?? params.animationSpeed
         );
       },
-      createFlightFromConfig: deps.createFlightFromConfig,
+      addFlight: deps.addFlight,
+      removeFlight: deps.removeFlight,
       updatePathVisibility: () => {
         this.flightPathManager?.applyVisibility();
       },
@@ -335,6 +553,9 @@ export class Controls {
           this.planeControlsManager.setHidePlane(params.hidePlane);
         }
       },
+      updateFilter: () => {
+        this.flightFilterManager?.applyFilter();
+      },
       syncFlightCount: (value: number) => this.syncFlightCount(value),
       syncReturnFlight: (value: boolean) => this.syncReturnFlight(value),
     });
@@ -446,6 +667,24 @@ export class Controls {
         }
       });
 
+    this.controllers.clockPlaying = earthFolder
+      .add(this.guiControls, "clockPlaying")
+      .name("Play Clock")
+      .onChange((value: boolean) => {
+        if (this.callbacks.onClockPlayingChange) {
+          this.callbacks.onClockPlayingChange(value);
+        }
+      });
+
+    this.controllers.timeRate = earthFolder
+      .add(this.guiControls, "timeRate", TIME_RATE_OPTIONS)
+      .name("Time Rate")
+      .onChange((value: number | string) => {
+        if (this.callbacks.onTimeRateChange) {
+          this.callbacks.onTimeRateChange(Number(value));
+        }
+      });
+
     earthFolder.open();
   }
 
@@ -515,14 +754,119 @@ export class Controls {
         }
       });
 
+    this.controllers.loadDataset = flightControlsFolder
+      .add(this.guiControls, "loadDataset")
+      .name("Load Dataset...");
+
+    this.controllers.exportGeoJSON = flightControlsFolder
+      .add(this.guiControls, "exportGeoJSON")
+      .name("Export GeoJSON");
+
     flightControlsFolder.open();
   }
 
+  private setupFilterControls(): void {
+    if (!this.gui) return;
+
+    const filterFolder: GUIFolder = this.gui.addFolder("Filter Flights");
+
+    // Text criteria apply when the field is committed, not on every keystroke
+    const textFields: Array<
+      [KnownControllerKey, keyof FlightFilterQuery, string]
+    > = [
+      ["filterDepartureCountry", "departureCountry", "Departure Country"],
+      ["filterArrivalCountry", "arrivalCountry", "Arrival Country"],
+      ["filterAirline", "airline", "Airline"],
+    ];
+    textFields.forEach(([controlKey, queryKey, label]) => {
+      this.controllers[controlKey] = filterFolder
+        .add(this.guiControls, controlKey)
+        .name(label)
+        .onFinishChange((value: string) => {
+          if (this.callbacks.onFilterChange) {
+            this.callbacks.onFilterChange({ [queryKey]: value });
+          }
+        });
+    });
+
+    this.controllers.filterMinDistance = filterFolder
+      .add(this.guiControls, "filterMinDistance", 0, 20000, 100)
+      .name("Min Distance (km)")
+      .onFinishChange((value: number) => {
+        if (this.callbacks.onFilterChange) {
+          this.callbacks.onFilterChange({ minDistance: value });
+        }
+      });
+
+    this.controllers.filterMaxDistance = filterFolder
+      .add(this.guiControls, "filterMaxDistance", 0, 20000, 100)
+      .name("Max Distance (0 = any)")
+      .onFinishChange((value: number) => {
+        if (this.callbacks.onFilterChange) {
+          this.callbacks.onFilterChange({ maxDistance: value });
+        }
+      });
+
+    this.controllers.filterBounds = filterFolder
+      .add(this.guiControls, "filterBounds")
+      .name("Bounds (S,W,N,E)")
+      .onFinishChange((value: string) => {
+        if (this.callbacks.onFilterChange) {
+          this.callbacks.onFilterChange({ bounds: value });
+        }
+      });
+
+    this.controllers.filterBoundsTarget = filterFolder
+      .add(this.guiControls, "filterBoundsTarget", [
+        "Either",
+        "Both",
+        "Departure",
+        "Arrival",
+      ])
+      .name("Bounds Apply To")
+      .onChange((value: string) => {
+        if (this.callbacks.onFilterChange) {
+          this.callbacks.onFilterChange({
+            boundsTarget: value as FlightFilterQuery["boundsTarget"],
+          });
+        }
+      });
+
+    this.controllers.filterMatches = filterFolder
+      .add(this.guiControls, "filterMatches")
+      .name("Matching");
+    // Read-only summary of the filter result
+    if (this.controllers.filterMatches?.__input) {
+      this.controllers.filterMatches.__input.disabled = true;
+      this.controllers.filterMatches.__input.style.cursor = "default";
+      this.controllers.filterMatches.__input.style.backgroundColor = "#2a2a2a";
+      this.controllers.filterMatches.__input.style.color = "#cccccc";
+    }
+
+    filterFolder.add(this.guiControls, "clearFilter").name("Clear Filter");
+  }
+
   private setupFlightPathControls(config: FlightPathControlsConfig = {}): void {
     if (!this.gui) return;
 
     const dashRange = config.dashRange || {};
     const gapRange = config.gapRange || {};
+    const dashFlowRange = config.dashFlowRange || {};
+    const lineWidthRange = config.lineWidthRange || {};
+    const pathModeOptions =
+      Array.isArray(config.pathModeOptions) &&
+      config.pathModeOptions.length > 0
+        ? config.pathModeOptions
+        : ["Full", "Flown"];
+    const colorByOptions =
+      Array.isArray(config.colorByOptions) && config.colorByOptions.length > 0
+        ? config.colorByOptions
+        : ROUTE_COLOR_MODES;
+    const colorPaletteOptions =
+      Array.isArray(config.colorPaletteOptions) &&
+      config.colorPaletteOptions.length > 0
+        ? config.colorPaletteOptions
+        : COLOR_PALETTES;
 
     const dashMin = dashRange.min !== undefined ? dashRange.min : 0;
     const dashMax = dashRange.max !== undefined ? dashRange.max : 2000;
@@ -532,6 +876,19 @@ export class Controls {
     const gapMax = gapRange.max !== undefined ? gapRange.max : 2000;
     const gapStep = gapRange.step !== undefined ? gapRange.step : 1;
 
+    const dashFlowMin = dashFlowRange.min !== undefined ? dashFlowRange.min : 0;
+    const dashFlowMax =
+      dashFlowRange.max !== undefined ? dashFlowRange.max : 500;
+    const dashFlowStep =
+      dashFlowRange.step !== undefined ? dashFlowRange.step : 5;
+
+    const lineWidthMin =
+      lineWidthRange.min !== undefined ? lineWidthRange.min : 0.5;
+    const lineWidthMax =
+      lineWidthRange.max !== undefined ? lineWidthRange.max : 8;
+    const lineWidthStep =
+      lineWidthRange.step !== undefined ? lineWidthRange.step : 0.5;
+
     const flightPathFolder: GUIFolder = this.gui.addFolder("Flight Path");
 
     this.controllers.dashSize = flightPathFolder
@@ -560,6 +917,87 @@ export class Controls {
       gapSizeController.step(gapStep);
     }
 
+    this.controllers.dashFlowSpeed = flightPathFolder
+      .add(this.guiControls, "dashFlowSpeed", dashFlowMin, dashFlowMax)
+      .name("Dash Flow")
+      .onChange((value: number) => {
+        if (this.callbacks.onDashFlowSpeedChange) {
+          this.callbacks.onDashFlowSpeedChange(value);
+        }
+      });
+    const dashFlowController = this.controllers.dashFlowSpeed;
+    if (dashFlowController && typeof dashFlowController.step === "function") {
+      dashFlowController.step(dashFlowStep);
+    }
+
+    this.controllers.lineWidth = flightPathFolder
+      .add(this.guiControls, "lineWidth", lineWidthMin, lineWidthMax)
+      .name("Line Width")
+      .onChange((value: number) => {
+        if (this.callbacks.onLineWidthChange) {
+          this.callbacks.onLineWidthChange(value);
+        }
+      });
+    const lineWidthController = this.controllers.lineWidth;
+    if (lineWidthController && typeof lineWidthController.step === "function") {
+      lineWidthController.step(lineWidthStep);
+    }
+
+    this.controllers.pathMode = flightPathFolder
+      .add(this.guiControls, "pathMode", pathModeOptions)
+      .name("Path Mode")
+      .onChange((value: string) => {
+        if (this.callbacks.onPathModeChange) {
+          this.callbacks.onPathModeChange(value);
+        }
+      });
+
+    this.controllers.colorBy = flightPathFolder
+      .add(this.guiControls, "colorBy", colorByOptions)
+      .name("Color By")
+      .onChange((value: string) => {
+        if (this.callbacks.onColorByChange) {
+          this.callbacks.onColorByChange(value);
+        }
+      });
+
+    // Recoloring every route per keystroke is wasteful; apply on commit
+    this.controllers.colorField = flightPathFolder
+      .add(this.guiControls, "colorField")
+      .name("Color Field")
+      .onFinishChange((value: string) => {
+        if (this.callbacks.onColorFieldChange) {
+          this.callbacks.onColorFieldChange(value);
+        }
+      });
+
+    this.controllers.colorPalette = flightPathFolder
+      .add(this.guiControls, "colorPalette", colorPaletteOptions)
+      .name("Palette")
+      .onChange((value: string) => {
+        if (this.callbacks.onColorPaletteChange) {
+          this.callbacks.onColorPaletteChange(value);
+        }
+      });
+
+    this.controllers.routeColor = flightPathFolder
+      .addColor(this.guiControls, "routeColor")
+      .name("Route Color")
+      .onChange((value: string) => {
+        if (this.callbacks.onRouteColorChange) {
+          this.callbacks.onRouteColorChange(value);
+        }
+      });
+
+    this.controllers.planesFollowColors = flightPathFolder
+      .add(this.guiControls, "planesFollowColors")
+      .name("Tint Planes")
+      .onChange((value: boolean) => {
+        if (this.callbacks.onPlanesFollowColorsChange) {
+          this.callbacks.onPlanesFollowColorsChange(value);
+        }
+      });
+
     this.controllers.hidePath = flightPathFolder
       .add(this.guiControls, "hidePath")
       .name("Hide Path")
@@ -578,6 +1016,8 @@ export class Controls {
     const sizeRange = config.sizeRange || {};
     const speedRange = config.speedRange || {};
     const elevationRange = config.elevationRange || {};
+    const trailLengthRange = config.trailLengthRange || {};
+    const trailOpacityRange = config.trailOpacityRange || {};
     const paneStyleOptions =
       Array.isArray(config.paneStyleOptions) &&
       config.paneStyleOptions.length > 0
@@ -599,6 +1039,20 @@ export class Controls {
     const elevationStep =
       elevationRange.step !== undefined ? elevationRange.step : 5;
 
+    const trailLengthMin =
+      trailLengthRange.min !== undefined ? trailLengthRange.min : 0;
+    const trailLengthMax =
+      trailLengthRange.max !== undefined ? trailLengthRange.max : 2000;
+    const trailLengthStep =
+      trailLengthRange.step !== undefined ? trailLengthRange.step : 10;
+
+    const trailOpacityMin =
+      trailOpacityRange.min !== undefined ? trailOpacityRange.min : 0;
+    const trailOpacityMax =
+      trailOpacityRange.max !== undefined ? trailOpacityRange.max : 1;
+    const trailOpacityStep =
+      trailOpacityRange.step !== undefined ? trailOpacityRange.step : 0.05;
+
     const planeFolder: GUIFolder = this.gui.addFolder("Plane Controls");
 
     this.controllers.planeSize = planeFolder
@@ -639,6 +1093,15 @@ export class Controls {
       animationSpeedController.step(speedStep);
     }
 
+    this.controllers.groundSpeed = planeFolder
+      .add(this.guiControls, "groundSpeed")
+      .name("Constant Ground Speed")
+      .onChange((value: boolean) => {
+        if (this.callbacks.onGroundSpeedChange) {
+          this.callbacks.onGroundSpeedChange(value);
+        }
+      });
+
     this.controllers.elevationOffset = planeFolder
       .add(this.guiControls, "elevationOffset", elevationMin, elevationMax)
       .name("Plane Elevation")
@@ -655,6 +1118,38 @@ export class Controls {
       elevationOffsetController.step(elevationStep);
     }
 
+    this.controllers.trailLength = planeFolder
+      .add(this.guiControls, "trailLength", trailLengthMin, trailLengthMax)
+      .name("Trail Length")
+      .onChange((value: number) => {
+        if (this.callbacks.onTrailLengthChange) {
+          this.callbacks.onTrailLengthChange(value);
+        }
+      });
+    const trailLengthController = this.controllers.trailLength;
+    if (
+      trailLengthController &&
+      typeof trailLengthController.step === "function"
+    ) {
+      trailLengthController.step(trailLengthStep);
+    }
+
+    this.controllers.trailOpacity = planeFolder
+      .add(this.guiControls, "trailOpacity", trailOpacityMin, trailOpacityMax)
+      .name("Trail Opacity")
+      .onChange((value: number) => {
+        if (this.callbacks.onTrailOpacityChange) {
+          this.callbacks.onTrailOpacityChange(value);
+        }
+      });
+    const trailOpacityController = this.controllers.trailOpacity;
+    if (
+      trailOpacityController &&
+      typeof trailOpacityController.step === "function"
+    ) {
+      trailOpacityController.step(trailOpacityStep);
+    }
+
     this.controllers.paneStyle = planeFolder
       .add(this.guiControls, "paneStyle", paneStyleOptions)
       .name("Plane Style")
@@ -676,6 +1171,20 @@ export class Controls {
     planeFolder.open();
   }
 
+  /**
+   * Refresh the Earth Controls time widgets after the simulation clock was
+   * changed from outside the GUI (e.g. the timeline bar)
+   */
+  public syncTimeControls(): void {
+    const { realTimeSun, timeDisplay, timeSlider, clockPlaying, timeRate } =
+      this.controllers;
+    realTimeSun?.updateDisplay();
+    timeDisplay?.updateDisplay();
+    timeSlider?.updateDisplay();
+    clockPlaying?.updateDisplay();
+    timeRate?.updateDisplay();
+  }
+
   public setPlaneSize(value: number): void {
     if (typeof value !== "number") {
       return;
@@ -730,6 +1239,21 @@ export class Controls {
     }
   }
 
+  public setGroundSpeed(value: unknown): void {
+    const boolValue = Boolean(value);
+    this.guiControls.groundSpeed = boolValue;
+    if (this.controllers.groundSpeed) {
+      this.controllers.groundSpeed.updateDisplay();
+    }
+  }
+
+  public syncGroundSpeed(value: unknown): void {
+    const boolValue = Boolean(value);
+    if (this.guiControls.groundSpeed !== boolValue) {
+      this.setGroundSpeed(boolValue);
+    }
+  }
+
   public setPlaneElevation(value: number): void {
     if (typeof value !== "number") {
       return;
@@ -749,6 +1273,44 @@ export class Controls {
     }
   }
 
+  public setTrailLength(value: number): void {
+    if (typeof value !== "number") {
+      return;
+    }
+    this.guiControls.trailLength = value;
+    if (this.controllers.trailLength) {
+      this.controllers.trailLength.updateDisplay();
+    }
+  }
+
+  public syncTrailLength(value: number): void {
+    if (typeof value !== "number") {
+      return;
+    }
+    if (this.guiControls.trailLength !== value) {
+      this.setTrailLength(value);
+    }
+  }
+
+  public setTrailOpacity(value: number): void {
+    if (typeof value !== "number") {
+      return;
+    }
+    this.guiControls.trailOpacity = value;
+    if (this.controllers.trailOpacity) {
+      this.controllers.trailOpacity.updateDisplay();
+    }
+  }
+
+  public syncTrailOpacity(value: number): void {
+    if (typeof value !== "number") {
+      return;
+    }
+    if (this.guiControls.trailOpacity !== value) {
+      this.setTrailOpacity(value);
+    }
+  }
+
   public setPaneStyle(value: string): void {
     if (typeof value !== "string") {
       return;
@@ -821,6 +1383,149 @@ export class Controls {
     }
   }
 
+  public setDashFlowSpeed(value: number): void {
+    if (typeof value !== "number") {
+      return;
+    }
+    this.guiControls.dashFlowSpeed = value;
+    if (this.controllers.dashFlowSpeed) {
+      this.controllers.dashFlowSpeed.updateDisplay();
+    }
+  }
+
+  public syncDashFlowSpeed(value: number): void {
+    if (typeof value !== "number") {
+      return;
+    }
+    if (this.guiControls.dashFlowSpeed !== value) {
+      this.setDashFlowSpeed(value);
+    }
+  }
+
+  public setLineWidth(value: number): void {
+    if (typeof value !== "number") {
+      return;
+    }
+    this.guiControls.lineWidth = value;
+    if (this.controllers.lineWidth) {
+      this.controllers.lineWidth.updateDisplay();
+    }
+  }
+
+  public syncLineWidth(value: number): void {
+    if (typeof value !== "number") {
+      return;
+    }
+    if (this.guiControls.lineWidth !== value) {
+      this.setLineWidth(value);
+    }
+  }
+
+  public setPathMode(value: string): void {
+    if (typeof value !== "string") {
+      return;
+    }
+    this.guiControls.pathMode = value;
+    if (this.controllers.pathMode) {
+      this.controllers.pathMode.updateDisplay();
+    }
+  }
+
+  public syncPathMode(value: string): void {
+    if (typeof value !== "string") {
+      return;
+    }
+    if (this.guiControls.pathMode !== value) {
+      this.setPathMode(value);
+    }
+  }
+
+  public setColorBy(value: string): void {
+    if (typeof value !== "string") {
+      return;
+    }
+    this.guiControls.colorBy = value;
+    if (this.controllers.colorBy) {
+      this.controllers.colorBy.updateDisplay();
+    }
+  }
+
+  public syncColorBy(value: string): void {
+    if (typeof value !== "string") {
+      return;
+    }
+    if (this.guiControls.colorBy !== value) {
+      this.setColorBy(value);
+    }
+  }
+
+  public setColorField(value: string): void {
+    if (typeof value !== "string") {
+      return;
+    }
+    this.guiControls.colorField = value;
+    if (this.controllers.colorField) {
+      this.controllers.colorField.updateDisplay();
+    }
+  }
+
+  public syncColorField(value: string): void {
+    if (typeof value !== "string") {
+      return;
+    }
+    if (this.guiControls.colorField !== value) {
+      this.setColorField(value);
+    }
+  }
+
+  public setColorPalette(value: string): void {
+    if (typeof value !== "string") {
+      return;
+    }
+    this.guiControls.colorPalette = value;
+    if (this.controllers.colorPalette) {
+      this.controllers.colorPalette.updateDisplay();
+    }
+  }
+
+  public syncColorPalette(value: string): void {
+    if (typeof value !== "string") {
+      return;
+    }
+    if (this.guiControls.colorPalette !== value) {
+      this.setColorPalette(value);
+    }
+  }
+
+  public setRouteColor(value: string | number | ColorObject): void {
+    this.guiControls.routeColor = this.formatColor(value);
+    if (this.controllers.routeColor) {
+      this.controllers.routeColor.updateDisplay();
+    }
+  }
+
+  public syncRouteColor(value: string | number | ColorObject): void {
+    const formatted = this.formatColor(value);
+    if (this.guiControls.routeColor !== formatted) {
+      this.setRouteColor(formatted);
+    }
+  }
+
+  public setPlanesFollowColors(value: unknown): void {
+    const boolValue = Boolean(value);
+    this.guiControls.planesFollowColors = boolValue;
+    if (this.controllers.planesFollowColors) {
+      this.controllers.planesFollowColors.updateDisplay();
+    }
+  }
+
+  public syncPlanesFollowColors(value: unknown): void {
+    const boolValue = Boolean(value);
+    if (this.guiControls.planesFollowColors !== boolValue) {
+      this.setPlanesFollowColors(boolValue);
+    }
+  }
+
   public setHidePath(value: unknown): void {
     const boolValue = Boolean(value);
     this.guiControls.hidePath = boolValue;
@@ -855,6 +1560,28 @@ export class Controls {
     }
   }
 
+  /**
+   * Update the Flight Count slider bounds, e.g. after a new dataset is loaded
+   * @param range - New slider range
+   */
+  public setFlightCountRange(range: RangeConfig): void {
+    const controller = this.controllers.numFlights;
+    if (!controller) {
+      return;
+    }
+
+    if (range.min !== undefined && typeof controller.min === "function") {
+      controller.min(range.min);
+    }
+    if (range.max !== undefined && typeof controller.max === "function") {
+      controller.max(range.max);
+    }
+    if (range.step !== undefined && typeof controller.step === "function") {
+      controller.step(range.step);
+    }
+    controller.updateDisplay();
+  }
+
   public setReturnFlight(value: unknown): void {
     const boolValue = Boolean(value);
     this.guiControls.returnFlight = boolValue;
@@ -870,6 +1597,45 @@ export class Controls {
     }
   }
 
+  /**
+   * Show the filter query and how many flights it matches
+   * @param boundsError - Why the bounds text is ignored, or null
+   */
+  public syncFilter(
+    query: FlightFilterQuery,
+    matchCount: number,
+    boundsError: string | null = null,
+  ): void {
+    this.syncGuiControl("filterDepartureCountry", query.departureCountry);
+    this.syncGuiControl("filterArrivalCountry", query.arrivalCountry);
+    this.syncGuiControl("filterAirline", query.airline);
+    this.syncGuiControl("filterMinDistance", query.minDistance);
+    this.syncGuiControl("filterMaxDistance", query.maxDistance);
+    this.syncGuiControl("filterBounds", query.bounds);
+    this.syncGuiControl("filterBoundsTarget", query.boundsTarget);
+    this.syncGuiControl(
+      "filterMatches",
+      boundsError ? `Bounds ignored: ${boundsError}` : `${matchCount} flights`,
+    );
+
+    // Mark bounds the filter cannot use
+    const boundsInput = this.controllers.filterBounds?.__input;
+    if (boundsInput) {
+      boundsInput.style.color = boundsError ? "#ff6666" : "";
+      boundsInput.title = boundsError ?? "";
+    }
+  }
+
+  private syncGuiControl<K extends KnownControllerKey & keyof GuiControls>(
+    key: K,
+    value: GuiControls[K],
+  ): void {
+    if (this.guiControls[key] !== value) {
+      this.guiControls[key] = value;
+      this.controllers[key]?.updateDisplay();
+    }
+  }
+
   private formatColor(value: string | number | ColorObject): string {
     if (typeof value === "string") {
       return value.startsWith("#") ? value : `#${value}`;
@@ -1,5 +1,6 @@
 import * as THREE from "three";
 import type { Earth } from "../space/Earth.ts";
+import type { SimulationClock } from "../common/SimulationClock.ts";
 import type { EarthControlsOptions } from "../common/Types.js";
 
 export class EarthControlsManager {
@@ -8,7 +9,7 @@ export class EarthControlsManager {
   private getGuiControls: () => any;
   private updateLighting: () => void;
   private getEarth: () => Earth | null;
-  private getCurrentUtcTimeHours: () => number;
+  private simulationClock: SimulationClock;
   private hoursToTimeString: (hours: number) => string;
   private baseAmbientColor: THREE.Color | null;
   private baseAmbientIntensity: number;
@@ -27,7 +28,7 @@ export class EarthControlsManager {
     this.getGuiControls = options.getGuiControls;
     this.updateLighting = options.updateLighting;
     this.getEarth = options.getEarth;
-    this.getCurrentUtcTimeHours = options.getCurrentUtcTimeHours;
+    this.simulationClock = options.simulationClock;
     this.hoursToTimeString = options.hoursToTimeString;
 
     this.baseAmbientColor = this.ambientLight.color.clone();
@@ -35,9 +36,9 @@ export class EarthControlsManager {
     this.baseDirectionalIntensity = this.directionalLight.intensity;
     this.dayBrightnessPercent = this.DEFAULT_DAY_PERCENT;
     this.nightBrightnessPercent = this.DEFAULT_NIGHT_PERCENT;
-    this.simulatedTime = this.getCurrentUtcTimeHours();
+    this.simulatedTime = this.simulationClock.getUtcHours();
     this.timeDisplay = this.hoursToTimeString(this.simulatedTime);
-    this.realTimeSunEnabled = true;
+    this.realTimeSunEnabled = this.simulationClock.isFollowingRealTime();
   }
 
   public toggleDayNightEffect(enabled: boolean): void {
@@ -119,16 +120,47 @@ export class EarthControlsManager {
   }
 
   public enableRealTimeSun(): void {
-    this.realTimeSunEnabled = true;
-    this.updateSimulatedTime(this.getCurrentUtcTimeHours(), {
-      disableRealTime: false,
-    });
+    this.simulationClock.followRealTime();
+    this.syncFromClock();
   }
 
   public disableRealTimeSun(): void {
     if (!this.realTimeSunEnabled) return;
-    this.realTimeSunEnabled = false;
-    this.syncGui();
+    this.simulationClock.stopFollowingRealTime();
+    this.syncFromClock();
+  }
+
+  /**
+   * Play or pause the simulation clock
+   */
+  public setPlaying(playing: boolean): void {
+    if (playing) {
+      this.simulationClock.play();
+    } else {
+      this.simulationClock.pause();
+    }
+    this.syncFromClock();
+  }
+
+  /**
+   * Set the simulation clock rate multiplier (1x to 10000x)
+   */
+  public setTimeRate(rate: number): void {
+    this.simulationClock.setRate(rate);
+    this.syncFromClock();
+  }
+
+  /**
+   * Jump the simulation clock to a moment in time
+   * @param time - UTC time in epoch milliseconds
+   */
+  public seek(time: number): void {
+    this.simulationClock.seek(time);
+    this.syncFromClock();
+  }
+
+  public getSimulationClock(): SimulationClock {
+    return this.simulationClock;
   }
 
   public initializeFromGui(gui: any): void {
@@ -143,26 +175,36 @@ export class EarthControlsManager {
       this.DEFAULT_NIGHT_PERCENT,
     );
 
-    const initialTime = this.clampTime(gui.simulatedTime);
-    this.simulatedTime = initialTime;
-    this.timeDisplay =
-      typeof gui.timeDisplay === "string"
-        ? gui.timeDisplay
-        : this.hoursToTimeString(initialTime);
-    this.realTimeSunEnabled = Boolean(gui.realTimeSun);
+    if (gui.realTimeSun) {
+      this.simulationClock.followRealTime();
+    } else {
+      this.simulationClock.setUtcHours(this.clampTime(gui.simulatedTime));
+    }
+    if (typeof gui.timeRate === "number") {
+      this.simulationClock.setRate(gui.timeRate);
+    }
+    if (gui.clockPlaying === false) {
+      this.simulationClock.pause();
+    }
 
-    this.syncGui();
+    this.syncFromClock();
   }
 
+  /**
+   * Get the simulated UTC time of day in hours, read from the simulation clock
+   */
   public getSimulatedTime(): number {
-    if (this.realTimeSunEnabled) {
-      this.updateSimulatedTime(this.getCurrentUtcTimeHours(), {
-        disableRealTime: false,
-      });
-    }
+    this.syncFromClock();
     return this.simulatedTime;
   }
 
+  /**
+   * Get the full simulated UTC moment (date and time of day)
+   */
+  public getSimulatedDate(): Date {
+    return this.simulationClock.getDate();
+  }
+
   public getTimeDisplay(): string {
     return this.timeDisplay;
   }
@@ -172,7 +214,7 @@ export class EarthControlsManager {
   }
 
   public setSimulatedTime(hours: number): void {
-    this.updateSimulatedTime(hours, { disableRealTime: true });
+    this.updateSimulatedTime(hours);
   }
 
   public setTimeDisplay(value: string): boolean {
@@ -183,7 +225,7 @@ export class EarthControlsManager {
     if (!Number.isFinite(parsed)) {
       return false;
     }
-    this.updateSimulatedTime(parsed, { disableRealTime: true });
+    this.updateSimulatedTime(parsed);
     return true;
   }
 
@@ -203,16 +245,16 @@ export class EarthControlsManager {
     return THREE.MathUtils.clamp(numeric, 0, 24);
   }
 
-  private updateSimulatedTime(
-    hours: number,
-    options: { disableRealTime?: boolean } = {},
-  ): void {
-    const clamped = this.clampTime(hours);
-    this.simulatedTime = clamped;
-    this.timeDisplay = this.hoursToTimeString(clamped);
-    if (options.disableRealTime) {
-      this.realTimeSunEnabled = false;
-    }
+  private updateSimulatedTime(hours: number): void {
+    // Seeking stops the clock from following real time
+    this.simulationClock.setUtcHours(this.clampTime(hours));
+    this.syncFromClock();
+  }
+
+  private syncFromClock(): void {
+    this.simulatedTime = this.simulationClock.getUtcHours();
+    this.timeDisplay = this.hoursToTimeString(this.simulatedTime);
+    this.realTimeSunEnabled = this.simulationClock.isFollowingRealTime();
     this.syncGui();
   }
 
@@ -246,5 +288,11 @@ export class EarthControlsManager {
     if (guiControls.realTimeSun !== this.realTimeSunEnabled) {
       guiControls.realTimeSun = this.realTimeSunEnabled;
     }
+    if (guiControls.clockPlaying !== this.simulationClock.isPlaying()) {
+      guiControls.clockPlaying = this.simulationClock.isPlaying();
+    }
+    if (guiControls.timeRate !== this.simulationClock.getRate()) {
+      guiControls.timeRate = this.simulationClock.getRate();
+    }
   }
 }
@@ -8,11 +8,12 @@ import type {
   FlightConfig,
   FlightParams,
   FlightControlsManagerOptions,
+  GradientColorConfig,
 } from "../common/Types.js";
 
 export class FlightControlsManager {
   private params: FlightParams;
-  private maxFlights: number;
+  private getMaxFlights: () => number;
   private getFlights: () => Flight[];
   private getPreGeneratedConfigs: () => FlightConfig[];
   private getMergedCurves: () => Curves | null;
@@ -24,16 +25,21 @@ export class FlightControlsManager {
     config?: Partial<FlightConfig>,
   ) => FlightConfig;
   private resolvePaneColor: (config?: Partial<FlightConfig>) => number;
+  private resolveCurveColor: (
+    config?: Partial<FlightConfig>,
+  ) => number | GradientColorConfig;
   private resolveAnimationSpeed: (config?: Partial<FlightConfig>) => number;
-  private createFlightFromConfig: (config: FlightConfig, index: number) => Flight;
+  private addFlight: (config: FlightConfig) => Flight | null;
+  private removeFlight: (flight: Flight) => void;
   private updatePathVisibility: () => void;
   private updatePlaneVisibility: () => void;
+  private updateFilter?: () => void;
   private syncFlightCount?: (value: number) => void;
   private syncReturnFlight?: (value: boolean) => void;
 
   constructor(options: FlightControlsManagerOptions) {
     this.params = options.params;
-    this.maxFlights = options.maxFlights;
+    this.getMaxFlights = options.getMaxFlights;
     this.getFlights = options.getFlights;
     this.getPreGeneratedConfigs = options.getPreGeneratedConfigs;
     this.getMergedCurves = options.getMergedCurves;
@@ -41,10 +47,13 @@ export class FlightControlsManager {
     this.ensurePlaneDefaults = options.ensurePlaneDefaults;
     this.assignRandomPlane = options.assignRandomPlane;
     this.resolvePaneColor = options.resolvePaneColor;
+    this.resolveCurveColor = options.resolveCurveColor;
     this.resolveAnimationSpeed = options.resolveAnimationSpeed;
-    this.createFlightFromConfig = options.createFlightFromConfig;
+    this.addFlight = options.addFlight;
+    this.removeFlight = options.removeFlight;
     this.updatePathVisibility = options.updatePathVisibility;
     this.updatePlaneVisibility = options.updatePlaneVisibility;
+    this.updateFilter = options.updateFilter;
     this.syncFlightCount = options.syncFlightCount;
     this.syncReturnFlight = options.syncReturnFlight;
   }
@@ -58,7 +67,7 @@ export class FlightControlsManager {
     const availableConfigs =
       preGeneratedConfigs.length > 0
         ? preGeneratedConfigs.length
-        : this.maxFlights;
+        : this.getMaxFlights();
     const desiredCount = Math.min(Math.max(target, 0), availableConfigs);
 
     this.params.numFlights = desiredCount;
@@ -87,7 +96,7 @@ export class FlightControlsManager {
             baseConfig.controlPoints,
           ),
           segmentCount: this.params.segmentCount,
-          curveColor: baseConfig.curveColor,
+          curveColor: this.resolveCurveColor(baseConfig),
           paneSize: this.params.planeSize,
           paneColor: this.resolvePaneColor(baseConfig),
           animationSpeed: this.resolveAnimationSpeed(baseConfig),
@@ -99,20 +108,26 @@ export class FlightControlsManager {
           returnFlight: this.params.returnFlight,
         };
 
-        const flight = this.createFlightFromConfig(flightConfig, i);
-        flights.push(flight);
+        // addFlight registers the flight in the list
+        if (!this.addFlight(flightConfig)) {
+          break;
+        }
       }
 
       if (mergedCurves && typeof mergedCurves.applyUpdates === "function") {
         mergedCurves.applyUpdates();
       }
     } else if (desiredCount < currentCount) {
-      const flightsToRemove = flights.splice(desiredCount);
-      flightsToRemove.forEach((flight) => flight.remove());
+      // Newest flights go first; their slots return to the free-list
+      const flightsToRemove = flights.slice(desiredCount).reverse();
+      flightsToRemove.forEach((flight) => this.removeFlight(flight));
     }
 
     this.updatePathVisibility();
     this.updatePlaneVisibility();
+    if (typeof this.updateFilter === "function") {
+      this.updateFilter();
+    }
 
     if (typeof this.syncFlightCount === "function") {
       this.syncFlightCount(this.params.numFlights);
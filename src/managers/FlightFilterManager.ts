@@ -0,0 +1,101 @@
+import { FlightFilter } from "../flights/FlightFilter.ts";
+import type { Flight } from "../flights/Flight.ts";
+import type {
+  FlightFilterQuery,
+  FlightFilterManagerOptions,
+} from "../common/Types.js";
+
+/**
+ * FlightFilterManager - Shows only the flights matching the filter query.
+ * Flights that fail it are hidden in place (Curves.hideCurve and
+ * PlanesShader.hidePane), so changing the filter never rebuilds the
+ * renderers and only touches the flights whose visibility flips.
+ */
+export class FlightFilterManager {
+  private query: FlightFilterQuery = FlightFilter.createEmptyQuery();
+  private getFlights: () => Flight[];
+  private onFilterChange?: (matchCount: number) => void;
+  private syncFilter?: (
+    query: FlightFilterQuery,
+    matchCount: number,
+    boundsError: string | null,
+  ) => void;
+  private matchCount = 0;
+
+  constructor(options: FlightFilterManagerOptions) {
+    this.getFlights = options.getFlights;
+    this.onFilterChange = options.onFilterChange;
+    this.syncFilter = options.syncFilter;
+  }
+
+  public getQuery(): FlightFilterQuery {
+    return { ...this.query };
+  }
+
+  /**
+   * Change some criteria and re-filter the flights
+   * @param changes - Criteria to replace
+   */
+  public setQuery(changes: Partial<FlightFilterQuery>): void {
+    this.query = { ...this.query, ...changes };
+    this.applyFilter();
+  }
+
+  /**
+   * Show every flight again
+   */
+  public clear(): void {
+    this.query = FlightFilter.createEmptyQuery();
+    this.applyFilter();
+  }
+
+  public isActive(): boolean {
+    return FlightFilter.isActive(this.query);
+  }
+
+  /**
+   * Number of current flights that match the query
+   */
+  public getMatchCount(): number {
+    return this.matchCount;
+  }
+
+  /**
+   * Hide flights that fail the query and show the ones that pass.
+   * Call again after flights are added.
+   * @returns Number of matching flights
+   */
+  public applyFilter(): number {
+    const flights = this.getFlights();
+    const predicate = FlightFilter.createPredicate(this.query);
+    let matchCount = 0;
+    let changed = false;
+
+    flights.forEach((flight) => {
+      const matches =
+        !predicate || predicate(FlightFilter.resolveRoute(flight));
+      if (matches) {
+        matchCount += 1;
+      }
+      if (flight.isFilteredOut() === matches) {
+        flight.setFilteredOut(!matches);
+        changed = true;
+      }
+    });
+
+    this.matchCount = matchCount;
+
+    if (changed && typeof this.onFilterChange === "function") {
+      this.onFilterChange(matchCount);
+    }
+    if (typeof this.syncFilter === "function") {
+      this.syncFilter(
+        this.getQuery(),
+        matchCount,
+        FlightFilter.getBoundsError(this.query.bounds),
+      );
+    }
+
+    return matchCount;
+  }
+}
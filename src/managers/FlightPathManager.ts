@@ -7,17 +7,23 @@ import type {
 export class FlightPathManager {
   private params: FlightPathParams;
   private getMergedCurves: () => Curves | null;
-  private getFlightCount: () => number;
+  private getSlotRangeEnd: () => number;
   private syncDashSize?: (value: number) => void;
   private syncGapSize?: (value: number) => void;
+  private syncDashFlowSpeed?: (value: number) => void;
+  private syncLineWidth?: (value: number) => void;
+  private syncPathMode?: (value: string) => void;
   private syncHidePath?: (value: boolean) => void;
 
   constructor(options: FlightPathManagerOptions) {
     this.params = options.params;
     this.getMergedCurves = options.getMergedCurves;
-    this.getFlightCount = options.getFlightCount;
+    this.getSlotRangeEnd = options.getSlotRangeEnd;
     this.syncDashSize = options.syncDashSize;
     this.syncGapSize = options.syncGapSize;
+    this.syncDashFlowSpeed = options.syncDashFlowSpeed;
+    this.syncLineWidth = options.syncLineWidth;
+    this.syncPathMode = options.syncPathMode;
     this.syncHidePath = options.syncHidePath;
   }
 
@@ -63,11 +69,61 @@ export class FlightPathManager {
     }
   }
 
+  public setDashFlowSpeed(value: number): void {
+    const numeric = Number(value);
+    const dashFlowSpeed = Number.isFinite(numeric)
+      ? numeric
+      : this.params.dashFlowSpeed;
+
+    if (this.params.dashFlowSpeed === dashFlowSpeed) {
+      return;
+    }
+
+    this.params.dashFlowSpeed = dashFlowSpeed;
+    this.getMergedCurves()?.setDashFlowSpeed(dashFlowSpeed);
+
+    if (typeof this.syncDashFlowSpeed === "function") {
+      this.syncDashFlowSpeed(dashFlowSpeed);
+    }
+  }
+
+  public setLineWidth(value: number): void {
+    const numeric = Number(value);
+    const lineWidth =
+      Number.isFinite(numeric) && numeric > 0 ? numeric : this.params.lineWidth;
+
+    if (this.params.lineWidth === lineWidth) {
+      return;
+    }
+
+    this.params.lineWidth = lineWidth;
+    this.getMergedCurves()?.setLineWidth(lineWidth);
+
+    if (typeof this.syncLineWidth === "function") {
+      this.syncLineWidth(lineWidth);
+    }
+  }
+
+  public setPathMode(value: string): void {
+    const pathMode = value === "Flown" ? "Flown" : "Full";
+
+    if (this.params.pathMode === pathMode) {
+      return;
+    }
+
+    this.params.pathMode = pathMode;
+    this.getMergedCurves()?.setProgressiveReveal(pathMode === "Flown");
+
+    if (typeof this.syncPathMode === "function") {
+      this.syncPathMode(pathMode);
+    }
+  }
+
   public applyVisibility(): void {
     const mergedCurves = this.getMergedCurves();
     if (!mergedCurves) return;
 
-    const visibleCount = this.params.hidePath ? 0 : this.getFlightCount();
+    const visibleCount = this.params.hidePath ? 0 : this.getSlotRangeEnd();
     mergedCurves.setVisibleCurveCount(visibleCount);
   }
 
@@ -7,6 +7,7 @@ export class PlaneControlsManager {
   private getFlights: () => Flight[];
   private getPreGeneratedConfigs: () => Array<Record<string, any>>;
   private getMergedPanes: () => PlanesShader | null;
+  private getSlotRangeEnd: () => number;
   private loadSvgTexture: () => Promise<{ texture: any; info: any }>;
   private initializeFlights: () => void;
   private syncPlaneSize?: (value: number) => void;
@@ -15,7 +16,10 @@ export class PlaneControlsManager {
   private parsePlaneColor?: (value: any, fallback: number) => number;
   private fallbackPlaneColor: number;
   private syncAnimationSpeed?: (value: number) => void;
+  private syncGroundSpeed?: (value: boolean) => void;
   private syncElevationOffset?: (value: number) => void;
+  private syncTrailLength?: (value: number) => void;
+  private syncTrailOpacity?: (value: number) => void;
   private syncHidePlane?: (value: boolean) => void;
 
   constructor(options: PlaneControlsManagerOptions) {
@@ -23,6 +27,7 @@ export class PlaneControlsManager {
     this.getFlights = options.getFlights;
     this.getPreGeneratedConfigs = options.getPreGeneratedConfigs;
     this.getMergedPanes = options.getMergedPanes;
+    this.getSlotRangeEnd = options.getSlotRangeEnd;
     this.loadSvgTexture = options.loadSvgTexture;
     this.initializeFlights = options.initializeFlights;
     this.syncPlaneSize = options.syncPlaneSize;
@@ -31,7 +36,10 @@ export class PlaneControlsManager {
     this.parsePlaneColor = options.parsePlaneColor;
     this.fallbackPlaneColor = options.fallbackPlaneColor;
     this.syncAnimationSpeed = options.syncAnimationSpeed;
+    this.syncGroundSpeed = options.syncGroundSpeed;
     this.syncElevationOffset = options.syncElevationOffset;
+    this.syncTrailLength = options.syncTrailLength;
+    this.syncTrailOpacity = options.syncTrailOpacity;
     this.syncHidePlane = options.syncHidePlane;
   }
 
@@ -69,8 +77,11 @@ export class PlaneControlsManager {
 
     this.params.planeColor = normalized;
 
-    const flights = this.getFlights();
-    flights.forEach((flight) => flight.setPaneColor(normalized));
+    // Planes tinted by their routes keep the route colors
+    if (!this.params.planesFollowColors) {
+      const flights = this.getFlights();
+      flights.forEach((flight) => flight.setPaneColor(normalized));
+    }
 
     const configs = this.getPreGeneratedConfigs();
     for (let i = 0; i < configs.length; i++) {
@@ -132,6 +143,22 @@ export class PlaneControlsManager {
     }
   }
 
+  public setGroundSpeed(value: boolean): void {
+    const enabled = Boolean(value);
+    if (this.params.groundSpeed !== enabled) {
+      this.params.groundSpeed = enabled;
+    }
+
+    const mergedPanes = this.getMergedPanes();
+    if (mergedPanes) {
+      mergedPanes.setGroundSpeedMode(enabled);
+    }
+
+    if (typeof this.syncGroundSpeed === "function") {
+      this.syncGroundSpeed(enabled);
+    }
+  }
+
   public setElevationOffset(value: number): void {
     const numeric = Number(value);
     const offset = Number.isFinite(numeric) ? numeric : this.params.elevationOffset;
@@ -161,6 +188,50 @@ export class PlaneControlsManager {
     }
   }
 
+  public setTrailLength(value: number): void {
+    const numeric = Number(value);
+    const trailLength = Number.isFinite(numeric)
+      ? Math.max(0, numeric)
+      : this.params.trailLength;
+
+    if (this.params.trailLength === trailLength) {
+      return;
+    }
+
+    this.params.trailLength = trailLength;
+
+    const mergedPanes = this.getMergedPanes();
+    if (mergedPanes) {
+      mergedPanes.setTrailLength(trailLength);
+    }
+
+    if (typeof this.syncTrailLength === "function") {
+      this.syncTrailLength(trailLength);
+    }
+  }
+
+  public setTrailOpacity(value: number): void {
+    const numeric = Number(value);
+    const trailOpacity = Number.isFinite(numeric)
+      ? Math.min(Math.max(numeric, 0), 1)
+      : this.params.trailOpacity;
+
+    if (this.params.trailOpacity === trailOpacity) {
+      return;
+    }
+
+    this.params.trailOpacity = trailOpacity;
+
+    const mergedPanes = this.getMergedPanes();
+    if (mergedPanes) {
+      mergedPanes.setTrailOpacity(trailOpacity);
+    }
+
+    if (typeof this.syncTrailOpacity === "function") {
+      this.syncTrailOpacity(trailOpacity);
+    }
+  }
+
   public setHidePlane(value: boolean): void {
     const shouldHide = Boolean(value);
     if (this.params.hidePlane !== shouldHide) {
@@ -169,7 +240,7 @@ export class PlaneControlsManager {
 
     const mergedPanes = this.getMergedPanes();
     if (mergedPanes) {
-      const visibleCount = shouldHide ? 0 : this.getFlights().length;
+      const visibleCount = shouldHide ? 0 : this.getSlotRangeEnd();
       if (typeof mergedPanes.setActivePaneCount === "function") {
         mergedPanes.setActivePaneCount(visibleCount);
       }
@@ -0,0 +1,230 @@
+import {
+  COLOR_PALETTES,
+  ROUTE_COLOR_MODES,
+  RouteColors,
+} from "../flights/RouteColors.ts";
+import type { Flight } from "../flights/Flight.ts";
+import type { Curves } from "../curves/Curves.ts";
+import type { Flight as FlightData } from "../common/Data.ts";
+import type {
+  ColorPaletteName,
+  FlightConfig,
+  GradientColorConfig,
+  RouteColorInput,
+  RouteColorManagerOptions,
+  RouteColorMode,
+  RouteColorParams,
+} from "../common/Types.js";
+
+/**
+ * RouteColorManager - Colors routes by the Color By setting and, when
+ * planesFollowColors is on, tints the planes to match. The fitted
+ * RouteColors is kept until the mapping or the routes change; recoloring
+ * rewrites the colors of existing flights without rebuilding the renderers.
+ */
+export class RouteColorManager {
+  private params: RouteColorParams;
+  private getFlights: () => Flight[];
+  private getPreGeneratedConfigs: () => FlightConfig[];
+  private getDataFlights: () => FlightData[];
+  private getMergedCurves: () => Curves | null;
+  private resolvePaneColor: (config?: Partial<FlightConfig>) => number;
+  private parseColor?: (value: unknown, fallback: number) => number;
+  private syncColorBy?: (value: string) => void;
+  private syncColorField?: (value: string) => void;
+  private syncColorPalette?: (value: string) => void;
+  private syncRouteColor?: (value: number) => void;
+  private syncPlanesFollowColors?: (value: boolean) => void;
+  private routeColors: RouteColors | null = null;
+
+  constructor(options: RouteColorManagerOptions) {
+    this.params = options.params;
+    this.getFlights = options.getFlights;
+    this.getPreGeneratedConfigs = options.getPreGeneratedConfigs;
+    this.getDataFlights = options.getDataFlights;
+    this.getMergedCurves = options.getMergedCurves;
+    this.resolvePaneColor = options.resolvePaneColor;
+    this.parseColor = options.parseColor;
+    this.syncColorBy = options.syncColorBy;
+    this.syncColorField = options.syncColorField;
+    this.syncColorPalette = options.syncColorPalette;
+    this.syncRouteColor = options.syncRouteColor;
+    this.syncPlanesFollowColors = options.syncPlanesFollowColors;
+  }
+
+  /**
+   * Curve color of a route under the current mapping
+   */
+  public resolveCurveColor(
+    route: RouteColorInput,
+  ): number | GradientColorConfig {
+    return this.getRouteColors().resolveCurveColor(route);
+  }
+
+  /**
+   * Plane tint of a route under the current mapping
+   */
+  public resolvePlaneTint(route: RouteColorInput): number {
+    return this.getRouteColors().resolvePaneColor(route);
+  }
+
+  /**
+   * Forget the fitted scales; call when the dataset or the generated
+   * routes change
+   */
+  public invalidate(): void {
+    this.routeColors = null;
+  }
+
+  /**
+   * Recolor every flight's route, and its plane when planes follow the
+   * route colors
+   */
+  public applyColors(): void {
+    const flights = this.getFlights();
+    flights.forEach((flight, index) => {
+      const route = this.getRoute(flight, index);
+      flight.setCurveColor(this.resolveCurveColor(route));
+      if (this.params.planesFollowColors) {
+        flight.setPaneColor(this.resolvePaneColor(route));
+      }
+    });
+
+    this.getMergedCurves()?.applyUpdates();
+  }
+
+  public setColorBy(value: string): void {
+    const colorBy = ROUTE_COLOR_MODES.includes(value as RouteColorMode)
+      ? value
+      : this.params.colorBy;
+
+    if (this.params.colorBy === colorBy) {
+      return;
+    }
+
+    this.params.colorBy = colorBy;
+    this.invalidate();
+    this.applyColors();
+
+    if (typeof this.syncColorBy === "function") {
+      this.syncColorBy(colorBy);
+    }
+  }
+
+  public setColorField(value: string): void {
+    const colorField = typeof value === "string" ? value.trim() : "";
+
+    if (this.params.colorField === colorField) {
+      return;
+    }
+
+    this.params.colorField = colorField;
+    this.invalidate();
+    if (
+      this.params.colorBy === "Category" ||
+      this.params.colorBy === "Numeric"
+    ) {
+      this.applyColors();
+    }
+
+    if (typeof this.syncColorField === "function") {
+      this.syncColorField(colorField);
+    }
+  }
+
+  public setColorPalette(value: string): void {
+    const colorPalette = COLOR_PALETTES.includes(value as ColorPaletteName)
+      ? value
+      : this.params.colorPalette;
+
+    if (this.params.colorPalette === colorPalette) {
+      return;
+    }
+
+    this.params.colorPalette = colorPalette;
+    this.invalidate();
+    if (
+      this.params.colorBy === "Distance" ||
+      this.params.colorBy === "Numeric"
+    ) {
+      this.applyColors();
+    }
+
+    if (typeof this.syncColorPalette === "function") {
+      this.syncColorPalette(colorPalette);
+    }
+  }
+
+  public setRouteColor(value: unknown): void {
+    const routeColor =
+      typeof this.parseColor === "function"
+        ? this.parseColor(value, this.params.routeColor)
+        : typeof value === "number"
+          ? value
+          : this.params.routeColor;
+
+    if (this.params.routeColor === routeColor) {
+      return;
+    }
+
+    this.params.routeColor = routeColor;
+    this.invalidate();
+    if (this.params.colorBy === "Solid") {
+      this.applyColors();
+    }
+
+    if (typeof this.syncRouteColor === "function") {
+      this.syncRouteColor(routeColor);
+    }
+  }
+
+  public setPlanesFollowColors(value: boolean): void {
+    const planesFollowColors = Boolean(value);
+
+    if (this.params.planesFollowColors === planesFollowColors) {
+      return;
+    }
+
+    this.params.planesFollowColors = planesFollowColors;
+    // resolvePaneColor falls back to the Plane Color once this is off
+    this.getFlights().forEach((flight, index) => {
+      flight.setPaneColor(this.resolvePaneColor(this.getRoute(flight, index)));
+    });
+
+    if (typeof this.syncPlanesFollowColors === "function") {
+      this.syncPlanesFollowColors(planesFollowColors);
+    }
+  }
+
+  private getRouteColors(): RouteColors {
+    if (!this.routeColors) {
+      const dataFlights = this.getDataFlights();
+      const routes: RouteColorInput[] = dataFlights.length
+        ? dataFlights.map((flightData) => ({ flightData }))
+        : this.getPreGeneratedConfigs();
+
+      this.routeColors = new RouteColors(
+        {
+          mode: this.params.colorBy as RouteColorMode,
+          field: this.params.colorField,
+          palette: this.params.colorPalette as ColorPaletteName,
+          solidColor: this.params.routeColor,
+        },
+        routes,
+      );
+    }
+    return this.routeColors;
+  }
+
+  // Flights are created from the pre-generated configs in order
+  private getRoute(flight: Flight, index: number): Partial<FlightConfig> {
+    const configs = this.getPreGeneratedConfigs();
+    if (configs.length) {
+      return configs[index % configs.length];
+    }
+    return {
+      flightData: flight.getFlightData(),
+      controlPoints: flight.getControlPoints(),
+    };
+  }
+}
@@ -3,16 +3,59 @@ import Stats from "stats.js";
 import type { PerspectiveCamera } from "three";
 import type { Earth } from "../space/Earth.ts";
 import { vector3ToLatLng } from "../common/Utils.ts";
+import { TIME_RATE_PRESETS } from "../common/SimulationClock.ts";
+import type {
+  AirportMarker,
+  FlightTooltipInfo,
+  LoadingState,
+  TimelineCallbacks,
+  TimelineState,
+  TooltipLocation,
+} from "../common/Types.js";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// Days covered by the timeline playhead
+const TIMELINE_DAYS = 3;
+// Playhead resolution in minutes
+const TIMELINE_STEP_MINUTES = 1;
+// flightData fields listed in the flight tooltip, after departure/arrival
+const TOOLTIP_MAX_FIELDS = 12;
+const TOOLTIP_MAX_VALUE_LENGTH = 80;
+// Gap between the cursor and the tooltip, in pixels
+const TOOLTIP_OFFSET = 14;
 
 /**
  * UIManager centralizes DOM overlay helpers such as the loading screen,
- * dat.GUI visibility toggles, footer coordinate updates, and stats management.
+ * dat.GUI visibility toggles, footer coordinate updates, the timeline bar,
+ * the hover tooltip for planes and airports, and stats management.
  */
 export class UIManager {
   private readonly stats: Stats;
   private loadingScreenCreated = false;
   private loadingScreenElement: HTMLElement | null = null;
+  private loadingSpinnerElement: HTMLElement | null = null;
+  private loadingStatusElement: HTMLElement | null = null;
+  private loadingBarElement: HTMLElement | null = null;
+  private loadingErrorElement: HTMLElement | null = null;
+  private loadingContinueButton: HTMLButtonElement | null = null;
+  private onLoadingContinue: (() => void) | null = null;
   private footerCoordinatesElement: HTMLElement | null = null;
+  private datasetInputElement: HTMLInputElement | null = null;
+  private dropOverlayElement: HTMLElement | null = null;
+  private notificationElement: HTMLElement | null = null;
+  private notificationTimeoutId: number | null = null;
+  private timelineElement: HTMLElement | null = null;
+  private timelinePlayButton: HTMLButtonElement | null = null;
+  private timelineRateSelect: HTMLSelectElement | null = null;
+  private timelineDateInput: HTMLInputElement | null = null;
+  private timelineRangeInput: HTMLInputElement | null = null;
+  private timelineTimeLabel: HTMLElement | null = null;
+  private timelineDayLabels: HTMLElement | null = null;
+  private timelineStart = 0; // UTC midnight of the first day on the playhead
+  private timelineScrubbing = false;
+  private timelineState: TimelineState | null = null;
+  private tooltipElement: HTMLElement | null = null;
+  private tooltipKey: string | null = null;
 
   constructor() {
     // Initialize Stats.js for performance monitoring
@@ -38,6 +81,8 @@ export class UIManager {
         top: 0; left: 0; right: 0; bottom: 0;
         background: radial-gradient(circle at top, rgba(0, 40, 80, 0.95), rgba(0, 10, 20, 0.98));
         display: flex;
+        flex-direction: column;
+        gap: 20px;
         align-items: center;
         justify-content: center;
         z-index: 9999;
@@ -66,9 +111,112 @@ export class UIManager {
     `;
     document.head.appendChild(style);
 
+    const status = document.createElement("div");
+    status.style.cssText = `
+        min-height: 1.2em;
+        color: rgba(255, 255, 255, 0.75);
+        font-family: Arial, sans-serif;
+        font-size: 13px;
+    `;
+
+    const barTrack = document.createElement("div");
+    barTrack.style.cssText = `
+        width: 240px;
+        height: 4px;
+        border-radius: 2px;
+        background: rgba(255, 255, 255, 0.1);
+        overflow: hidden;
+    `;
+
+    const bar = document.createElement("div");
+    bar.style.cssText = `
+        width: 0%;
+        height: 100%;
+        background: rgba(88, 166, 255, 1);
+        transition: width 0.2s ease-out;
+    `;
+    barTrack.appendChild(bar);
+
+    const error = document.createElement("div");
+    error.style.cssText = `
+        display: none;
+        max-width: 60vw;
+        color: rgba(255, 140, 140, 1);
+        font-family: Arial, sans-serif;
+        font-size: 13px;
+        text-align: center;
+    `;
+
+    const continueButton = document.createElement("button");
+    continueButton.type = "button";
+    continueButton.textContent = "Continue anyway";
+    continueButton.style.cssText = `
+        display: none;
+        padding: 6px 14px;
+        border: 1px solid rgba(255, 255, 255, 0.3);
+        border-radius: 4px;
+        background: rgba(255, 255, 255, 0.08);
+        color: white;
+        font-family: Arial, sans-serif;
+        font-size: 13px;
+        cursor: pointer;
+    `;
+    continueButton.addEventListener("click", () => {
+      this.onLoadingContinue?.();
+    });
+
     loadingDiv.appendChild(spinner);
+    loadingDiv.appendChild(barTrack);
+    loadingDiv.appendChild(status);
+    loadingDiv.appendChild(error);
+    loadingDiv.appendChild(continueButton);
     document.body.appendChild(loadingDiv);
     this.loadingScreenElement = loadingDiv;
+    this.loadingSpinnerElement = spinner;
+    this.loadingStatusElement = status;
+    this.loadingBarElement = bar;
+    this.loadingErrorElement = error;
+    this.loadingContinueButton = continueButton;
+  }
+
+  /**
+   * Show loading progress, or the failed stage with a way to continue
+   * @param state - Aggregated stage progress
+   * @param onContinue - Called when the user dismisses a failure
+   */
+  public setLoadingState(state: LoadingState, onContinue: () => void): void {
+    if (!this.loadingScreenElement) {
+      return;
+    }
+
+    const percent = Math.round(state.progress * 100);
+    this.onLoadingContinue = onContinue;
+
+    if (this.loadingBarElement) {
+      this.loadingBarElement.style.width = `${percent}%`;
+      this.loadingBarElement.style.background = state.failed
+        ? "rgba(220, 80, 80, 1)"
+        : "rgba(88, 166, 255, 1)";
+    }
+    if (this.loadingSpinnerElement) {
+      this.loadingSpinnerElement.style.display = state.failed ? "none" : "";
+    }
+    if (this.loadingStatusElement) {
+      this.loadingStatusElement.textContent = state.failed
+        ? `${state.stage?.label ?? "Loading"} failed`
+        : state.stage
+          ? `${state.stage.label}… ${percent}%`
+          : "Ready";
+    }
+    if (this.loadingErrorElement) {
+      this.loadingErrorElement.textContent = state.stage?.error ?? "";
+      this.loadingErrorElement.style.display = state.failed ? "block" : "none";
+    }
+    if (this.loadingContinueButton) {
+      this.loadingContinueButton.style.display = state.failed
+        ? "block"
+        : "none";
+    }
   }
 
   public hideDuringLoading(): void {
@@ -80,6 +228,10 @@ export class UIManager {
     if (this.footerCoordinatesElement) {
       this.footerCoordinatesElement.style.display = "none";
     }
+    if (this.timelineElement) {
+      this.timelineElement.style.display = "none";
+    }
+    this.hideTooltip();
   }
 
   public showAfterLoading(): void {
@@ -92,6 +244,9 @@ export class UIManager {
     if (this.footerCoordinatesElement) {
       this.footerCoordinatesElement.style.display = "block";
     }
+    if (this.timelineElement) {
+      this.timelineElement.style.display = "flex";
+    }
   }
 
   public removeLoadingScreen(): void {
@@ -105,6 +260,12 @@ export class UIManager {
     window.setTimeout(() => {
       element.remove();
       this.loadingScreenElement = null;
+      this.loadingSpinnerElement = null;
+      this.loadingStatusElement = null;
+      this.loadingBarElement = null;
+      this.loadingErrorElement = null;
+      this.loadingContinueButton = null;
+      this.onLoadingContinue = null;
       this.showAfterLoading();
     }, 500);
   }
@@ -174,15 +335,600 @@ export class UIManager {
       return;
     }
 
-    const direction = new THREE.Vector3(0, 0, 0)
-      .sub(camera.position)
-      .normalize();
+    // Point on the globe directly below the camera
+    const direction = camera.position.clone().normalize();
     const surfacePoint = direction.clone().multiplyScalar(earth.getRadius());
     const coords = vector3ToLatLng(surfacePoint, earth.getRadius());
 
     this.footerCoordinatesElement.textContent = `Lat: ${coords.lat.toFixed(2)}°, Lng: ${coords.lng.toFixed(2)}°`;
   }
 
+  /**
+   * Create the timeline bar above the footer: play/pause, speed selection,
+   * a date picker and a playhead spanning several days
+   * @param callbacks - Called when the user changes playback or seeks
+   */
+  public createTimeline(callbacks: TimelineCallbacks): void {
+    if (this.timelineElement) {
+      return;
+    }
+
+    const timeline = document.createElement("div");
+    timeline.id = "app-timeline";
+    timeline.style.cssText = `
+        position: fixed;
+        bottom: 40px;
+        left: 50%;
+        transform: translateX(-50%);
+        width: min(760px, calc(100vw - 40px));
+        box-sizing: border-box;
+        display: none;
+        align-items: center;
+        gap: 10px;
+        padding: 6px 12px;
+        border-radius: 6px;
+        background: rgba(0, 10, 20, 0.75);
+        color: white;
+        font-family: Arial, sans-serif;
+        font-size: 12px;
+        z-index: 10000;
+    `;
+
+    const controlStyle = `
+        background: rgba(255, 255, 255, 0.08);
+        color: white;
+        border: 1px solid rgba(255, 255, 255, 0.2);
+        border-radius: 4px;
+        font-size: 12px;
+        height: 24px;
+    `;
+
+    const playButton = document.createElement("button");
+    playButton.type = "button";
+    playButton.style.cssText = `${controlStyle} width: 32px; cursor: pointer;`;
+    playButton.addEventListener("click", () => {
+      const playing = !(this.timelineState?.playing ?? true);
+      callbacks.onPlayingChange?.(playing);
+    });
+
+    const rateSelect = document.createElement("select");
+    rateSelect.title = "Simulation speed";
+    rateSelect.style.cssText = controlStyle;
+    TIME_RATE_PRESETS.forEach((rate) => {
+      const option = document.createElement("option");
+      option.value = String(rate);
+      option.textContent = `${rate}x`;
+      rateSelect.appendChild(option);
+    });
+    rateSelect.addEventListener("change", () => {
+      callbacks.onRateChange?.(Number(rateSelect.value));
+    });
+
+    const dateInput = document.createElement("input");
+    dateInput.type = "date";
+    dateInput.title = "Simulation date (UTC)";
+    dateInput.style.cssText = `${controlStyle} color-scheme: dark;`;
+    dateInput.addEventListener("change", () => {
+      const date = Date.parse(`${dateInput.value}T00:00:00Z`);
+      if (!Number.isFinite(date)) return;
+      const timeOfDay = this.timelineState
+        ? this.timelineState.time - this.getUtcMidnight(this.timelineState.time)
+        : 0;
+      this.timelineStart = date;
+      this.updateTimelineDayLabels();
+      callbacks.onSeek?.(date + timeOfDay);
+    });
+
+    const track = document.createElement("div");
+    track.style.cssText = `
+        flex: 1;
+        display: flex;
+        flex-direction: column;
+        min-width: 120px;
+    `;
+
+    const rangeInput = document.createElement("input");
+    rangeInput.type = "range";
+    rangeInput.min = "0";
+    rangeInput.max = String((TIMELINE_DAYS * 24 * 60) / TIMELINE_STEP_MINUTES);
+    rangeInput.step = "1";
+    rangeInput.title = "Drag to change the simulated time";
+    rangeInput.style.cssText = "width: 100%; margin: 0; cursor: pointer;";
+    rangeInput.addEventListener("pointerdown", () => {
+      this.timelineScrubbing = true;
+    });
+    const stopScrubbing = (): void => {
+      this.timelineScrubbing = false;
+    };
+    rangeInput.addEventListener("pointerup", stopScrubbing);
+    rangeInput.addEventListener("pointercancel", stopScrubbing);
+    rangeInput.addEventListener("change", stopScrubbing);
+    rangeInput.addEventListener("input", () => {
+      const minutes = Number(rangeInput.value) * TIMELINE_STEP_MINUTES;
+      callbacks.onSeek?.(this.timelineStart + minutes * 60 * 1000);
+    });
+
+    const dayLabels = document.createElement("div");
+    dayLabels.style.cssText = `
+        display: flex;
+        opacity: 0.6;
+        font-size: 10px;
+    `;
+
+    track.appendChild(rangeInput);
+    track.appendChild(dayLabels);
+
+    const timeLabel = document.createElement("span");
+    timeLabel.style.cssText =
+      "font-family: monospace; white-space: nowrap; min-width: 150px;";
+
+    timeline.appendChild(playButton);
+    timeline.appendChild(rateSelect);
+    timeline.appendChild(dateInput);
+    timeline.appendChild(track);
+    timeline.appendChild(timeLabel);
+    document.body.appendChild(timeline);
+
+    this.timelineElement = timeline;
+    this.timelinePlayButton = playButton;
+    this.timelineRateSelect = rateSelect;
+    this.timelineDateInput = dateInput;
+    this.timelineRangeInput = rangeInput;
+    this.timelineTimeLabel = timeLabel;
+    this.timelineDayLabels = dayLabels;
+  }
+
+  /**
+   * Reflect the simulation clock in the timeline bar - called once per frame
+   * @param state - Current simulated time and playback state
+   */
+  public updateTimeline(state: TimelineState): void {
+    if (!this.timelineElement) {
+      return;
+    }
+
+    const previous = this.timelineState;
+    this.timelineState = { ...state };
+
+    const windowLength = TIMELINE_DAYS * MS_PER_DAY;
+    if (
+      !this.timelineScrubbing &&
+      (state.time < this.timelineStart ||
+        state.time >= this.timelineStart + windowLength)
+    ) {
+      this.timelineStart = this.getUtcMidnight(state.time);
+      this.updateTimelineDayLabels();
+    }
+
+    if (!previous || previous.playing !== state.playing) {
+      this.timelinePlayButton!.textContent = state.playing ? "❚❚" : "▶";
+      this.timelinePlayButton!.title = state.playing ? "Pause" : "Play";
+    }
+    if (!previous || previous.rate !== state.rate) {
+      this.timelineRateSelect!.value = String(state.rate);
+    }
+
+    const isoTime = new Date(state.time).toISOString();
+    const dateValue = isoTime.slice(0, 10);
+    if (
+      this.timelineDateInput!.value !== dateValue &&
+      document.activeElement !== this.timelineDateInput
+    ) {
+      this.timelineDateInput!.value = dateValue;
+    }
+
+    const label = `${dateValue} ${isoTime.slice(11, 19)} UTC`;
+    if (this.timelineTimeLabel!.textContent !== label) {
+      this.timelineTimeLabel!.textContent = label;
+    }
+
+    if (!this.timelineScrubbing) {
+      const minutes = (state.time - this.timelineStart) / (60 * 1000);
+      this.timelineRangeInput!.value = String(
+        Math.round(minutes / TIMELINE_STEP_MINUTES),
+      );
+    }
+  }
+
+  private updateTimelineDayLabels(): void {
+    if (!this.timelineDayLabels) {
+      return;
+    }
+
+    this.timelineDayLabels.innerHTML = "";
+    for (let day = 0; day < TIMELINE_DAYS; day++) {
+      // Each label starts where its day starts on the playhead
+      const label = document.createElement("span");
+      label.style.flex = "1";
+      label.textContent = new Date(
+        this.timelineStart + day * MS_PER_DAY,
+      ).toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+        timeZone: "UTC",
+      });
+      this.timelineDayLabels.appendChild(label);
+    }
+  }
+
+  private getUtcMidnight(time: number): number {
+    return time - (((time % MS_PER_DAY) + MS_PER_DAY) % MS_PER_DAY);
+  }
+
+  /**
+   * Show the hover tooltip for a picked plane next to the cursor
+   * @param clientX - Cursor x in viewport pixels
+   * @param clientY - Cursor y in viewport pixels
+   * @param info - Route endpoints and flightData of the picked flight
+   */
+  public showFlightTooltip(
+    clientX: number,
+    clientY: number,
+    info: FlightTooltipInfo,
+  ): void {
+    this.showTooltip(clientX, clientY, `flight:${info.index}`, () => {
+      const rows: [string, string][] = [
+        ["Departure", this.formatTooltipLocation(info.departure)],
+        ["Arrival", this.formatTooltipLocation(info.arrival)],
+      ];
+
+      const fields = Object.entries(info.flightData ?? {}).filter(
+        ([key]) => key !== "departure" && key !== "arrival",
+      );
+      for (const [key, value] of fields) {
+        if (rows.length >= TOOLTIP_MAX_FIELDS + 2) break;
+        const text = this.formatTooltipValue(value);
+        if (text !== null) {
+          rows.push([key, text]);
+        }
+      }
+
+      const title = info.flightData
+        ? `Flight #${info.index + 1}`
+        : `Random flight #${info.index + 1}`;
+      return { title, rows };
+    });
+  }
+
+  /**
+   * Show the hover tooltip for an airport marker next to the cursor
+   * @param clientX - Cursor x in viewport pixels
+   * @param clientY - Cursor y in viewport pixels
+   * @param airport - Picked airport marker
+   */
+  public showAirportTooltip(
+    clientX: number,
+    clientY: number,
+    airport: AirportMarker,
+  ): void {
+    this.showTooltip(clientX, clientY, `airport:${airport.key}`, () => {
+      const rows: [string, string][] = [];
+      const place = [airport.city, airport.country]
+        .filter((part) => typeof part === "string" && part.length > 0)
+        .join(", ");
+      if (place) {
+        rows.push(["Location", place]);
+      }
+      rows.push([
+        "Coordinates",
+        `${airport.lat.toFixed(2)}°, ${airport.lng.toFixed(2)}°`,
+      ]);
+      rows.push(["Routes", String(airport.degree)]);
+
+      const title = [airport.iata, airport.name].filter(Boolean).join(" · ");
+      return { title: title || "Airport", rows };
+    });
+  }
+
+  public hideTooltip(): void {
+    if (this.tooltipElement) {
+      this.tooltipElement.style.display = "none";
+    }
+    this.tooltipKey = null;
+  }
+
+  private showTooltip(
+    clientX: number,
+    clientY: number,
+    key: string,
+    buildContent: () => { title: string; rows: [string, string][] },
+  ): void {
+    const element = this.getTooltip();
+
+    // Rebuild the content only when the hovered item changes
+    if (this.tooltipKey !== key) {
+      this.tooltipKey = key;
+      const { title, rows } = buildContent();
+      this.renderTooltip(element, title, rows);
+    }
+
+    element.style.display = "block";
+    const width = element.offsetWidth;
+    const height = element.offsetHeight;
+    let left = clientX + TOOLTIP_OFFSET;
+    let top = clientY + TOOLTIP_OFFSET;
+    if (left + width > window.innerWidth) {
+      left = Math.max(0, clientX - TOOLTIP_OFFSET - width);
+    }
+    if (top + height > window.innerHeight) {
+      top = Math.max(0, clientY - TOOLTIP_OFFSET - height);
+    }
+    element.style.left = `${left}px`;
+    element.style.top = `${top}px`;
+  }
+
+  private getTooltip(): HTMLElement {
+    if (this.tooltipElement) {
+      return this.tooltipElement;
+    }
+
+    const element = document.createElement("div");
+    element.id = "hover-tooltip";
+    element.style.cssText = `
+        position: fixed;
+        display: none;
+        max-width: 320px;
+        padding: 8px 10px;
+        border-radius: 6px;
+        border: 1px solid rgba(88, 166, 255, 0.4);
+        background: rgba(0, 10, 20, 0.88);
+        color: white;
+        font-family: Arial, sans-serif;
+        font-size: 12px;
+        line-height: 1.4;
+        z-index: 10002;
+        pointer-events: none;
+    `;
+    document.body.appendChild(element);
+    this.tooltipElement = element;
+    return element;
+  }
+
+  // Built with textContent: flightData may come from user-supplied files
+  private renderTooltip(
+    element: HTMLElement,
+    titleText: string,
+    rows: [string, string][],
+  ): void {
+    element.replaceChildren();
+
+    const title = document.createElement("div");
+    title.style.cssText = "font-weight: bold; margin-bottom: 4px;";
+    title.textContent = titleText;
+    element.appendChild(title);
+
+    rows.forEach(([label, value]) => {
+      const row = document.createElement("div");
+      const labelElement = document.createElement("span");
+      labelElement.style.opacity = "0.65";
+      labelElement.textContent = `${label}: `;
+      row.appendChild(labelElement);
+      row.appendChild(document.createTextNode(value));
+      element.appendChild(row);
+    });
+  }
+
+  private formatTooltipLocation(location: TooltipLocation | null): string {
+    if (!location) {
+      return "Unknown";
+    }
+
+    const code = location.iata || location.icao || "";
+    const place = [location.name, location.city, location.country]
+      .filter((part) => typeof part === "string" && part.length > 0)
+      .filter((part, index, parts) => parts.indexOf(part) === index)
+      .join(", ");
+    const coordinates =
+      Number.isFinite(location.lat) && Number.isFinite(location.lng)
+        ? `${location.lat.toFixed(2)}°, ${location.lng.toFixed(2)}°`
+        : "";
+
+    const label = [code, place].filter(Boolean).join(" · ");
+    return label || coordinates || "Unknown";
+  }
+
+  private formatTooltipValue(value: unknown): string | null {
+    let text: string;
+    if (value === null || value === undefined || value === "") {
+      return null;
+    } else if (Array.isArray(value)) {
+      const items = value
+        .map((item) => this.formatTooltipValue(item))
+        .filter((item): item is string => item !== null);
+      if (items.length === 0) return null;
+      text = items.join(", ");
+    } else if (typeof value === "boolean") {
+      text = value ? "yes" : "no";
+    } else if (typeof value === "number") {
+      if (!Number.isFinite(value)) return null;
+      text = String(Number(value.toFixed(4)));
+    } else if (value instanceof Date) {
+      if (Number.isNaN(value.getTime())) return null;
+      text = value.toISOString();
+    } else if (typeof value === "object") {
+      text = JSON.stringify(value);
+    } else {
+      text = String(value);
+    }
+
+    return text.length > TOOLTIP_MAX_VALUE_LENGTH
+      ? `${text.slice(0, TOOLTIP_MAX_VALUE_LENGTH - 1)}…`
+      : text;
+  }
+
+  /**
+   * Accept dataset files dropped onto the given element
+   * @param target - Element that receives drops (usually the canvas)
+   * @param onFile - Called with the dropped file
+   */
+  public enableDatasetDrop(
+    target: HTMLElement,
+    onFile: (file: File) => void,
+  ): void {
+    const overlay = this.getDropOverlay();
+    let dragDepth = 0;
+
+    const hasFiles = (event: DragEvent): boolean =>
+      !!event.dataTransfer &&
+      Array.from(event.dataTransfer.types).includes("Files");
+
+    target.addEventListener("dragenter", (event) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      dragDepth += 1;
+      overlay.style.display = "flex";
+    });
+
+    target.addEventListener("dragover", (event) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      if (event.dataTransfer) {
+        event.dataTransfer.dropEffect = "copy";
+      }
+    });
+
+    target.addEventListener("dragleave", () => {
+      dragDepth = Math.max(0, dragDepth - 1);
+      if (dragDepth === 0) {
+        overlay.style.display = "none";
+      }
+    });
+
+    target.addEventListener("drop", (event) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      dragDepth = 0;
+      overlay.style.display = "none";
+      const file = event.dataTransfer?.files?.[0];
+      if (file) {
+        onFile(file);
+      }
+    });
+  }
+
+  /**
+   * Open the browser file picker for a dataset file
+   * @param onFile - Called with the selected file
+   */
+  public openDatasetPicker(onFile: (file: File) => void): void {
+    if (!this.datasetInputElement) {
+      const input = document.createElement("input");
+      input.type = "file";
+      input.accept = ".csv,.dat,.txt,.json,.geojson";
+      input.style.display = "none";
+      document.body.appendChild(input);
+      this.datasetInputElement = input;
+    }
+
+    const input = this.datasetInputElement;
+    input.value = "";
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (file) {
+        onFile(file);
+      }
+    };
+    input.click();
+  }
+
+  /**
+   * Save text content as a file download
+   * @param fileName - Suggested file name
+   * @param content - File contents
+   * @param mimeType - MIME type of the content
+   */
+  public downloadFile(
+    fileName: string,
+    content: string,
+    mimeType: string = "application/json",
+  ): void {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.style.display = "none";
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    window.setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+
+  /**
+   * Show a short-lived message above the footer
+   * @param message - Text to display
+   * @param type - "info" or "error"
+   */
+  public showNotification(
+    message: string,
+    type: "info" | "error" = "info",
+  ): void {
+    if (!this.notificationElement) {
+      const element = document.createElement("div");
+      element.id = "app-notification";
+      element.style.cssText = `
+        position: fixed;
+        bottom: 96px;
+        left: 50%;
+        transform: translateX(-50%);
+        max-width: 80vw;
+        padding: 8px 16px;
+        border-radius: 4px;
+        color: white;
+        font-family: Arial, sans-serif;
+        font-size: 13px;
+        z-index: 10001;
+        pointer-events: none;
+        transition: opacity 0.3s ease-out;
+      `;
+      document.body.appendChild(element);
+      this.notificationElement = element;
+    }
+
+    const element = this.notificationElement;
+    element.textContent = message;
+    element.style.background =
+      type === "error" ? "rgba(180, 40, 40, 0.9)" : "rgba(20, 40, 70, 0.9)";
+    element.style.opacity = "1";
+
+    if (this.notificationTimeoutId !== null) {
+      window.clearTimeout(this.notificationTimeoutId);
+    }
+    // Errors stay up longer so they can be read
+    const duration = type === "error" ? 6000 : 3000;
+    this.notificationTimeoutId = window.setTimeout(() => {
+      element.style.opacity = "0";
+      this.notificationTimeoutId = null;
+    }, duration);
+  }
+
+  private getDropOverlay(): HTMLElement {
+    if (this.dropOverlayElement) {
+      return this.dropOverlayElement;
+    }
+
+    const overlay = document.createElement("div");
+    overlay.id = "dataset-drop-overlay";
+    overlay.style.cssText = `
+        position: fixed;
+        top: 12px; left: 12px; right: 12px; bottom: 12px;
+        border: 3px dashed rgba(88, 166, 255, 0.9);
+        border-radius: 12px;
+        background: rgba(0, 20, 40, 0.45);
+        display: none;
+        align-items: center;
+        justify-content: center;
+        color: white;
+        font-family: Arial, sans-serif;
+        font-size: 20px;
+        z-index: 9998;
+        pointer-events: none;
+    `;
+    overlay.textContent = "Drop a CSV, JSON or GeoJSON route file";
+    document.body.appendChild(overlay);
+    this.dropOverlayElement = overlay;
+    return overlay;
+  }
+
   // Stats management methods
   public beginStats(): void {
     this.stats.begin();
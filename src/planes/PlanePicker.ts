@@ -0,0 +1,128 @@
+import * as THREE from "three";
+import type { PlanesShader } from "./PlanesShader.ts";
+import type { PlanePickerOptions } from "../common/Types.js";
+
+/**
+ * PlanePicker - GPU ID-buffer picking for the instanced planes.
+ * Renders the PlanesShader picking mesh into a 1x1 target covering the pixel
+ * under the cursor, then decodes the color back to a pane index. Planes are
+ * positioned in the vertex shader, so this is the only way to hit-test them
+ * without re-evaluating every curve on the CPU.
+ */
+export class PlanePicker {
+  private renderer: THREE.WebGLRenderer;
+  private renderTarget: THREE.WebGLRenderTarget;
+  private pickingScene: THREE.Scene;
+  private occluder: THREE.Mesh | null = null;
+  private pickingMesh: THREE.InstancedMesh | null = null;
+  private readonly pixelBuffer = new Uint8Array(4);
+  private readonly previousClearColor = new THREE.Color();
+
+  constructor(renderer: THREE.WebGLRenderer, options: PlanePickerOptions = {}) {
+    this.renderer = renderer;
+    this.renderTarget = new THREE.WebGLRenderTarget(1, 1, {
+      format: THREE.RGBAFormat,
+      type: THREE.UnsignedByteType,
+      minFilter: THREE.NearestFilter,
+      magFilter: THREE.NearestFilter,
+      generateMipmaps: false,
+    });
+    this.pickingScene = new THREE.Scene();
+
+    // Depth-only globe so planes on the far side are not picked
+    const occluderRadius = options.occluderRadius ?? 0;
+    if (occluderRadius > 0) {
+      this.occluder = new THREE.Mesh(
+        new THREE.SphereGeometry(occluderRadius, 64, 32),
+        new THREE.MeshBasicMaterial({ colorWrite: false }),
+      );
+      this.occluder.renderOrder = -1;
+      this.pickingScene.add(this.occluder);
+    }
+  }
+
+  /**
+   * Find the plane under a point on the canvas
+   * @param planes - Planes renderer to pick from
+   * @param camera - Camera used for the main render
+   * @param clientX - Pointer x in CSS pixels (viewport coordinates)
+   * @param clientY - Pointer y in CSS pixels (viewport coordinates)
+   * @returns Pane index, or -1 when no plane covers the point
+   */
+  public pick(
+    planes: PlanesShader | null,
+    camera: THREE.PerspectiveCamera,
+    clientX: number,
+    clientY: number,
+  ): number {
+    const mesh = planes?.getPickingMesh() ?? null;
+    if (!mesh) return -1;
+    this.setPickingMesh(mesh);
+
+    const rect = this.renderer.domElement.getBoundingClientRect();
+    const x = Math.floor(clientX - rect.left);
+    const y = Math.floor(clientY - rect.top);
+    if (x < 0 || y < 0 || x >= rect.width || y >= rect.height) {
+      return -1;
+    }
+
+    // Narrow the projection to the single pixel under the cursor
+    camera.setViewOffset(rect.width, rect.height, x, y, 1, 1);
+
+    const previousTarget = this.renderer.getRenderTarget();
+    const previousClearAlpha = this.renderer.getClearAlpha();
+    this.renderer.getClearColor(this.previousClearColor);
+
+    this.renderer.setRenderTarget(this.renderTarget);
+    this.renderer.setClearColor(0x000000, 0);
+    this.renderer.clear();
+    this.renderer.render(this.pickingScene, camera);
+
+    this.renderer.setRenderTarget(previousTarget);
+    this.renderer.setClearColor(this.previousClearColor, previousClearAlpha);
+    camera.clearViewOffset();
+
+    this.renderer.readRenderTargetPixels(
+      this.renderTarget,
+      0,
+      0,
+      1,
+      1,
+      this.pixelBuffer,
+    );
+    return PlanePicker.decodeId(this.pixelBuffer) - 1;
+  }
+
+  /**
+   * Decode the 24-bit id written by panes_picking.frag (0 = background)
+   */
+  static decodeId(pixel: ArrayLike<number>): number {
+    return pixel[0] + pixel[1] * 256 + pixel[2] * 65536;
+  }
+
+  /**
+   * Release the render target and occluder
+   */
+  public dispose(): void {
+    this.setPickingMesh(null);
+    this.renderTarget.dispose();
+    if (this.occluder) {
+      this.occluder.geometry.dispose();
+      (this.occluder.material as THREE.Material).dispose();
+      this.pickingScene.remove(this.occluder);
+      this.occluder = null;
+    }
+  }
+
+  // Planes are rebuilt when the flight count changes; follow the current mesh
+  private setPickingMesh(mesh: THREE.InstancedMesh | null): void {
+    if (this.pickingMesh === mesh) return;
+    if (this.pickingMesh) {
+      this.pickingScene.remove(this.pickingMesh);
+    }
+    this.pickingMesh = mesh;
+    if (mesh) {
+      this.pickingScene.add(mesh);
+    }
+  }
+}
@@ -1,10 +1,21 @@
 import * as THREE from "three";
 import vertexShader from "../shaders/panes.vert?raw";
 import fragmentShader from "../shaders/panes.frag?raw";
+import pickingFragmentShader from "../shaders/panes_picking.frag?raw";
+import trailVertexShader from "../shaders/trails.vert?raw";
+import trailFragmentShader from "../shaders/trails.frag?raw";
+import horizonShader from "../shaders/horizon.glsl?raw";
+import planeProgressShader from "../shaders/plane_progress.glsl?raw";
+import flightCurveShader from "../shaders/flight_curve.glsl?raw";
+import { DirtyRanges } from "../common/DirtyRanges.ts";
 import type {
+  FlightSchedule,
   PlanesShaderOptions,
   AtlasInfo,
   InternalAtlasInfo,
+  PlaneAnimationAttribute,
+  PlaneAnimationState,
+  UpdateRangeTarget,
 } from "../common/Types.js";
 
 /**
@@ -12,10 +23,50 @@ import type {
  */
 export type TiltMode = "Perpendicular" | "Tangent";
 
+// Widest control point texture row; WebGL2 guarantees at least 2048 texels
+const MAX_TEXTURE_WIDTH = 2048;
+
+// Arc-length lookup table size per instance (4 samples per texel)
+const ARC_LENGTH_SAMPLES = 32;
+const ARC_LENGTH_TEXELS = ARC_LENGTH_SAMPLES / 4;
+
+// Samples along each trail strip, from the plane to the tail
+const TRAIL_SAMPLES = 24;
+
+// Move the time origin once the clock drifts this far from it (ms), so
+// time * speed keeps enough precision as a 32-bit float for smooth motion
+const MAX_EPOCH_DRIFT = 60 * 60 * 1000;
+
+// Per-instance attributes, uploaded by dirty pane range in applyUpdates()
+const PANE_ATTRIBUTES = [
+  "controlPointCount",
+  "instanceColor",
+  "instanceScale",
+  "instanceElevation",
+  "instanceUVTransform",
+  "animationParams",
+  "scheduleParams",
+  "instanceArcLength",
+] as const;
+type PaneAttribute = (typeof PANE_ATTRIBUTES)[number];
+
+// horizonOcclusion() and planeProgress() are shared with the Curves shader;
+// the trails evaluate the same curves as the panes
+const sharedVertexChunks = [
+  horizonShader,
+  planeProgressShader,
+  flightCurveShader,
+];
+const paneVertexShader = [...sharedVertexChunks, vertexShader].join("\n");
+const trailShader = [...sharedVertexChunks, trailVertexShader].join("\n");
+
 /**
  * PlanesShader - Ultimate performance pane renderer with GPU-side animation
  * All curve calculations, transformations, and animations happen in the vertex shader.
  * CPU only updates time uniform per frame - no per-flight work on CPU!
+ * The time uniform follows the simulation clock (seconds since timeEpoch).
+ * A fading comet trail behind each plane is drawn from the same per-instance
+ * data, as a strip evaluated along the plane's curve.
  */
 export class PlanesShader {
   private scene: THREE.Scene;
@@ -29,11 +80,36 @@ export class PlanesShader {
   private geometry: THREE.PlaneGeometry | null = null;
   private material: THREE.ShaderMaterial | null = null;
 
-  // Per-instance data: curve control points (4 points for CatmullRom)
-  // Each flight needs 4 control points (12 floats = 3 vec4 attributes)
-  private controlPointsPack1: Float32Array; // (p0.x, p0.y, p0.z, p1.x)
-  private controlPointsPack2: Float32Array; // (p1.y, p1.z, p2.x, p2.y)
-  private controlPointsPack3: Float32Array; // (p2.z, p3.x, p3.y, p3.z)
+  // ID-buffer picking: same geometry and uniforms, pane id written as color.
+  // Not added to the scene; PlanePicker renders it off-screen.
+  private pickingMesh: THREE.InstancedMesh | null = null;
+  private pickingMaterial: THREE.ShaderMaterial | null = null;
+
+  // Trails: a strip per instance, sharing the pane attributes and uniforms
+  private trailMesh: THREE.InstancedMesh | null = null;
+  private trailGeometry: THREE.BufferGeometry | null = null;
+  private trailMaterial: THREE.ShaderMaterial | null = null;
+  private trailLength: number; // World units
+  private trailOpacity: number;
+
+  // Per-instance curve data, stored in a float data texture.
+  // Instance i owns texels [i * texelsPerInstance, (i + 1) * texelsPerInstance)
+  // in row-major order: maxControlPoints texels of (x, y, z, 0), followed by
+  // an arc-length lookup table mapping distance fraction -> curve t.
+  private maxControlPoints: number;
+  private texelsPerInstance: number;
+  private instancesPerRow: number;
+  private controlPointTextureWidth: number;
+  private controlPointData: Float32Array;
+  private controlPointTexture: THREE.DataTexture | null = null;
+  private controlPointCounts: Float32Array; // Control points used per instance
+  private arcLengths: Float32Array; // Curve length per instance (world units)
+
+  // Ground speed mode: speeds are scaled by referenceLength / arcLength so
+  // every plane covers the same distance per second
+  private groundSpeedMode: boolean;
+  private groundSpeedReferenceLength: number;
+  private requestedSpeeds: Float32Array; // Speeds as passed to setAnimationSpeed
 
   // Per-instance colors and metadata
   private instanceColors: Float32Array; // RGB per instance
@@ -42,13 +118,30 @@ export class PlanesShader {
   private instanceUvTransforms: Float32Array; // (offsetX, offsetY, scaleX, scaleY)
   private animationParams: Float32Array; // (phase, speed, tiltMode, visible)
 
+  // Scheduled flights: (departure, duration, repeatPeriod, scheduled) in seconds.
+  // Times are relative to timeEpoch so they stay precise as 32-bit floats.
+  private scheduleParams: Float32Array;
+  private scheduleDepartures: Float64Array; // Departure per instance, UTC ms
+  private timeEpoch: number; // UTC ms, time origin near the simulation time
+  private simulationTime: number; // UTC ms
+
   // Tracking
   private activePanes: number = 0;
   private atlasInfo: InternalAtlasInfo | null = null;
   private planesVisible: boolean = true;
+  private horizonRadius: number;
+  private horizonFade: number;
   private returnModePreferred: boolean;
   private pendingReturnCompletion: Uint8Array;
 
+  // Panes changed since the last upload, per attribute and for the texture
+  private dirtyAttributes: Map<PaneAttribute, DirtyRanges>;
+  private dirtyControlPoints: DirtyRanges;
+  // Other renderers' attributes over the animation arrays (see
+  // addAnimationTarget), uploaded together with the planes' own
+  private animationTargets: Map<PlaneAnimationAttribute, UpdateRangeTarget[]> =
+    new Map();
+
   constructor(scene: THREE.Scene, options: PlanesShaderOptions = {}) {
     this.scene = scene;
     this.maxPanes = options.maxPanes || 1000;
@@ -57,17 +150,45 @@ export class PlanesShader {
     this.defaultElevation =
       options.baseElevation !== undefined ? options.baseElevation : 0;
     this.returnModePreferred = this.returnModeEnabled;
+    this.maxControlPoints = Math.max(2, options.maxControlPoints || 16);
+    this.texelsPerInstance = this.maxControlPoints + ARC_LENGTH_TEXELS;
+    this.groundSpeedMode = !!options.groundSpeed;
+    this.groundSpeedReferenceLength = options.groundSpeedReferenceLength || 1;
+    this.horizonRadius = Math.max(0, options.horizonRadius ?? 0);
+    this.horizonFade = Math.max(0, options.horizonFade ?? 0);
+    this.trailLength = Math.max(0, options.trailLength ?? 0);
+    this.trailOpacity = Math.min(Math.max(options.trailOpacity ?? 0.6, 0), 1);
+
+    // Lay out curve data in rows of whole instances, at most MAX_TEXTURE_WIDTH wide
+    this.instancesPerRow = Math.max(
+      1,
+      Math.floor(MAX_TEXTURE_WIDTH / this.texelsPerInstance),
+    );
+    this.controlPointTextureWidth =
+      this.instancesPerRow * this.texelsPerInstance;
+    const textureHeight = Math.ceil(this.maxPanes / this.instancesPerRow);
 
     // Initialize arrays
-    this.controlPointsPack1 = new Float32Array(this.maxPanes * 4);
-    this.controlPointsPack2 = new Float32Array(this.maxPanes * 4);
-    this.controlPointsPack3 = new Float32Array(this.maxPanes * 4);
+    this.controlPointData = new Float32Array(
+      this.controlPointTextureWidth * textureHeight * 4,
+    );
+    this.controlPointCounts = new Float32Array(this.maxPanes);
+    this.arcLengths = new Float32Array(this.maxPanes);
+    this.requestedSpeeds = new Float32Array(this.maxPanes).fill(0.1);
     this.instanceColors = new Float32Array(this.maxPanes * 3);
     this.instanceScales = new Float32Array(this.maxPanes);
     this.instanceElevations = new Float32Array(this.maxPanes);
     this.instanceUvTransforms = new Float32Array(this.maxPanes * 4);
     this.animationParams = new Float32Array(this.maxPanes * 4);
+    this.scheduleParams = new Float32Array(this.maxPanes * 4);
+    this.scheduleDepartures = new Float64Array(this.maxPanes);
+    this.simulationTime = options.simulationTime ?? Date.now();
+    this.timeEpoch = this.simulationTime;
     this.pendingReturnCompletion = new Uint8Array(this.maxPanes);
+    this.dirtyAttributes = new Map(
+      PANE_ATTRIBUTES.map((name) => [name, new DirtyRanges(this.maxPanes)]),
+    );
+    this.dirtyControlPoints = new DirtyRanges(this.maxPanes);
 
     this.initialize();
   }
@@ -79,18 +200,22 @@ export class PlanesShader {
     // Create plane geometry (centered at origin)
     this.geometry = new THREE.PlaneGeometry(this.baseSize, this.baseSize);
 
-    // Add per-instance attributes for curve control points
-    this.geometry.setAttribute(
-      "controlPointsPack1",
-      new THREE.InstancedBufferAttribute(this.controlPointsPack1, 4),
-    );
-    this.geometry.setAttribute(
-      "controlPointsPack2",
-      new THREE.InstancedBufferAttribute(this.controlPointsPack2, 4),
+    // Control points live in a data texture; only their count is per-instance
+    this.controlPointTexture = new THREE.DataTexture(
+      this.controlPointData,
+      this.controlPointTextureWidth,
+      this.controlPointData.length / 4 / this.controlPointTextureWidth,
+      THREE.RGBAFormat,
+      THREE.FloatType,
     );
+    this.controlPointTexture.minFilter = THREE.NearestFilter;
+    this.controlPointTexture.magFilter = THREE.NearestFilter;
+    this.controlPointTexture.generateMipmaps = false;
+    this.dirtyControlPoints.markAll();
+
     this.geometry.setAttribute(
-      "controlPointsPack3",
-      new THREE.InstancedBufferAttribute(this.controlPointsPack3, 4),
+      "controlPointCount",
+      new THREE.InstancedBufferAttribute(this.controlPointCounts, 1),
     );
 
     // Add per-instance attributes for rendering
@@ -114,18 +239,35 @@ export class PlanesShader {
       "animationParams",
       new THREE.InstancedBufferAttribute(this.animationParams, 4),
     );
+    this.geometry.setAttribute(
+      "scheduleParams",
+      new THREE.InstancedBufferAttribute(this.scheduleParams, 4),
+    );
+    this.geometry.setAttribute(
+      "instanceArcLength",
+      new THREE.InstancedBufferAttribute(this.arcLengths, 1),
+    );
 
     // Create shader material with GPU-side animation
     this.material = new THREE.ShaderMaterial({
+      defines: {
+        ARC_LENGTH_SAMPLES,
+      },
       uniforms: {
-        time: { value: 0.0 },
+        time: { value: (this.simulationTime - this.timeEpoch) / 1000 },
         baseSize: { value: this.baseSize },
         paneMap: { value: null },
         useTexture: { value: 0.0 },
         returnMode: { value: this.returnModeEnabled ? 1.0 : 0.0 },
         paneVisibility: { value: 1.0 },
+        controlPointTexture: { value: this.controlPointTexture },
+        controlPointTextureWidth: { value: this.controlPointTextureWidth },
+        maxControlPoints: { value: this.maxControlPoints },
+        texelsPerInstance: { value: this.texelsPerInstance },
+        horizonRadius: { value: this.horizonRadius },
+        horizonFade: { value: this.horizonFade },
       },
-      vertexShader,
+      vertexShader: paneVertexShader,
       fragmentShader,
       side: THREE.DoubleSide,
       transparent: true,
@@ -137,6 +279,36 @@ export class PlanesShader {
       this.material,
       this.maxPanes,
     );
+    // Instances are placed in the shader, so the mesh bounds are meaningless
+    // (they sit at the globe centre, which a chase camera can look away from)
+    this.instancedMesh.frustumCulled = false;
+
+    // Picking shares the uniforms object so time and visibility stay in sync
+    this.pickingMaterial = new THREE.ShaderMaterial({
+      defines: {
+        ARC_LENGTH_SAMPLES,
+        PICKING: "",
+      },
+      uniforms: this.material.uniforms,
+      vertexShader: paneVertexShader,
+      fragmentShader: pickingFragmentShader,
+      side: THREE.DoubleSide,
+      blending: THREE.NoBlending,
+    });
+    this.pickingMesh = new THREE.InstancedMesh(
+      this.geometry,
+      this.pickingMaterial,
+      this.maxPanes,
+    );
+    // Instances are placed in the shader, so the mesh bounds are meaningless
+    this.pickingMesh.frustumCulled = false;
+
+    this.createTrails();
+
+    // Draw only the active range; it grows as panes are assigned
+    this.instancedMesh.count = this.activePanes;
+    this.pickingMesh.count = this.activePanes;
+    this.trailMesh.count = this.activePanes;
 
     // Initialize all instances as hidden
     for (let i = 0; i < this.maxPanes; i++) {
@@ -162,75 +334,135 @@ export class PlanesShader {
       this.instanceUvTransforms[uvIndex + 2] = 1.0;
       this.instanceUvTransforms[uvIndex + 3] = 1.0;
 
-      // Initialize control points to zero
-      this.controlPointsPack1[i * 4] = 0;
-      this.controlPointsPack1[i * 4 + 1] = 0;
-      this.controlPointsPack1[i * 4 + 2] = 0;
-      this.controlPointsPack1[i * 4 + 3] = 0;
-
-      this.controlPointsPack2[i * 4] = 0;
-      this.controlPointsPack2[i * 4 + 1] = 0;
-      this.controlPointsPack2[i * 4 + 2] = 0;
-      this.controlPointsPack2[i * 4 + 3] = 0;
-
-      this.controlPointsPack3[i * 4] = 0;
-      this.controlPointsPack3[i * 4 + 1] = 0;
-      this.controlPointsPack3[i * 4 + 2] = 0;
-      this.controlPointsPack3[i * 4 + 3] = 0;
+      // No control points until a curve is assigned
+      this.controlPointCounts[i] = 0;
     }
 
     // Mark all attributes for initial upload
     this.markAllAttributesNeedUpdate();
 
-    // Add to scene
+    // Add to scene; trails first so planes draw over them
+    this.scene.add(this.trailMesh);
     this.scene.add(this.instancedMesh);
   }
 
+  /**
+   * Create the trail strips. Each instance reads the same attributes as its
+   * pane, so trails follow every pane update without extra uploads.
+   */
+  private createTrails(): void {
+    // Strip along the trail: x is the side, y the distance back from the
+    // plane as a fraction of the trail length
+    const positions: number[] = [];
+    const indices: number[] = [];
+    for (let i = 0; i < TRAIL_SAMPLES; i++) {
+      const along = i / (TRAIL_SAMPLES - 1);
+      positions.push(-1, along, 0, 1, along, 0);
+      if (i > 0) {
+        const base = (i - 1) * 2;
+        indices.push(base, base + 1, base + 2, base + 2, base + 1, base + 3);
+      }
+    }
+    this.trailGeometry = new THREE.BufferGeometry();
+    this.trailGeometry.setAttribute(
+      "position",
+      new THREE.Float32BufferAttribute(positions, 3),
+    );
+    this.trailGeometry.setIndex(indices);
+    PANE_ATTRIBUTES.forEach((name) => {
+      this.trailGeometry.setAttribute(name, this.geometry.attributes[name]);
+    });
+
+    this.trailMaterial = new THREE.ShaderMaterial({
+      defines: {
+        ARC_LENGTH_SAMPLES,
+      },
+      // Same uniform objects as the panes, so time and visibility stay in sync
+      uniforms: {
+        ...this.material.uniforms,
+        trailLength: { value: this.trailLength },
+        trailOpacity: { value: this.trailOpacity },
+      },
+      vertexShader: trailShader,
+      fragmentShader: trailFragmentShader,
+      side: THREE.DoubleSide,
+      transparent: true,
+      depthWrite: false,
+      blending: THREE.AdditiveBlending,
+    });
+
+    this.trailMesh = new THREE.InstancedMesh(
+      this.trailGeometry,
+      this.trailMaterial,
+      this.maxPanes,
+    );
+    this.trailMesh.frustumCulled = false;
+    this.updateTrailVisibility();
+  }
+
   /**
    * Set curve control points for a pane instance
    * This is called ONCE when creating a flight, not every frame!
+   * The shader evaluates the same CatmullRom spline as Curves, so panes ride
+   * exactly on the rendered line, moving at constant speed via an arc-length
+   * lookup table built here.
    * @param index - Index of the pane
-   * @param controlPoints - Array of 4 control points
+   * @param controlPoints - Curve control points (2 to maxControlPoints)
    */
   public setCurveControlPoints(
     index: number,
     controlPoints: THREE.Vector3[],
   ): void {
     if (index < 0 || index >= this.maxPanes) return;
-    if (controlPoints.length < 4) {
-      console.warn("PlanesShader requires 4 control points");
+    if (controlPoints.length < 2) {
+      console.warn("PlanesShader requires at least 2 control points");
       return;
     }
 
-    // Pack control points into attributes
-    // Pack 1: (p0.x, p0.y, p0.z, p1.x)
-    this.controlPointsPack1[index * 4] = controlPoints[0].x;
-    this.controlPointsPack1[index * 4 + 1] = controlPoints[0].y;
-    this.controlPointsPack1[index * 4 + 2] = controlPoints[0].z;
-    this.controlPointsPack1[index * 4 + 3] = controlPoints[1].x;
-
-    // Pack 2: (p1.y, p1.z, p2.x, p2.y)
-    this.controlPointsPack2[index * 4] = controlPoints[1].y;
-    this.controlPointsPack2[index * 4 + 1] = controlPoints[1].z;
-    this.controlPointsPack2[index * 4 + 2] = controlPoints[2].x;
-    this.controlPointsPack2[index * 4 + 3] = controlPoints[2].y;
+    let points = controlPoints;
+    if (points.length > this.maxControlPoints) {
+      console.warn(
+        `PlanesShader stores up to ${this.maxControlPoints} control points; resampling ${points.length}`,
+      );
+      points = new THREE.CatmullRomCurve3(points).getPoints(
+        this.maxControlPoints - 1,
+      );
+    }
 
-    // Pack 3: (p2.z, p3.x, p3.y, p3.z)
-    this.controlPointsPack3[index * 4] = controlPoints[2].z;
-    this.controlPointsPack3[index * 4 + 1] = controlPoints[3].x;
-    this.controlPointsPack3[index * 4 + 2] = controlPoints[3].y;
-    this.controlPointsPack3[index * 4 + 3] = controlPoints[3].z;
+    const offset = index * this.texelsPerInstance * 4;
+    points.forEach((point, pointIndex) => {
+      const texelIndex = offset + pointIndex * 4;
+      this.controlPointData[texelIndex] = point.x;
+      this.controlPointData[texelIndex + 1] = point.y;
+      this.controlPointData[texelIndex + 2] = point.z;
+      this.controlPointData[texelIndex + 3] = 0;
+    });
+    this.controlPointCounts[index] = points.length;
+
+    // Arc-length table: sample k holds the curve t at distance fraction k / (N - 1)
+    const curve = new THREE.CatmullRomCurve3(points);
+    const lutOffset = offset + this.maxControlPoints * 4;
+    for (let k = 0; k < ARC_LENGTH_SAMPLES; k++) {
+      this.controlPointData[lutOffset + k] = curve.getUtoTmapping(
+        k / (ARC_LENGTH_SAMPLES - 1),
+      );
+    }
+    this.arcLengths[index] = curve.getLength();
+    this._markDirty("instanceArcLength", index);
+    if (this.groundSpeedMode) {
+      this.setAnimationSpeed(index, this.requestedSpeeds[index]);
+    }
 
     // Mark pane as visible
     this.animationParams[index * 4 + 3] = 1.0;
-
-    // Mark control point attributes for upload
-    if (this.geometry) {
-      this.geometry.attributes.controlPointsPack1.needsUpdate = true;
-      this.geometry.attributes.controlPointsPack2.needsUpdate = true;
-      this.geometry.attributes.controlPointsPack3.needsUpdate = true;
-      this.geometry.attributes.animationParams.needsUpdate = true;
+    if (index >= this.activePanes) {
+      this.setActivePaneCount(index + 1);
     }
+
+    // Mark control point data for upload
+    this.dirtyControlPoints.mark(index);
+    this._markDirty("controlPointCount", index);
+    this._markDirty("animationParams", index);
   }
 
   /**
@@ -254,11 +486,11 @@ export class PlanesShader {
     const timeUniform = this._getTimeUniform();
     const period = 2;
     const epsilon = 1e-4;
-    let needsUpdate = false;
 
     for (let i = 0; i < this.activePanes; i++) {
       const baseIndex = i * 4;
       if (this.animationParams[baseIndex + 3] < 0.5) continue;
+      if (this.scheduleParams[baseIndex + 3] > 0.5) continue;
 
       const speed = this.animationParams[baseIndex + 1];
       const phase = this.animationParams[baseIndex];
@@ -275,14 +507,10 @@ export class PlanesShader {
             phase - 1,
             period,
           );
-          needsUpdate = true;
+          this._markDirty("animationParams", i);
         }
       }
     }
-
-    if (needsUpdate && this.geometry?.attributes?.animationParams) {
-      this.geometry.attributes.animationParams.needsUpdate = true;
-    }
   }
 
   /**
@@ -299,9 +527,7 @@ export class PlanesShader {
     this.instanceColors[index * 3 + 1] = c.g;
     this.instanceColors[index * 3 + 2] = c.b;
 
-    if (this.geometry) {
-      this.geometry.attributes.instanceColor.needsUpdate = true;
-    }
+    this._markDirty("instanceColor", index);
   }
 
   /**
@@ -313,9 +539,7 @@ export class PlanesShader {
     const normalizedScale = size / this.baseSize;
     this.instanceScales[index] = normalizedScale;
 
-    if (this.geometry) {
-      this.geometry.attributes.instanceScale.needsUpdate = true;
-    }
+    this._markDirty("instanceScale", index);
   }
 
   /**
@@ -325,17 +549,20 @@ export class PlanesShader {
     if (index < 0 || index >= this.maxPanes) return;
 
     this.instanceElevations[index] = offset;
-    if (this.geometry && this.geometry.attributes.instanceElevation) {
-      this.geometry.attributes.instanceElevation.needsUpdate = true;
-    }
+    this._markDirty("instanceElevation", index);
   }
 
   /**
    * Set animation speed for a specific pane
+   * @param index - Index of the pane
+   * @param requestedSpeed - Cycles per second, or in ground speed mode the cycle rate
+   *   of a curve groundSpeedReferenceLength long
    */
-  public setAnimationSpeed(index: number, speed: number): void {
+  public setAnimationSpeed(index: number, requestedSpeed: number): void {
     if (index < 0 || index >= this.maxPanes) return;
 
+    this.requestedSpeeds[index] = requestedSpeed;
+    const speed = this._resolveCycleSpeed(index, requestedSpeed);
     const baseIndex = index * 4;
     const oldSpeed = this.animationParams[baseIndex + 1];
     const oldPhase = this.animationParams[baseIndex];
@@ -355,9 +582,102 @@ export class PlanesShader {
     );
     this.animationParams[baseIndex] = newPhase;
 
-    if (this.geometry) {
-      this.geometry.attributes.animationParams.needsUpdate = true;
+    this._markDirty("animationParams", index);
+  }
+
+  /**
+   * Switch between per-flight cycle speeds and constant ground speed, keeping
+   * every plane at its current position
+   */
+  public setGroundSpeedMode(enabled: boolean): void {
+    const nextMode = !!enabled;
+    if (this.groundSpeedMode === nextMode) return;
+
+    this.groundSpeedMode = nextMode;
+    for (let i = 0; i < this.maxPanes; i++) {
+      if (this.controlPointCounts[i] < 2) continue;
+      this.setAnimationSpeed(i, this.requestedSpeeds[i]);
+    }
+  }
+
+  /**
+   * Get the length of a pane's curve in world units
+   */
+  public getArcLength(index: number): number {
+    if (index < 0 || index >= this.maxPanes) return 0;
+    return this.arcLengths[index];
+  }
+
+  /**
+   * Evaluate where the shader currently draws a pane, on the CPU.
+   * Mirrors panes.vert step by step (progress, arc-length table, CatmullRom
+   * segment and elevation) on the same stored data, so the result lines up
+   * with the GPU-drawn plane. Call after update() for the current frame.
+   * @param index - Index of the pane
+   * @param outPosition - Receives the pane position in world space
+   * @param outDirection - Receives the unit direction of travel
+   * @returns false when the shader hides the pane (nothing is written)
+   */
+  public getPaneTransform(
+    index: number,
+    outPosition: THREE.Vector3,
+    outDirection: THREE.Vector3,
+  ): boolean {
+    if (index < 0 || index >= this.maxPanes || !this.material) return false;
+
+    const baseIndex = index * 4;
+    const count = Math.floor(this.controlPointCounts[index] + 0.5);
+    if (
+      this.animationParams[baseIndex + 3] < 0.5 ||
+      this.material.uniforms.paneVisibility.value < 0.5 ||
+      count < 2
+    ) {
+      return false;
+    }
+
+    // The shader sees the time uniform as a 32-bit float
+    const time = Math.fround(this._getTimeUniform());
+    const phase = this.animationParams[baseIndex];
+    const speed = this.animationParams[baseIndex + 1];
+    let travelDirection = 1;
+    let t: number;
+
+    if (this.scheduleParams[baseIndex + 3] > 0.5) {
+      let elapsed = time - this.scheduleParams[baseIndex];
+      const period = this.scheduleParams[baseIndex + 2];
+      if (period > 0) {
+        elapsed = this._wrapProgress(elapsed, period);
+      }
+      const duration = this.scheduleParams[baseIndex + 1];
+      if (elapsed < 0 || elapsed > duration) return false;
+      t = elapsed / duration;
+    } else if (this.material.uniforms.returnMode.value > 0.5) {
+      const cycle = this._wrapProgress(time * speed + phase, 2);
+      if (cycle > 1) {
+        travelDirection = -1;
+        t = 2 - cycle;
+      } else {
+        t = cycle;
+      }
+    } else {
+      t = this._wrapProgress(time * speed + phase, 1);
     }
+
+    this._evaluateCurve(
+      index,
+      this._arcLengthToCurveT(index, t),
+      count,
+      outPosition,
+      outDirection,
+    );
+    outDirection.multiplyScalar(travelDirection);
+
+    const elevation = this.instanceElevations[index];
+    const lengthSq = outPosition.lengthSq();
+    if (lengthSq > 0) {
+      outPosition.multiplyScalar(1 + elevation / Math.sqrt(lengthSq));
+    }
+    return true;
   }
 
   /**
@@ -371,9 +691,7 @@ export class PlanesShader {
     const tiltModeValue = mode === "Tangent" ? 1.0 : 0.0;
     this.animationParams[index * 4 + 2] = tiltModeValue;
 
-    if (this.geometry) {
-      this.geometry.attributes.animationParams.needsUpdate = true;
-    }
+    this._markDirty("animationParams", index);
   }
 
   /**
@@ -384,23 +702,179 @@ export class PlanesShader {
 
     this.animationParams[index * 4 + 3] = 0.0; // visible = false
 
-    if (this.geometry) {
-      this.geometry.attributes.animationParams.needsUpdate = true;
+    this._markDirty("animationParams", index);
+  }
+
+  /**
+   * Move a pane to another slot, keeping its curve, appearance and
+   * animation phase, and hide the slot it came from
+   * @param from - Current index of the pane
+   * @param to - Index to move it to (its previous contents are replaced)
+   */
+  public movePane(from: number, to: number): void {
+    if (from === to) return;
+    if (from < 0 || from >= this.maxPanes || to < 0 || to >= this.maxPanes) {
+      return;
+    }
+
+    const copySlot = (
+      array: Float32Array | Float64Array | Uint8Array,
+      stride: number,
+    ): void => {
+      array.copyWithin(to * stride, from * stride, (from + 1) * stride);
+    };
+    copySlot(this.controlPointData, this.texelsPerInstance * 4);
+    copySlot(this.controlPointCounts, 1);
+    copySlot(this.arcLengths, 1);
+    copySlot(this.requestedSpeeds, 1);
+    copySlot(this.instanceColors, 3);
+    copySlot(this.instanceScales, 1);
+    copySlot(this.instanceElevations, 1);
+    copySlot(this.instanceUvTransforms, 4);
+    copySlot(this.animationParams, 4);
+    copySlot(this.scheduleParams, 4);
+    copySlot(this.scheduleDepartures, 1);
+    copySlot(this.pendingReturnCompletion, 1);
+
+    this.hidePane(from);
+    this.pendingReturnCompletion[from] = 0;
+    if (to >= this.activePanes) {
+      this.setActivePaneCount(to + 1);
+    }
+
+    this.dirtyControlPoints.mark(to);
+    PANE_ATTRIBUTES.forEach((name) => this._markDirty(name, to));
+  }
+
+  /**
+   * Tie a pane to a flight schedule. Scheduled panes are only shown while the
+   * simulation time is between departure and arrival, at the matching
+   * fraction of the route; unscheduled panes keep looping.
+   * @param index - Index of the pane
+   * @param schedule - Departure/arrival times, or null to loop
+   */
+  public setFlightSchedule(
+    index: number,
+    schedule: FlightSchedule | null,
+  ): void {
+    if (index < 0 || index >= this.maxPanes) return;
+
+    const baseIndex = index * 4;
+    if (!schedule || schedule.arrivalTime <= schedule.departureTime) {
+      this.scheduleParams.fill(0, baseIndex, baseIndex + 4);
+      this.scheduleDepartures[index] = 0;
+    } else {
+      this.scheduleDepartures[index] = schedule.departureTime;
+      this.scheduleParams[baseIndex + 1] =
+        (schedule.arrivalTime - schedule.departureTime) / 1000;
+      this.scheduleParams[baseIndex + 2] =
+        Math.max(0, schedule.repeatPeriod) / 1000;
+      this.scheduleParams[baseIndex + 3] = 1.0;
+      this._updateScheduleDeparture(index);
     }
+    this.pendingReturnCompletion[index] = 0;
+
+    this._markDirty("scheduleParams", index);
+  }
+
+  /**
+   * Get the simulation time in epoch milliseconds
+   */
+  public getSimulationTime(): number {
+    return this.simulationTime;
   }
 
   /**
-   * Update time uniform - called once per frame
-   * This is the ONLY method that needs to be called every frame!
+   * Share the animation clock and per-pane animation arrays, so another
+   * renderer can work out where each plane is in the same frame
    */
-  public update(deltaTime: number): void {
+  public getAnimationState(): PlaneAnimationState {
+    return {
+      time: this.material.uniforms.time,
+      returnMode: this.material.uniforms.returnMode,
+      animationParams: this.animationParams,
+      scheduleParams: this.scheduleParams,
+    };
+  }
+
+  /**
+   * Upload changes to an animation array to another renderer's attribute
+   * over the same array (see getAnimationState)
+   * @param name - Shared array
+   * @param target - Attribute backed by that array
+   */
+  public addAnimationTarget(
+    name: PlaneAnimationAttribute,
+    target: UpdateRangeTarget,
+  ): void {
+    const targets = this.animationTargets.get(name) ?? [];
+    if (!targets.includes(target)) {
+      targets.push(target);
+    }
+    this.animationTargets.set(name, targets);
+    // The target has never been uploaded from here
+    target.clearUpdateRanges();
+    target.needsUpdate = true;
+  }
+
+  public removeAnimationTarget(target: UpdateRangeTarget): void {
+    this.animationTargets.forEach((targets, name) => {
+      this.animationTargets.set(
+        name,
+        targets.filter((entry) => entry !== target),
+      );
+    });
+  }
+
+  /**
+   * Check whether a pane follows a flight schedule
+   */
+  public isScheduled(index: number): boolean {
+    if (index < 0 || index >= this.maxPanes) return false;
+    return this.scheduleParams[index * 4 + 3] > 0.5;
+  }
+
+  /**
+   * Update time uniform from the simulation clock - called once per frame
+   * Apart from applyUpdates(), this is the ONLY method called every frame!
+   * Seeking the clock moves every plane to where it is at that moment.
+   * @param simulationTime - UTC time in epoch milliseconds
+   */
+  public update(simulationTime: number): void {
     if (!this.material || !this.material.uniforms) return;
 
-    this.material.uniforms.time.value += deltaTime;
+    this.simulationTime = simulationTime;
+    if (Math.abs(simulationTime - this.timeEpoch) > MAX_EPOCH_DRIFT) {
+      this._rebaseTimeEpoch(simulationTime);
+    }
+    // Subtract in double precision before handing the value to the GPU
+    this.material.uniforms.time.value =
+      (simulationTime - this.timeEpoch) / 1000;
 
     this._reconcileReturnMode();
   }
 
+  /**
+   * Upload the pane data changed since the last call - call once per frame
+   * after all pane updates, before rendering. Only the dirty pane ranges of
+   * each attribute and of the control point texture are sent to the GPU.
+   */
+  public applyUpdates(): void {
+    if (!this.geometry) return;
+
+    this.dirtyAttributes.forEach((ranges, name) => {
+      const attribute = this.geometry?.attributes[name];
+      const linked =
+        this.animationTargets.get(name as PlaneAnimationAttribute) ?? [];
+      ranges.flush([attribute, ...linked], attribute?.itemSize ?? 1);
+    });
+    this.dirtyControlPoints.flush(
+      this.controlPointTexture,
+      this.texelsPerInstance * 4,
+      this.instancesPerRow,
+    );
+  }
+
   /**
    * Set the number of active panes
    */
@@ -410,6 +884,17 @@ export class PlanesShader {
       this.pendingReturnCompletion.fill(0, newCount, this.activePanes);
     }
     this.activePanes = newCount;
+
+    // Slots past the active range are never drawn
+    if (this.instancedMesh) {
+      this.instancedMesh.count = newCount;
+    }
+    if (this.pickingMesh) {
+      this.pickingMesh.count = newCount;
+    }
+    if (this.trailMesh) {
+      this.trailMesh.count = newCount;
+    }
   }
 
   public setPlanesVisible(visible: boolean): void {
@@ -425,6 +910,51 @@ export class PlanesShader {
     }
   }
 
+  /**
+   * Set the fade width for planes passing behind the globe
+   * @param width - World units over which planes fade out near the limb;
+   *   0 hides them as soon as they are behind the horizon
+   */
+  public setHorizonFade(width: number): void {
+    this.horizonFade = Math.max(0, width);
+    if (this.material?.uniforms?.horizonFade) {
+      this.material.uniforms.horizonFade.value = this.horizonFade;
+    }
+  }
+
+  /**
+   * Set how far the trail behind each plane reaches
+   * @param length - World units along the route; 0 hides the trails
+   */
+  public setTrailLength(length: number): void {
+    this.trailLength = Number.isFinite(length) ? Math.max(0, length) : 0;
+    if (this.trailMaterial) {
+      this.trailMaterial.uniforms.trailLength.value = this.trailLength;
+    }
+    this.updateTrailVisibility();
+  }
+
+  /**
+   * Set the trail opacity right behind the plane; it fades out to the tail
+   * @param opacity - 0 to 1; 0 hides the trails
+   */
+  public setTrailOpacity(opacity: number): void {
+    this.trailOpacity = Number.isFinite(opacity)
+      ? Math.min(Math.max(opacity, 0), 1)
+      : 0;
+    if (this.trailMaterial) {
+      this.trailMaterial.uniforms.trailOpacity.value = this.trailOpacity;
+    }
+    this.updateTrailVisibility();
+  }
+
+  // Skip the trail draw call entirely while trails would be invisible
+  private updateTrailVisibility(): void {
+    if (this.trailMesh) {
+      this.trailMesh.visible = this.trailLength > 0 && this.trailOpacity > 0;
+    }
+  }
+
   /**
    * Get the number of pane instances
    */
@@ -491,9 +1021,7 @@ export class PlanesShader {
       this.instanceUvTransforms[uvIndex + 3] = 1.0;
     }
 
-    if (this.geometry && this.geometry.attributes.instanceUVTransform) {
-      this.geometry.attributes.instanceUVTransform.needsUpdate = true;
-    }
+    this._markDirty("instanceUVTransform", index);
   }
 
   /**
@@ -508,6 +1036,23 @@ export class PlanesShader {
       if (this.material) {
         this.material.dispose();
       }
+      if (this.pickingMaterial) {
+        this.pickingMaterial.dispose();
+        this.pickingMaterial = null;
+      }
+      this.pickingMesh = null;
+      if (this.trailMesh) {
+        this.scene.remove(this.trailMesh);
+        this.trailGeometry?.dispose();
+        this.trailMaterial?.dispose();
+        this.trailMesh = null;
+        this.trailGeometry = null;
+        this.trailMaterial = null;
+      }
+      if (this.controlPointTexture) {
+        this.controlPointTexture.dispose();
+        this.controlPointTexture = null;
+      }
       this.instancedMesh = null;
     }
   }
@@ -519,6 +1064,13 @@ export class PlanesShader {
     return this.instancedMesh !== null;
   }
 
+  /**
+   * Get the off-screen mesh that renders pane ids for GPU picking
+   */
+  public getPickingMesh(): THREE.InstancedMesh | null {
+    return this.pickingMesh;
+  }
+
   /**
    * Get max panes
    */
@@ -530,32 +1082,55 @@ export class PlanesShader {
    * Mark all attributes for GPU upload
    */
   private markAllAttributesNeedUpdate(): void {
-    if (!this.geometry) return;
+    this.dirtyAttributes.forEach((ranges) => ranges.markAll());
+  }
 
-    if (this.geometry.attributes.controlPointsPack1) {
-      this.geometry.attributes.controlPointsPack1.needsUpdate = true;
-    }
-    if (this.geometry.attributes.controlPointsPack2) {
-      this.geometry.attributes.controlPointsPack2.needsUpdate = true;
-    }
-    if (this.geometry.attributes.controlPointsPack3) {
-      this.geometry.attributes.controlPointsPack3.needsUpdate = true;
-    }
-    if (this.geometry.attributes.instanceColor) {
-      this.geometry.attributes.instanceColor.needsUpdate = true;
-    }
-    if (this.geometry.attributes.instanceScale) {
-      this.geometry.attributes.instanceScale.needsUpdate = true;
-    }
-    if (this.geometry.attributes.instanceElevation) {
-      this.geometry.attributes.instanceElevation.needsUpdate = true;
-    }
-    if (this.geometry.attributes.instanceUVTransform) {
-      this.geometry.attributes.instanceUVTransform.needsUpdate = true;
+  /**
+   * Queue one pane of an attribute for the next applyUpdates()
+   */
+  private _markDirty(attribute: PaneAttribute, index: number): void {
+    this.dirtyAttributes.get(attribute)?.mark(index);
+  }
+
+  private _updateScheduleDeparture(index: number): void {
+    const baseIndex = index * 4;
+    const period = this.scheduleParams[baseIndex + 2];
+    const departure = (this.scheduleDepartures[index] - this.timeEpoch) / 1000;
+    this.scheduleParams[baseIndex] =
+      period > 0 ? this._wrapProgress(departure, period) : departure;
+  }
+
+  /**
+   * Move the time origin, shifting loop phases and schedules so every plane
+   * stays where it is
+   */
+  private _rebaseTimeEpoch(epoch: number): void {
+    const shift = (epoch - this.timeEpoch) / 1000;
+    this.timeEpoch = epoch;
+
+    for (let i = 0; i < this.maxPanes; i++) {
+      const baseIndex = i * 4;
+      // A whole number of return-mode periods (2) also keeps one-way loops in step
+      this.animationParams[baseIndex] = this._wrapProgress(
+        this.animationParams[baseIndex] +
+          this.animationParams[baseIndex + 1] * shift,
+        2,
+      );
+      if (this.scheduleParams[baseIndex + 3] > 0.5) {
+        this._updateScheduleDeparture(i);
+      }
     }
-    if (this.geometry.attributes.animationParams) {
-      this.geometry.attributes.animationParams.needsUpdate = true;
+
+    this.dirtyAttributes.get("animationParams")?.markAll();
+    this.dirtyAttributes.get("scheduleParams")?.markAll();
+  }
+
+  private _resolveCycleSpeed(index: number, speed: number): number {
+    const arcLength = this.arcLengths[index];
+    if (!this.groundSpeedMode || arcLength <= 0) {
+      return speed;
     }
+    return (speed * this.groundSpeedReferenceLength) / arcLength;
   }
 
   private _getTimeUniform(): number {
@@ -566,6 +1141,111 @@ export class PlanesShader {
       : 0;
   }
 
+  private _getControlPoint(
+    index: number,
+    pointIndex: number,
+    target: THREE.Vector3,
+  ): THREE.Vector3 {
+    const offset = (index * this.texelsPerInstance + pointIndex) * 4;
+    return target.set(
+      this.controlPointData[offset],
+      this.controlPointData[offset + 1],
+      this.controlPointData[offset + 2],
+    );
+  }
+
+  // CPU version of arcLengthToCurveT in panes.vert
+  private _arcLengthToCurveT(index: number, progress: number): number {
+    const lutOffset =
+      (index * this.texelsPerInstance + this.maxControlPoints) * 4;
+    const scaled =
+      THREE.MathUtils.clamp(progress, 0, 1) * (ARC_LENGTH_SAMPLES - 1);
+    const k = Math.min(Math.floor(scaled), ARC_LENGTH_SAMPLES - 2);
+    return THREE.MathUtils.lerp(
+      this.controlPointData[lutOffset + k],
+      this.controlPointData[lutOffset + k + 1],
+      scaled - k,
+    );
+  }
+
+  // CPU version of evaluateCatmullRom/evaluateCatmullRomSegment in panes.vert
+  private _evaluateCurve(
+    index: number,
+    t: number,
+    count: number,
+    outPosition: THREE.Vector3,
+    outTangent: THREE.Vector3,
+  ): void {
+    const scaled = (count - 1) * THREE.MathUtils.clamp(t, 0, 1);
+    let segment = Math.floor(scaled);
+    let localT = scaled - segment;
+    if (segment >= count - 1) {
+      segment = count - 2;
+      localT = 1;
+    }
+
+    const p1 = this._getControlPoint(index, segment, new THREE.Vector3());
+    const p2 = this._getControlPoint(index, segment + 1, new THREE.Vector3());
+    const p0 =
+      segment > 0
+        ? this._getControlPoint(index, segment - 1, new THREE.Vector3())
+        : p1.clone().sub(p2).add(p1);
+    const p3 =
+      segment + 2 < count
+        ? this._getControlPoint(index, segment + 2, new THREE.Vector3())
+        : p2.clone().sub(p1).add(p2);
+
+    const EPS = 1e-4;
+    let dt0 = Math.pow(p0.distanceToSquared(p1), 0.25);
+    let dt1 = Math.pow(p1.distanceToSquared(p2), 0.25);
+    let dt2 = Math.pow(p2.distanceToSquared(p3), 0.25);
+    if (dt1 < EPS) dt1 = 1;
+    if (dt0 < EPS) dt0 = dt1;
+    if (dt2 < EPS) dt2 = dt1;
+
+    // m1 = (p1 - p0) / dt0 - (p2 - p0) / (dt0 + dt1) + (p2 - p1) / dt1
+    const m1 = new THREE.Vector3()
+      .subVectors(p1, p0)
+      .divideScalar(dt0)
+      .addScaledVector(new THREE.Vector3().subVectors(p2, p0), -1 / (dt0 + dt1))
+      .addScaledVector(new THREE.Vector3().subVectors(p2, p1), 1 / dt1)
+      .multiplyScalar(dt1);
+    // m2 = (p2 - p1) / dt1 - (p3 - p1) / (dt1 + dt2) + (p3 - p2) / dt2
+    const m2 = new THREE.Vector3()
+      .subVectors(p2, p1)
+      .divideScalar(dt1)
+      .addScaledVector(new THREE.Vector3().subVectors(p3, p1), -1 / (dt1 + dt2))
+      .addScaledVector(new THREE.Vector3().subVectors(p3, p2), 1 / dt2)
+      .multiplyScalar(dt1);
+
+    // c2 = -3 p1 + 3 p2 - 2 m1 - m2, c3 = 2 p1 - 2 p2 + m1 + m2
+    const c2 = new THREE.Vector3()
+      .subVectors(p2, p1)
+      .multiplyScalar(3)
+      .addScaledVector(m1, -2)
+      .sub(m2);
+    const c3 = new THREE.Vector3()
+      .subVectors(p1, p2)
+      .multiplyScalar(2)
+      .add(m1)
+      .add(m2);
+
+    const t2 = localT * localT;
+    const t3 = t2 * localT;
+
+    outTangent
+      .copy(m1)
+      .addScaledVector(c2, 2 * localT)
+      .addScaledVector(c3, 3 * t2);
+    outTangent.divideScalar(Math.max(outTangent.length(), 1e-6));
+
+    outPosition
+      .copy(p1)
+      .addScaledVector(m1, localT)
+      .addScaledVector(c2, t2)
+      .addScaledVector(c3, t3);
+  }
+
   private _wrapProgress(value: number, period: number): number {
     if (period <= 0) {
       return 0;
@@ -594,11 +1274,11 @@ export class PlanesShader {
     const period = 2;
     const epsilon = 1e-4;
     let anyPending = false;
-    let needsUpdate = false;
 
     for (let i = 0; i < this.activePanes; i++) {
       const baseIndex = i * 4;
       if (this.animationParams[baseIndex + 3] < 0.5) continue;
+      if (this.scheduleParams[baseIndex + 3] > 0.5) continue;
 
       const speed = this.animationParams[baseIndex + 1];
       const phase = this.animationParams[baseIndex];
@@ -612,7 +1292,7 @@ export class PlanesShader {
             -timeUniform * speed,
             period,
           );
-          needsUpdate = true;
+          this._markDirty("animationParams", i);
         } else {
           anyPending = true;
         }
@@ -622,14 +1302,10 @@ export class PlanesShader {
       if (cycle > 1 + epsilon) {
         // Prevent new return legs from starting
         this.animationParams[baseIndex] = this._wrapProgress(phase - 1, period);
-        needsUpdate = true;
+        this._markDirty("animationParams", i);
       }
     }
 
-    if (needsUpdate && this.geometry?.attributes?.animationParams) {
-      this.geometry.attributes.animationParams.needsUpdate = true;
-    }
-
     if (!anyPending) {
       this.returnModeEnabled = false;
       if (this.material?.uniforms?.returnMode) {
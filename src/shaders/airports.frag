@@ -0,0 +1,16 @@
+varying vec3 vColor;
+varying vec2 vLocal;
+uniform float opacity;
+
+void main() {
+  float dist = length(vLocal);
+  if(dist > 1.0)
+    discard;
+
+  // Darker rim so neighbouring markers stay distinguishable
+  float rim = smoothstep(0.7, 0.85, dist);
+  vec3 color = mix(vColor, vColor * 0.35, rim);
+  float alpha = (1.0 - smoothstep(0.9, 1.0, dist)) * opacity;
+
+  gl_FragColor = vec4(color, alpha);
+}
@@ -0,0 +1,25 @@
+// Per-instance airport attributes
+attribute vec3 airportPosition; // On the globe, world space
+attribute float airportSize; // Marker radius in pixels
+attribute vec3 airportColor;
+
+uniform float worldUnitsPerPixel; // At the globe surface facing the camera
+
+varying vec3 vColor;
+varying vec2 vLocal;
+
+void main() {
+  vColor = airportColor;
+  vLocal = position.xy;
+
+  // Lay the unit disk flat on the globe around the airport
+  vec3 normal = normalize(airportPosition);
+  vec3 reference = abs(normal.y) > 0.99 ? vec3(1.0, 0.0, 0.0) : vec3(0.0, 1.0, 0.0);
+  vec3 tangent = normalize(cross(reference, normal));
+  vec3 bitangent = cross(normal, tangent);
+
+  float radius = airportSize * worldUnitsPerPixel;
+  vec3 worldPosition = airportPosition + (tangent * position.x + bitangent * position.y) * radius;
+
+  gl_Position = projectionMatrix * modelViewMatrix * vec4(worldPosition, 1.0);
+}
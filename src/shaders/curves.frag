@@ -0,0 +1,39 @@
+uniform float dashSize; // World units; 0 draws solid lines
+uniform float gapSize;
+uniform float opacity;
+uniform float horizonFade;
+uniform float progressiveReveal;
+
+varying vec3 vColor;
+varying float vLineDistance;
+varying float vFlown;
+varying float vHorizonVisibility;
+varying vec3 vPixel;
+varying float vSegmentLength;
+varying float vHalfWidth;
+
+void main() {
+  // Without a fade, segments crossing the horizon are cut halfway
+  if(vHorizonVisibility < (horizonFade > 0.0 ? 0.001 : 0.5))
+    discard;
+
+  // Cut the route at the plane
+  if(progressiveReveal > 0.5 && vFlown < 0.0)
+    discard;
+
+  if(dashSize > 0.0 && mod(vLineDistance, dashSize + gapSize) > dashSize)
+    discard;
+
+  // Distance to the segment in pixels; past either end it is measured to
+  // the endpoint, which rounds the caps
+  vec2 pixel = vPixel.xy / vPixel.z;
+  float along = pixel.x - clamp(pixel.x, 0.0, vSegmentLength);
+  float distanceToLine = length(vec2(along, pixel.y));
+
+  float coverage = clamp(vHalfWidth + 0.5 - distanceToLine, 0.0, 1.0);
+  if(coverage <= 0.0)
+    discard;
+
+  gl_FragColor = vec4(vColor, opacity * coverage * vHorizonVisibility);
+  #include <colorspace_fragment>
+}
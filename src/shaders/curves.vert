@@ -0,0 +1,117 @@
+// Screen-space ribbon lines: every curve segment is one instance of a quad
+// that is widened to lineWidth pixels and extended by half a width at both
+// ends. The fragment shader rounds those ends, so consecutive segments meet
+// in round joins.
+
+// Base quad: x is the side (-1 or 1), y picks the segment end (0 or 1)
+// Per-segment attributes, read from the shared per-vertex buffers
+attribute vec3 instanceStart;
+attribute vec3 instanceEnd;
+attribute vec3 instanceColorStart;
+attribute vec3 instanceColorEnd;
+attribute float instanceDistanceStart;
+attribute float instanceDistanceEnd;
+// Per-curve width multiplier (one value per segmentsPerCurve instances)
+attribute float curveWidth;
+attribute float curveLength; // Line distance at the end of the curve
+// animationParams and scheduleParams (plane_progress.glsl) are the planes'
+// own per-slot arrays, read once per curve
+
+uniform vec2 resolution; // Drawing buffer size in pixels
+uniform float lineWidth; // Base width in drawing buffer pixels
+uniform float dashOffset; // World units the dashes have flowed, within one period
+uniform float progressiveReveal; // 1 draws only the part of each route flown so far
+
+varying vec3 vColor;
+varying float vLineDistance;
+varying float vFlown; // Route fraction between this point and the plane, > 0 once flown
+varying float vHorizonVisibility;
+// (along, across, 1) in pixels, premultiplied by clip w so the fragment
+// shader can undo perspective-correct interpolation
+varying vec3 vPixel;
+varying float vSegmentLength; // Pixels
+varying float vHalfWidth; // Pixels
+
+// Move a view-space point that lies behind the near plane onto it
+vec4 trimToNearPlane(vec4 point, vec4 other) {
+  float nearEstimate = -0.5 * projectionMatrix[3][2] / projectionMatrix[2][2];
+  float alpha = (nearEstimate - point.z) / (other.z - point.z);
+  return vec4(mix(point.xyz, other.xyz, alpha), 1.0);
+}
+
+void main() {
+  vec4 worldStart = modelMatrix * vec4(instanceStart, 1.0);
+  vec4 worldEnd = modelMatrix * vec4(instanceEnd, 1.0);
+  float halfWidth = 0.5 * lineWidth * curveWidth;
+
+  // Hidden curves have every vertex at the origin
+  if(halfWidth <= 0.0 || distance(worldStart.xyz, worldEnd.xyz) <= 0.0) {
+    gl_Position = vec4(0.0, 0.0, 0.0, 0.0);
+    return;
+  }
+
+  float progress;
+  float travelDirection;
+  bool flying = planeProgress(progress, travelDirection);
+  float inverseLength = 1.0 / max(curveLength, 1e-6);
+  float startFlown = travelDirection * (progress - instanceDistanceStart * inverseLength);
+  float endFlown = travelDirection * (progress - instanceDistanceEnd * inverseLength);
+  if(progressiveReveal > 0.5 && (!flying || (startFlown < 0.0 && endFlown < 0.0))) {
+    gl_Position = vec4(0.0, 0.0, 0.0, 0.0);
+    return;
+  }
+
+  float startVisibility = 1.0 - horizonOcclusion(worldStart.xyz);
+  float endVisibility = 1.0 - horizonOcclusion(worldEnd.xyz);
+  if(startVisibility <= 0.0 && endVisibility <= 0.0) {
+    gl_Position = vec4(0.0, 0.0, 0.0, 0.0);
+    return;
+  }
+
+  vec4 viewStart = viewMatrix * worldStart;
+  vec4 viewEnd = viewMatrix * worldEnd;
+  bool perspective = projectionMatrix[2][3] == -1.0;
+  if(perspective) {
+    if(viewStart.z > 0.0 && viewEnd.z > 0.0) {
+      gl_Position = vec4(0.0, 0.0, 0.0, 0.0);
+      return;
+    }
+    if(viewStart.z > 0.0) {
+      viewStart = trimToNearPlane(viewStart, viewEnd);
+    } else if(viewEnd.z > 0.0) {
+      viewEnd = trimToNearPlane(viewEnd, viewStart);
+    }
+  }
+
+  vec4 clipStart = projectionMatrix * viewStart;
+  vec4 clipEnd = projectionMatrix * viewEnd;
+  vec2 screenStart = clipStart.xy / clipStart.w * 0.5 * resolution;
+  vec2 screenEnd = clipEnd.xy / clipEnd.w * 0.5 * resolution;
+
+  vec2 segment = screenEnd - screenStart;
+  float segmentLength = length(segment);
+  vec2 direction = segmentLength > 1e-4 ? segment / segmentLength : vec2(1.0, 0.0);
+  vec2 normal = vec2(-direction.y, direction.x);
+
+  // One extra pixel on every side for the anti-aliased edge
+  float extent = halfWidth + 1.0;
+  bool atEnd = position.y > 0.5;
+  float along = atEnd ? segmentLength + extent : -extent;
+  float across = position.x * extent;
+
+  vec4 clip = atEnd ? clipEnd : clipStart;
+  vec2 offset = normal * across + direction * (atEnd ? extent : -extent);
+  clip.xy += offset / (0.5 * resolution) * clip.w;
+  gl_Position = clip;
+
+  // Attributes are extrapolated over the end caps
+  float t = segmentLength > 1e-4 ? along / segmentLength : (atEnd ? 1.0 : 0.0);
+  vColor = mix(instanceColorStart, instanceColorEnd, clamp(t, 0.0, 1.0));
+  vLineDistance = mix(instanceDistanceStart, instanceDistanceEnd, t) -
+    travelDirection * dashOffset;
+  vFlown = mix(startFlown, endFlown, t);
+  vHorizonVisibility = mix(startVisibility, endVisibility, clamp(t, 0.0, 1.0));
+  vPixel = vec3(along, across, 1.0) * clip.w;
+  vSegmentLength = segmentLength;
+  vHalfWidth = halfWidth;
+}
@@ -0,0 +1,92 @@
+// Route curves stored per instance in the control point texture, shared by
+// the panes and their trails
+attribute float controlPointCount; // Points live in controlPointTexture
+
+uniform sampler2D controlPointTexture; // (x, y, z, 0) per texel
+uniform int controlPointTextureWidth;
+uniform int maxControlPoints;
+uniform int texelsPerInstance; // maxControlPoints + arc-length table texels
+
+// Fetch texel `index` of this instance's block (MUST BE FIRST)
+// Instance i owns texels [i * texelsPerInstance, (i + 1) * texelsPerInstance)
+vec4 getInstanceTexel(int index) {
+  int texel = gl_InstanceID * texelsPerInstance + index;
+  ivec2 coord = ivec2(texel % controlPointTextureWidth, texel / controlPointTextureWidth);
+  return texelFetch(controlPointTexture, coord, 0);
+}
+
+vec3 getControlPoint(int index) {
+  return getInstanceTexel(index).xyz;
+}
+
+// Arc-length table sample k: curve t at distance fraction k / (ARC_LENGTH_SAMPLES - 1)
+float getArcLengthSample(int k) {
+  return getInstanceTexel(maxControlPoints + k / 4)[k % 4];
+}
+
+// Map a distance fraction along the curve to the curve parameter t,
+// so equal steps of progress cover equal distances
+float arcLengthToCurveT(float progress) {
+  float scaled = clamp(progress, 0.0, 1.0) * float(ARC_LENGTH_SAMPLES - 1);
+  int k = min(int(floor(scaled)), ARC_LENGTH_SAMPLES - 2);
+  return mix(getArcLengthSample(k), getArcLengthSample(k + 1), scaled - float(k));
+}
+
+// CatmullRom curve evaluation for a single segment
+// Uses centripetal parameterization to match Three.js CatmullRomCurve3 defaults
+vec3 evaluateCatmullRomSegment(vec3 p0, vec3 p1, vec3 p2, vec3 p3, float t, out vec3 tangent) {
+  const float EPS = 1e-4;
+
+  float dt0 = pow(max(dot(p1 - p0, p1 - p0), 0.0), 0.25);
+  float dt1 = pow(max(dot(p2 - p1, p2 - p1), 0.0), 0.25);
+  float dt2 = pow(max(dot(p3 - p2, p3 - p2), 0.0), 0.25);
+
+  if(dt1 < EPS)
+    dt1 = 1.0;
+  if(dt0 < EPS)
+    dt0 = dt1;
+  if(dt2 < EPS)
+    dt2 = dt1;
+
+  vec3 m1 = (p1 - p0) / dt0 - (p2 - p0) / (dt0 + dt1) + (p2 - p1) / dt1;
+  vec3 m2 = (p2 - p1) / dt1 - (p3 - p1) / (dt1 + dt2) + (p3 - p2) / dt2;
+
+  m1 *= dt1;
+  m2 *= dt1;
+
+  vec3 c0 = p1;
+  vec3 c1 = m1;
+  vec3 c2 = -3.0 * p1 + 3.0 * p2 - 2.0 * m1 - m2;
+  vec3 c3 = 2.0 * p1 - 2.0 * p2 + m1 + m2;
+
+  float t2 = t * t;
+  float t3 = t2 * t;
+
+  vec3 rawTangent = c1 + 2.0 * c2 * t + 3.0 * c3 * t2;
+  float tangentLength = max(length(rawTangent), 1e-6);
+  tangent = rawTangent / tangentLength;
+
+  return c0 + c1 * t + c2 * t2 + c3 * t3;
+}
+
+// Evaluate the CatmullRom spline through all control points
+// Mirrors Three.js CatmullRomCurve3.getPoint (open curve): the points are
+// split into count - 1 equal segments of t, with the missing neighbours at
+// either end extrapolated from the first/last pair
+vec3 evaluateCatmullRom(float t, int count, out vec3 tangent) {
+  float scaled = float(count - 1) * clamp(t, 0.0, 1.0);
+  int segment = int(floor(scaled));
+  float localT = scaled - float(segment);
+
+  if(segment >= count - 1) {
+    segment = count - 2;
+    localT = 1.0;
+  }
+
+  vec3 p1 = getControlPoint(segment);
+  vec3 p2 = getControlPoint(segment + 1);
+  vec3 p0 = segment > 0 ? getControlPoint(segment - 1) : p1 + (p1 - p2);
+  vec3 p3 = segment + 2 < count ? getControlPoint(segment + 2) : p2 + (p2 - p1);
+
+  return evaluateCatmullRomSegment(p0, p1, p2, p3, localT, tangent);
+}
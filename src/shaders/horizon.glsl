@@ -0,0 +1,35 @@
+// Horizon culling against the Earth sphere (centered at the origin)
+uniform float horizonRadius; // Earth radius; 0 disables culling
+uniform float horizonFade; // Fade width near the limb in world units; 0 is a hard cut
+
+// How much of the Earth lies between the camera and a world-space point:
+// 0 in front of the globe or beside it, 1 when hidden behind it. With a fade
+// width the transition ramps both with depth behind the surface and with
+// how deep the view ray cuts into the sphere, so points ease out at the limb.
+float horizonOcclusion(vec3 worldPoint) {
+  if(horizonRadius <= 0.0) {
+    return 0.0;
+  }
+
+  vec3 toPoint = worldPoint - cameraPosition;
+  float pointDistance = length(toPoint);
+  vec3 direction = toPoint / max(pointDistance, 1e-6);
+
+  // Ray / sphere: the ray reaches its closest approach to the center at -b
+  float b = dot(cameraPosition, direction);
+  float closestSq = max(dot(cameraPosition, cameraPosition) - b * b, 0.0);
+  float discriminant = horizonRadius * horizonRadius - closestSq;
+  if(discriminant <= 0.0 || b > 0.0) {
+    return 0.0; // Ray misses the globe, or the globe is behind the camera
+  }
+
+  float surfaceDistance = -b - sqrt(discriminant);
+  float depthBehind = pointDistance - surfaceDistance;
+  if(horizonFade <= 0.0) {
+    return depthBehind > 0.0 ? 1.0 : 0.0;
+  }
+
+  float penetration = horizonRadius - sqrt(closestSq);
+  return smoothstep(0.0, horizonFade, depthBehind) *
+    smoothstep(0.0, horizonFade, penetration);
+}
@@ -1,5 +1,6 @@
 varying vec3 vColor;
 varying vec2 vUv;
+varying float vHorizonVisibility;
 uniform sampler2D paneMap;
 uniform float useTexture;
 
@@ -26,6 +27,6 @@ void main() {
   }
 
   vec3 finalColor = clamp(baseColor, 0.0, 1.0);
-  float finalAlpha = useTexture > 0.5 ? textureColor.a : 1.0;
+  float finalAlpha = (useTexture > 0.5 ? textureColor.a : 1.0) * vHorizonVisibility;
   gl_FragColor = vec4(finalColor, finalAlpha);
 }
@@ -0,0 +1,19 @@
+flat varying float vPickId;
+varying vec2 vUv;
+varying float vHorizonVisibility;
+uniform sampler2D paneMap;
+uniform float useTexture;
+
+// Write the pane id as 24-bit RGB so the picker can read back which
+// instance covers a pixel. Transparent texels are skipped, matching panes.frag,
+// as are planes mostly faded out at the limb.
+void main() {
+  if(useTexture > 0.5 && texture2D(paneMap, vUv).a < 0.05)
+    discard;
+  if(vHorizonVisibility < 0.5)
+    discard;
+
+  float id = vPickId;
+  vec3 encoded = vec3(mod(id, 256.0), mod(floor(id / 256.0), 256.0), floor(id / 65536.0));
+  gl_FragColor = vec4(encoded / 255.0, 1.0);
+}
@@ -0,0 +1,36 @@
+// Plane animation, shared by the panes, their trails and the route lines
+attribute vec4 animationParams; // (phase, speed, tiltMode, visible)
+attribute vec4 scheduleParams; // (departure, duration, repeatPeriod, scheduled) in seconds
+
+uniform float time; // Simulation clock, seconds since a recent origin
+uniform float returnMode;
+
+// Where the plane is, as a fraction of its route's length from departure,
+// and its direction: 1 towards arrival, -1 on the way back in return mode.
+// False while a scheduled plane is on the ground.
+bool planeProgress(out float progress, out float travelDirection) {
+  travelDirection = 1.0;
+
+  if(scheduleParams.w > 0.5) {
+    // Scheduled flight: only in the air between departure and arrival
+    float elapsed = time - scheduleParams.x;
+    if(scheduleParams.z > 0.0) {
+      elapsed = mod(elapsed, scheduleParams.z);
+    }
+    progress = elapsed / scheduleParams.y;
+    return elapsed >= 0.0 && elapsed <= scheduleParams.y;
+  }
+
+  if(returnMode > 0.5) {
+    float cycle = mod(time * animationParams.y + animationParams.x, 2.0);
+    if(cycle > 1.0) {
+      travelDirection = -1.0;
+      progress = 2.0 - cycle;
+    } else {
+      progress = cycle;
+    }
+  } else {
+    progress = mod(time * animationParams.y + animationParams.x, 1.0);
+  }
+  return true;
+}
@@ -0,0 +1,12 @@
+varying vec3 vColor;
+varying float vAlpha;
+varying float vAcross;
+
+void main() {
+  // Brightest along the middle of the strip, fading out at its edges
+  float alpha = vAlpha * (1.0 - abs(vAcross));
+  if(alpha <= 0.001)
+    discard;
+
+  gl_FragColor = vec4(vColor, alpha);
+}
@@ -0,0 +1,57 @@
+// Comet trails: a strip behind every plane, laid along the same curve the
+// pane rides. position.x is the side of the strip (-1 or 1) and position.y
+// how far back along the trail the vertex lies (0 at the plane, 1 at the tail).
+
+// Per-instance attributes, shared with the panes
+attribute vec3 instanceColor;
+attribute float instanceScale;
+attribute float instanceElevation;
+attribute float instanceArcLength; // Route length in world units
+
+uniform float baseSize;
+uniform float paneVisibility;
+uniform float trailLength; // World units along the route
+uniform float trailOpacity;
+
+varying vec3 vColor;
+varying float vAlpha;
+varying float vAcross;
+
+// Half width at the plane, relative to the pane size
+const float TRAIL_HALF_WIDTH = 0.12;
+
+void main() {
+  int count = int(controlPointCount + 0.5);
+  float progress;
+  float travelDirection;
+  if(animationParams.w < 0.5 || paneVisibility < 0.5 || count < 2 ||
+    !planeProgress(progress, travelDirection)) {
+    gl_Position = vec4(0.0, 0.0, 0.0, 0.0);
+    return;
+  }
+
+  // Trails stop where the current leg began
+  float along = position.y;
+  float reach = trailLength / max(instanceArcLength, 1e-6);
+  float sampleProgress = clamp(progress - travelDirection * along * reach, 0.0, 1.0);
+
+  vec3 tangent;
+  vec3 center = evaluateCatmullRom(arcLengthToCurveT(sampleProgress), count, tangent);
+  center += normalize(center) * instanceElevation;
+  vec3 worldCenter = (modelMatrix * vec4(center, 1.0)).xyz;
+
+  // Widen across the route, facing the camera as far as the route allows
+  vec3 side = cross(tangent, normalize(cameraPosition - worldCenter));
+  if(length(side) < 1e-5) {
+    side = cross(tangent, normalize(center));
+  }
+  float halfWidth = TRAIL_HALF_WIDTH * baseSize * instanceScale * (1.0 - along);
+  vec3 offset = normalize(side) * position.x * halfWidth;
+
+  gl_Position = projectionMatrix * viewMatrix * vec4(worldCenter + offset, 1.0);
+
+  float fade = 1.0 - along;
+  vColor = instanceColor;
+  vAlpha = trailOpacity * fade * fade * (1.0 - horizonOcclusion(worldCenter));
+  vAcross = position.x;
+}
@@ -7,15 +7,18 @@ export class Earth {
   public mesh: THREE.Mesh | null;
   public atmosphere: Atmosphere;
   private onTextureLoaded: (() => void) | null;
+  private onTextureError: ((error: unknown) => void) | null;
 
   constructor(
     radius: number = 3000,
     onTextureLoaded: (() => void) | null = null,
+    onTextureError: ((error: unknown) => void) | null = null,
   ) {
     this.radius = radius;
     this.mesh = null;
     this.atmosphere = new Atmosphere(radius);
     this.onTextureLoaded = onTextureLoaded;
+    this.onTextureError = onTextureError;
     this.createEarth();
   }
 
@@ -36,6 +39,10 @@ export class Earth {
       undefined,
       // onError callback
       (error) => {
+        if (this.onTextureError) {
+          this.onTextureError(error);
+          return;
+        }
         console.error("Error loading Earth texture:", error);
         if (this.onTextureLoaded) {
           this.onTextureLoaded();
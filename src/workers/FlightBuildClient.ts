@@ -0,0 +1,129 @@
+import { FlightBuilder } from "../flights/FlightBuilder.ts";
+import type {
+  FlightBuildProgress,
+  FlightBuildRequest,
+  FlightBuildResult,
+  FlightWorkerResponse,
+} from "../common/Types.js";
+
+interface PendingBuild {
+  request: FlightBuildRequest;
+  onProgress?: (progress: FlightBuildProgress) => void;
+  resolve: (result: FlightBuildResult) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * FlightBuildClient - Sends FlightBuilder jobs to the flight build worker
+ * so large datasets don't block the page. When the worker cannot start or
+ * crashes, jobs are built on the main thread instead.
+ */
+export class FlightBuildClient {
+  private worker: Worker | null = null;
+  private workerFailed = false;
+  private nextId = 1;
+  private readonly pending = new Map<number, PendingBuild>();
+
+  /**
+   * Build routes and curve buffers
+   * @param request - Work to do; its arrays are copied, not transferred
+   * @param onProgress - Called as routes and curves are completed
+   */
+  public build(
+    request: FlightBuildRequest,
+    onProgress?: (progress: FlightBuildProgress) => void,
+  ): Promise<FlightBuildResult> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return this.buildOnMainThread(request, onProgress);
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { request, onProgress, resolve, reject });
+      worker.postMessage({ id, request });
+    });
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker || this.workerFailed) {
+      return this.worker;
+    }
+    if (typeof Worker === "undefined") {
+      this.workerFailed = true;
+      return null;
+    }
+
+    try {
+      this.worker = new Worker(
+        new URL("./FlightBuildWorker.ts", import.meta.url),
+        { type: "module" },
+      );
+      this.worker.onmessage = (event: MessageEvent<FlightWorkerResponse>) =>
+        this.handleMessage(event.data);
+      this.worker.onerror = (event: ErrorEvent) =>
+        this.handleWorkerError(event);
+    } catch (error) {
+      console.warn(
+        "Flight build worker unavailable, building on the main thread:",
+        error,
+      );
+      this.workerFailed = true;
+      this.worker = null;
+    }
+    return this.worker;
+  }
+
+  private handleMessage(message: FlightWorkerResponse): void {
+    const job = this.pending.get(message.id);
+    if (!job) return;
+
+    switch (message.type) {
+      case "progress":
+        job.onProgress?.(message.progress);
+        break;
+      case "result":
+        this.pending.delete(message.id);
+        job.resolve(message.result);
+        break;
+      case "error":
+        this.pending.delete(message.id);
+        job.reject(new Error(message.message));
+        break;
+    }
+  }
+
+  // The worker script failed to load or crashed: finish its jobs here
+  private handleWorkerError(event: ErrorEvent): void {
+    console.warn(
+      "Flight build worker failed, building on the main thread:",
+      event.message,
+    );
+    event.preventDefault();
+    this.worker?.terminate();
+    this.worker = null;
+    this.workerFailed = true;
+
+    const jobs = [...this.pending.values()];
+    this.pending.clear();
+    jobs.forEach((job) => {
+      this.buildOnMainThread(job.request, job.onProgress).then(
+        job.resolve,
+        job.reject,
+      );
+    });
+  }
+
+  private buildOnMainThread(
+    request: FlightBuildRequest,
+    onProgress?: (progress: FlightBuildProgress) => void,
+  ): Promise<FlightBuildResult> {
+    return new Promise((resolve, reject) => {
+      try {
+        resolve(FlightBuilder.build(request, onProgress));
+      } catch (error) {
+        reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+}
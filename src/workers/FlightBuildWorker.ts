@@ -0,0 +1,34 @@
+import { FlightBuilder } from "../flights/FlightBuilder.ts";
+import type {
+  FlightWorkerRequest,
+  FlightWorkerResponse,
+} from "../common/Types.js";
+
+/**
+ * FlightBuildWorker - Runs FlightBuilder jobs off the main thread.
+ * Every message echoes the job id; result buffers are transferred.
+ */
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<FlightWorkerRequest>) => void) | null;
+  postMessage(message: FlightWorkerResponse, transfer?: Transferable[]): void;
+};
+
+workerScope.onmessage = (event) => {
+  const { id, request } = event.data;
+
+  try {
+    const result = FlightBuilder.build(request, (progress) => {
+      workerScope.postMessage({ id, type: "progress", progress });
+    });
+    workerScope.postMessage(
+      { id, type: "result", result },
+      FlightBuilder.getTransferables(result),
+    );
+  } catch (error) {
+    workerScope.postMessage({
+      id,
+      type: "error",
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};